@@ -0,0 +1,318 @@
+import zlib from 'zlib';
+import sharp from 'sharp';
+import { crc32 } from './checksums.js';
+import type { RGBAImage } from './decode-pipeline.js';
+
+/**
+ * Frames of one animation: every frame covers the whole canvas, one byte
+ * per pixel indexing into the shared palette
+ */
+export interface IndexedAnimation {
+  width: number;
+  height: number;
+  /** Colours as #rrggbb, at most 256 */
+  palette: string[];
+  frames: Uint8Array[];
+  /** Display time of each frame in milliseconds */
+  delay: number;
+  /** Times to play the animation; 0 loops forever */
+  loop?: number;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Largest code of GIF's variable-length LZW
+const MAX_LZW_CODE = 4095;
+
+/**
+ * Encode an animated GIF (GIF89a with the NETSCAPE2.0 loop extension)
+ */
+export function encodeGIF(animation: IndexedAnimation): Buffer {
+  const { width, height, palette } = animation;
+  // The colour table holds a power of two entries, and LZW needs 2-bit codes at least
+  const tableBits = Math.max(1, Math.ceil(Math.log2(palette.length)));
+  const minCodeSize = Math.max(2, tableBits);
+
+  const chunks: Buffer[] = [Buffer.from('GIF89a', 'latin1')];
+  const screen = Buffer.alloc(7);
+  screen.writeUInt16LE(width, 0);
+  screen.writeUInt16LE(height, 2);
+  screen[4] = 0x80 | ((tableBits - 1) << 4) | (tableBits - 1);
+  chunks.push(screen);
+
+  const table = Buffer.alloc(3 * (1 << tableBits));
+  palette.forEach((colour, index) => rgb(colour).forEach((value, channel) => (table[index * 3 + channel] = value)));
+  chunks.push(table);
+
+  const loop = Buffer.from([0x21, 0xff, 0x0b, ...Buffer.from('NETSCAPE2.0', 'latin1'), 0x03, 0x01, 0, 0, 0x00]);
+  loop.writeUInt16LE(animation.loop ?? 0, 16);
+  chunks.push(loop);
+
+  for (const frame of animation.frames) {
+    // Graphic control: restore nothing between frames, delay in 1/100 s
+    const control = Buffer.from([0x21, 0xf9, 0x04, 0x04, 0, 0, 0, 0x00]);
+    control.writeUInt16LE(Math.max(2, Math.round(animation.delay / 10)), 4);
+    chunks.push(control);
+
+    const descriptor = Buffer.alloc(10);
+    descriptor[0] = 0x2c;
+    descriptor.writeUInt16LE(width, 5);
+    descriptor.writeUInt16LE(height, 7);
+    chunks.push(descriptor);
+
+    chunks.push(Buffer.from([minCodeSize]));
+    const data = lzwEncode(frame, minCodeSize);
+    for (let offset = 0; offset < data.length; offset += 255) {
+      const block = data.subarray(offset, offset + 255);
+      chunks.push(Buffer.from([block.length]), block);
+    }
+    chunks.push(Buffer.from([0x00]));
+  }
+
+  chunks.push(Buffer.from([0x3b]));
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Encode an animated PNG. The first frame doubles as the still image shown
+ * by viewers without APNG support.
+ */
+export function encodeAPNG(animation: IndexedAnimation): Buffer {
+  const { width, height, palette } = animation;
+  const bitDepth = palette.length <= 2 ? 1 : palette.length <= 4 ? 2 : palette.length <= 16 ? 4 : 8;
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = bitDepth;
+  header[9] = 3; // indexed colour
+
+  const control = Buffer.alloc(8);
+  control.writeUInt32BE(animation.frames.length, 0);
+  control.writeUInt32BE(animation.loop ?? 0, 4);
+
+  const chunks = [
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    pngChunk('acTL', control),
+    pngChunk('PLTE', Buffer.concat(palette.map(colour => Buffer.from(rgb(colour))))),
+  ];
+
+  let sequence = 0;
+  animation.frames.forEach((frame, index) => {
+    const frameControl = Buffer.alloc(26);
+    frameControl.writeUInt32BE(sequence++, 0);
+    frameControl.writeUInt32BE(width, 4);
+    frameControl.writeUInt32BE(height, 8);
+    frameControl.writeUInt16BE(Math.round(animation.delay), 20);
+    frameControl.writeUInt16BE(1000, 22);
+    chunks.push(pngChunk('fcTL', frameControl));
+
+    const data = zlib.deflateSync(packRows(frame, width, height, bitDepth));
+    if (index === 0) {
+      chunks.push(pngChunk('IDAT', data));
+    } else {
+      const sequenceNumber = Buffer.alloc(4);
+      sequenceNumber.writeUInt32BE(sequence++, 0);
+      chunks.push(pngChunk('fdAT', Buffer.concat([sequenceNumber, data])));
+    }
+  });
+
+  chunks.push(pngChunk('IEND', Buffer.alloc(0)));
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Whether the bytes are a PNG with an animation control chunk
+ */
+export function isAPNG(bytes: Buffer): boolean {
+  if (bytes.length < 8 || !bytes.subarray(0, 8).equals(PNG_SIGNATURE)) return false;
+  return readChunks(bytes).some(chunk => chunk.type === 'acTL');
+}
+
+/**
+ * Render every frame of an APNG onto the canvas in turn, honouring the
+ * frame offsets, blend and dispose operations, and return each as RGBA on
+ * a white background. sharp only reads the still image of an APNG.
+ */
+export async function readAPNGFrames(bytes: Buffer): Promise<RGBAImage[]> {
+  const chunks = readChunks(bytes);
+  const header = chunks.find(chunk => chunk.type === 'IHDR')!.data;
+  const width = header.readUInt32BE(0);
+  const height = header.readUInt32BE(4);
+  // Chunks every standalone frame image needs besides its own header and data
+  const shared = chunks.filter(chunk => ['PLTE', 'tRNS', 'gAMA', 'cHRM', 'sRGB', 'iCCP', 'sBIT'].includes(chunk.type));
+
+  const frames: Array<{ control: Buffer; data: Buffer[] }> = [];
+  for (const chunk of chunks) {
+    if (chunk.type === 'fcTL') {
+      frames.push({ control: chunk.data, data: [] });
+    } else if (chunk.type === 'IDAT' && frames.length > 0) {
+      frames[frames.length - 1].data.push(chunk.data);
+    } else if (chunk.type === 'fdAT' && frames.length > 0) {
+      frames[frames.length - 1].data.push(chunk.data.subarray(4));
+    }
+  }
+
+  const canvas = new Uint8ClampedArray(width * height * 4);
+  const images: RGBAImage[] = [];
+
+  for (const frame of frames) {
+    const frameWidth = frame.control.readUInt32BE(4);
+    const frameHeight = frame.control.readUInt32BE(8);
+    const left = frame.control.readUInt32BE(12);
+    const top = frame.control.readUInt32BE(16);
+    const dispose = frame.control[24];
+    const blend = frame.control[25];
+    if (frame.data.length === 0 || left + frameWidth > width || top + frameHeight > height) continue;
+
+    const frameHeader = Buffer.from(header);
+    frameHeader.writeUInt32BE(frameWidth, 0);
+    frameHeader.writeUInt32BE(frameHeight, 4);
+    const png = Buffer.concat([
+      PNG_SIGNATURE,
+      pngChunk('IHDR', frameHeader),
+      ...shared.map(chunk => pngChunk(chunk.type, chunk.data)),
+      pngChunk('IDAT', Buffer.concat(frame.data)),
+      pngChunk('IEND', Buffer.alloc(0)),
+    ]);
+    const pixels = await sharp(png).ensureAlpha().raw().toBuffer();
+
+    const previous = dispose === 2 ? canvas.slice() : undefined;
+    for (let y = 0; y < frameHeight; y++) {
+      for (let x = 0; x < frameWidth; x++) {
+        const source = (y * frameWidth + x) * 4;
+        const target = ((top + y) * width + left + x) * 4;
+        const alpha = pixels[source + 3] / 255;
+        for (let channel = 0; channel < 4; channel++) {
+          const value = channel === 3 ? 255 : pixels[source + channel];
+          // Blend 0 replaces the region, 1 draws over it
+          canvas[target + channel] = blend === 1
+            ? value * alpha + canvas[target + channel] * (1 - alpha)
+            : channel === 3 ? pixels[source + 3] : value;
+        }
+      }
+    }
+    images.push(onWhite(canvas, width, height));
+
+    if (dispose === 1) {
+      for (let y = top; y < top + frameHeight; y++) {
+        canvas.fill(0, (y * width + left) * 4, (y * width + left + frameWidth) * 4);
+      }
+    } else if (previous) {
+      canvas.set(previous);
+    }
+  }
+
+  return images;
+}
+
+function readChunks(bytes: Buffer): Array<{ type: string; data: Buffer }> {
+  const chunks: Array<{ type: string; data: Buffer }> = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = bytes.readUInt32BE(offset);
+    const type = bytes.toString('latin1', offset + 4, offset + 8);
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const body = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+  const checksum = Buffer.alloc(4);
+  checksum.writeUInt32BE(crc32(body), 0);
+  return Buffer.concat([length, body, checksum]);
+}
+
+/**
+ * Scanlines of palette indices packed to the bit depth, each behind a
+ * "none" filter byte
+ */
+function packRows(frame: Uint8Array, width: number, height: number, bitDepth: number): Buffer {
+  const rowBytes = Math.ceil((width * bitDepth) / 8);
+  const rows = Buffer.alloc((rowBytes + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (rowBytes + 1) + 1;
+    for (let x = 0; x < width; x++) {
+      const bit = x * bitDepth;
+      rows[row + (bit >> 3)] |= frame[y * width + x] << (8 - bitDepth - (bit & 7));
+    }
+  }
+  return rows;
+}
+
+/**
+ * GIF's LZW variant: codes grow from `minCodeSize + 1` bits up to 12, and a
+ * clear code resets the dictionary when it fills up
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Buffer {
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  const output: number[] = [];
+  let buffer = 0;
+  let bufferBits = 0;
+  let codeSize = minCodeSize + 1;
+  let next = end + 1;
+  let dictionary = new Map<number, number>();
+
+  const write = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      output.push(buffer & 0xff);
+      buffer >>>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  write(clear);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const known = dictionary.get(key);
+    if (known !== undefined) {
+      prefix = known;
+      continue;
+    }
+
+    write(prefix);
+    if (next > MAX_LZW_CODE) {
+      write(clear);
+      dictionary = new Map();
+      codeSize = minCodeSize + 1;
+      next = end + 1;
+    } else {
+      // The decoder widens its codes one code later than it adds them
+      if (next === 1 << codeSize) codeSize++;
+      dictionary.set(key, next++);
+    }
+    prefix = indices[i];
+  }
+  write(prefix);
+  write(end);
+  if (bufferBits > 0) output.push(buffer & 0xff);
+
+  return Buffer.from(output);
+}
+
+function onWhite(canvas: Uint8ClampedArray, width: number, height: number): RGBAImage {
+  const data = new Uint8ClampedArray(canvas.length);
+  for (let i = 0; i < canvas.length; i += 4) {
+    const alpha = canvas[i + 3] / 255;
+    data[i] = canvas[i] * alpha + 255 * (1 - alpha);
+    data[i + 1] = canvas[i + 1] * alpha + 255 * (1 - alpha);
+    data[i + 2] = canvas[i + 2] * alpha + 255 * (1 - alpha);
+    data[i + 3] = 255;
+  }
+  return { data, width, height };
+}
+
+function rgb(colour: string): [number, number, number] {
+  const value = parseInt(colour.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
@@ -0,0 +1,305 @@
+import { randomUUID } from 'crypto';
+import { escapeText, joinContentLines, paramValue } from './content-lines.js';
+import { Event, QRValidationError } from './types.js';
+
+const PRODID = '-//mcp-server-qrcode-enhanced//QR Event//EN';
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const ATTENDEE_ROLES = {
+  required: 'REQ-PARTICIPANT',
+  optional: 'OPT-PARTICIPANT',
+  chair: 'CHAIR',
+} as const;
+
+interface EventDate {
+  /** Wall-clock time as if it were UTC, in milliseconds */
+  wall: number;
+  hasTime: boolean;
+  /** Offset from UTC in minutes, when the date names an instant */
+  offset?: number;
+}
+
+/**
+ * A VCALENDAR holding one VEVENT (RFC 5545), with a VTIMEZONE for TZID
+ * times, escaped text and folded CRLF lines
+ */
+export function buildCalendarEvent(event: Event, now: Date = new Date()): string {
+  const start = parseEventDate(event.startDate, 'startDate');
+  const end = event.endDate ? parseEventDate(event.endDate, 'endDate') : undefined;
+  const timeZone = event.allDay ? undefined : event.timeZone;
+  if (end && endsBeforeStart(start, end, event.allDay, timeZone)) {
+    throw new QRValidationError(`endDate ${event.endDate} is before startDate ${event.startDate}`);
+  }
+
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN'];
+  if (timeZone) {
+    lines.push(...buildTimeZone(timeZone, new Date(start.wall).getUTCFullYear()));
+  }
+
+  lines.push(
+    'BEGIN:VEVENT',
+    `UID:${escapeText(event.uid || `${randomUUID()}@qrcode-enhanced`)}`,
+    `DTSTAMP:${formatDateTime(now.getTime())}Z`,
+    dateProperty('DTSTART', start, event.allDay, timeZone)
+  );
+  if (end) {
+    // A DATE end is exclusive, so the last day given runs to its end
+    const exclusiveEnd = event.allDay ? { ...end, wall: startOfDay(end.wall) + 86400000 } : end;
+    lines.push(dateProperty('DTEND', exclusiveEnd, event.allDay, timeZone));
+  }
+  lines.push(`SUMMARY:${escapeText(event.title)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+
+  if (event.organizer) {
+    lines.push(`ORGANIZER${commonName(event.organizer.name)}:mailto:${event.organizer.email}`);
+  }
+  for (const attendee of event.attendees || []) {
+    lines.push(
+      `ATTENDEE${commonName(attendee.name)};ROLE=${ATTENDEE_ROLES[attendee.role]}` +
+      `${attendee.rsvp ? ';RSVP=TRUE' : ''}:mailto:${attendee.email}`
+    );
+  }
+
+  if (event.recurrence) {
+    lines.push(`RRULE:${buildRecurrenceRule(event.recurrence, start, event.allDay, timeZone)}`);
+  }
+
+  for (const alarm of event.alarms || []) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(alarm.description || event.title)}`,
+      `TRIGGER:${alarm.minutesBefore === 0 ? 'PT0S' : `-${formatDuration(alarm.minutesBefore)}`}`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VEVENT', 'END:VCALENDAR');
+  return joinContentLines(lines);
+}
+
+/**
+ * DATE for all-day events; otherwise a TZID local time, a UTC time for
+ * instants without a time zone, or a floating time
+ */
+function dateProperty(name: string, date: EventDate, allDay: boolean, timeZone: string | undefined): string {
+  if (allDay) return `${name};VALUE=DATE:${formatDate(date.wall)}`;
+  if (timeZone) return `${name};TZID=${paramValue(timeZone)}:${formatDateTime(zonedWallTime(date, timeZone))}`;
+  if (date.offset !== undefined) return `${name}:${formatDateTime(date.wall - date.offset * 60000)}Z`;
+  return `${name}:${formatDateTime(date.wall)}`;
+}
+
+// All-day events compare by day; times by instant where they name one, and
+// otherwise by their wall-clock time
+function endsBeforeStart(start: EventDate, end: EventDate, allDay: boolean, timeZone: string | undefined): boolean {
+  if (allDay) return startOfDay(end.wall) < startOfDay(start.wall);
+  const instant = (date: EventDate) => {
+    if (date.offset !== undefined) return date.wall - date.offset * 60000;
+    return timeZone ? wallToInstant(date.wall, timeZone) : date.wall;
+  };
+  return instant(end) < instant(start);
+}
+
+// Wall-clock time of a date in the zone; dates without an offset already are
+function zonedWallTime(date: EventDate, timeZone: string): number {
+  if (date.offset === undefined) return date.wall;
+  const instant = date.wall - date.offset * 60000;
+  return instant + zoneOffset(timeZone, instant) * 60000;
+}
+
+function buildRecurrenceRule(
+  rule: NonNullable<Event['recurrence']>,
+  start: EventDate,
+  allDay: boolean,
+  timeZone: string | undefined
+): string {
+  const parts = [`FREQ=${rule.frequency}`];
+  if (rule.interval && rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) {
+    const until = parseEventDate(rule.until, 'recurrence.until');
+    // A date alone runs to the end of that day
+    const wall = until.hasTime ? until.wall : until.wall + 86399000;
+    if (allDay) {
+      parts.push(`UNTIL=${formatDate(until.wall)}`);
+    } else if (!timeZone && start.offset === undefined) {
+      // UNTIL follows a floating DTSTART
+      parts.push(`UNTIL=${formatDateTime(until.offset === undefined ? wall : until.wall)}`);
+    } else {
+      // and is in UTC for TZID and UTC starts
+      let instant = wall - (until.offset ?? 0) * 60000;
+      if (until.offset === undefined && timeZone) instant = wallToInstant(wall, timeZone);
+      parts.push(`UNTIL=${formatDateTime(instant)}Z`);
+    }
+  }
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map(day => day.toUpperCase()).join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  return parts.join(';');
+}
+
+/**
+ * VTIMEZONE with the offsets in force in `year`, starting from the year
+ * before so that dates early in `year` fall inside an observance. Where
+ * the zone has daylight saving time on the same rule both years, each
+ * observance recurs yearly on the same weekday of the month.
+ */
+function buildTimeZone(timeZone: string, year: number): string[] {
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  const previous = findTransitions(timeZone, year - 1);
+  const current = findTransitions(timeZone, year);
+  const recurring = previous.length === 2 && current.length === 2 &&
+    previous.every((transition, index) => yearlyRule(transition) === yearlyRule(current[index]));
+  const transitions = recurring ? previous : [...previous, ...current];
+
+  // Zones without changes the year before keep their offset from 1970
+  if (previous.length === 0) {
+    const offset = formatOffset(zoneOffset(timeZone, Date.UTC(year, 0, 1)));
+    lines.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD');
+  }
+  for (const transition of transitions) {
+    const kind = transition.to > transition.from ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(`BEGIN:${kind}`, `DTSTART:${formatDateTime(localTransition(transition))}`);
+    if (recurring) lines.push(`RRULE:${yearlyRule(transition)}`);
+    lines.push(
+      `TZOFFSETFROM:${formatOffset(transition.from)}`,
+      `TZOFFSETTO:${formatOffset(transition.to)}`,
+      `END:${kind}`
+    );
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/**
+ * Offset changes during a year, to the minute: daily samples, then a binary
+ * search inside each day whose offset differs from the day before
+ */
+function findTransitions(timeZone: string, year: number): Array<{ at: number; from: number; to: number }> {
+  const transitions: Array<{ at: number; from: number; to: number }> = [];
+  const end = Date.UTC(year + 1, 0, 1);
+  let previous = Date.UTC(year, 0, 1);
+  let previousOffset = zoneOffset(timeZone, previous);
+
+  for (let time = previous + 86400000; time <= end; time += 86400000) {
+    const offset = zoneOffset(timeZone, time);
+    if (offset !== previousOffset) {
+      let low = previous;
+      let high = time;
+      while (high - low > 60000) {
+        const middle = low + Math.floor((high - low) / 120000) * 60000;
+        if (zoneOffset(timeZone, middle) === previousOffset) low = middle;
+        else high = middle;
+      }
+      transitions.push({ at: high, from: previousOffset, to: offset });
+    }
+    previous = time;
+    previousOffset = offset;
+  }
+  return transitions;
+}
+
+// Observances start at the local time before the change
+function localTransition(transition: { at: number; from: number }): number {
+  return transition.at + transition.from * 60000;
+}
+
+function yearlyRule(transition: { at: number; from: number }): string {
+  const local = new Date(localTransition(transition));
+  return `FREQ=YEARLY;BYMONTH=${local.getUTCMonth() + 1};BYDAY=${weekdayOfMonth(local)}`;
+}
+
+// `2SU` for the second Sunday, `-1SU` for the last one
+function weekdayOfMonth(date: Date): string {
+  const day = date.getUTCDate();
+  const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  const position = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+  return `${position}${WEEKDAYS[date.getUTCDay()]}`;
+}
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Offset of the zone from UTC at an instant, in minutes
+ */
+function zoneOffset(timeZone: string, instant: number): number {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(
+    formatter.formatToParts(new Date(instant)).map(part => [part.type, Number(part.value)])
+  );
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((wall - Math.floor(instant / 1000) * 1000) / 60000);
+}
+
+function wallToInstant(wall: number, timeZone: string): number {
+  const guess = wall - zoneOffset(timeZone, wall) * 60000;
+  return wall - zoneOffset(timeZone, guess) * 60000;
+}
+
+function parseEventDate(value: string, field: string): EventDate {
+  const match = value.trim().match(
+    /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?(Z|[+-]\d{2}:?\d{2})?$/i
+  );
+  if (!match) {
+    throw new QRValidationError(`${field} must be an ISO date (YYYY-MM-DD) or date-time (YYYY-MM-DDTHH:MM[:SS][Z|±HH:MM])`);
+  }
+
+  const [, year, month, day, hour, minute = '0', second = '0', zone] = match;
+  const wall = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour || 0), Number(minute), Number(second));
+  const check = new Date(wall);
+  if (check.getUTCMonth() !== Number(month) - 1 || check.getUTCDate() !== Number(day)) {
+    throw new QRValidationError(`${field} is not a valid date: ${value}`);
+  }
+
+  const date: EventDate = { wall, hasTime: hour !== undefined };
+  if (zone && hour !== undefined) {
+    const offset = zone.match(/([+-])(\d{2}):?(\d{2})/);
+    date.offset = offset ? (offset[1] === '-' ? -1 : 1) * (Number(offset[2]) * 60 + Number(offset[3])) : 0;
+  }
+  return date;
+}
+
+function commonName(name: string | undefined): string {
+  return name ? `;CN=${paramValue(name)}` : '';
+}
+
+function startOfDay(time: number): number {
+  return Math.floor(time / 86400000) * 86400000;
+}
+
+function formatDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function formatDateTime(time: number): string {
+  return new Date(time).toISOString().slice(0, 19).replace(/[-:]/g, '');
+}
+
+function formatOffset(minutes: number): string {
+  const absolute = Math.abs(minutes);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${minutes < 0 ? '-' : '+'}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+}
+
+function formatDuration(minutes: number): string {
+  if (minutes % 1440 === 0) return `P${minutes / 1440}D`;
+  if (minutes % 60 === 0) return `PT${minutes / 60}H`;
+  return `PT${minutes}M`;
+}
@@ -0,0 +1,188 @@
+import QRCode from 'qrcode';
+import type { GeneratedQRCodeSegment } from 'qrcode';
+import { encoderInput, segmentBits, segmentLength, splitSegments } from './qr-segments.js';
+import type { ErrorCorrectionLevel, QRSegment } from './types.js';
+
+const ECL_ORDER: ErrorCorrectionLevel[] = ['L', 'M', 'Q', 'H'];
+
+// Data codewords of versions 1-40 after error correction (ISO/IEC 18004 table 7)
+const DATA_CODEWORDS: Record<ErrorCorrectionLevel, number[]> = {
+  L: [
+    19, 34, 55, 80, 108, 136, 156, 194, 232, 274, 324, 370, 428, 461, 523, 589, 647, 721, 795, 861,
+    932, 1006, 1094, 1174, 1276, 1370, 1468, 1531, 1631, 1735, 1843, 1955, 2071, 2191, 2306, 2434, 2566, 2702, 2812, 2956,
+  ],
+  M: [
+    16, 28, 44, 64, 86, 108, 124, 154, 182, 216, 254, 290, 334, 365, 415, 453, 507, 563, 627, 669,
+    714, 782, 860, 914, 1000, 1062, 1128, 1193, 1267, 1373, 1455, 1541, 1631, 1725, 1812, 1914, 1992, 2102, 2216, 2334,
+  ],
+  Q: [
+    13, 22, 34, 48, 62, 76, 88, 110, 132, 154, 180, 206, 244, 261, 295, 325, 367, 397, 445, 485,
+    512, 568, 614, 664, 718, 754, 808, 871, 911, 985, 1033, 1115, 1171, 1231, 1286, 1354, 1426, 1502, 1582, 1666,
+  ],
+  H: [
+    9, 16, 26, 36, 46, 60, 66, 86, 100, 122, 140, 158, 180, 197, 223, 253, 283, 313, 341, 385,
+    406, 442, 464, 514, 538, 596, 628, 661, 701, 745, 793, 845, 901, 961, 986, 1054, 1096, 1142, 1222, 1276,
+  ],
+};
+
+const QUIET_ZONE_MODULES = 4;
+
+// Rule of thumb for phone cameras: a symbol of about 25 modules can be read
+// from ten times its width, i.e. each module needs 1/250 of the distance.
+const DISTANCE_PER_MODULE = 250;
+
+// Below this module size print spread and paper texture break the modules up
+const MIN_PRINT_MODULE_MM = 0.25;
+
+export const DEFAULT_SCAN_DISTANCE_CM = 30;
+
+export interface CapacitySegment {
+  mode: QRSegment['mode'];
+  /** Characters (bytes in byte mode) in the segment */
+  length: number;
+  /** Bits taken by the segment, including mode indicator and length field */
+  bits: number;
+}
+
+export interface LevelCapacity {
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  fits: boolean;
+  /** Smallest version that holds the content */
+  version?: number;
+  /** Modules per side of that version */
+  modules?: number;
+  usedBits?: number;
+  capacityBits?: number;
+  /** Bytes that can still be added without growing the symbol */
+  remainingBytes?: number;
+  /** Bits missing even at version 40 */
+  overflowBits?: number;
+}
+
+export interface PhysicalSize {
+  scanDistanceCm: number;
+  moduleSizeMm: number;
+  /** Side of the symbol without quiet zone */
+  symbolSizeMm: number;
+  /** Side including the 4-module quiet zone */
+  totalSizeMm: number;
+}
+
+export interface CapacityPlan {
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  /** UTF-8 length of the content */
+  bytes: number;
+  segments: CapacitySegment[];
+  levels: LevelCapacity[];
+  /** Capacity at the requested level */
+  selected: LevelCapacity;
+  /** Smallest printable size at the requested level, if the content fits */
+  physicalSize?: PhysicalSize;
+}
+
+/**
+ * Work out how the content encodes at every error correction level, from
+ * the symbol the encoder actually builds rather than from string length
+ */
+export function planCapacity(
+  content: string,
+  errorCorrectionLevel: ErrorCorrectionLevel = 'M',
+  scanDistanceCm: number = DEFAULT_SCAN_DISTANCE_CM
+): CapacityPlan {
+  const levels = ECL_ORDER.map(level => measureLevel(content, level));
+  const selected = levels.find(level => level.errorCorrectionLevel === errorCorrectionLevel)!;
+
+  return {
+    errorCorrectionLevel,
+    bytes: Buffer.byteLength(content, 'utf8'),
+    segments: describeSegments(content, errorCorrectionLevel, selected.version || 40),
+    levels,
+    selected,
+    physicalSize: selected.modules ? physicalSize(selected.modules, scanDistanceCm) : undefined,
+  };
+}
+
+/**
+ * Measure one level for plain content or explicit segments; content that
+ * does not fit reports how far over the version 40 limit it is
+ */
+export function measureLevel(content: string | QRSegment[], errorCorrectionLevel: ErrorCorrectionLevel): LevelCapacity {
+  try {
+    const { input, options } = encoderInput(content, errorCorrectionLevel);
+    const symbol = QRCode.create(input, options);
+    const usedBits = totalBits(symbol.segments.map(fromEncoderSegment), symbol.version);
+    const capacityBits = dataCapacityBits(symbol.version, errorCorrectionLevel);
+    return {
+      errorCorrectionLevel,
+      fits: true,
+      version: symbol.version,
+      modules: symbol.modules.size,
+      usedBits,
+      capacityBits,
+      remainingBytes: Math.floor((capacityBits - usedBits) / 8),
+    };
+  } catch {
+    const capacityBits = dataCapacityBits(40, errorCorrectionLevel);
+    const segments = typeof content === 'string' ? splitSegments(content, 40) : content;
+    return {
+      errorCorrectionLevel,
+      fits: false,
+      capacityBits,
+      overflowBits: Math.max(0, totalBits(segments, 40) - capacityBits),
+    };
+  }
+}
+
+/**
+ * Data capacity in bits of a version at a level
+ */
+export function dataCapacityBits(version: number, errorCorrectionLevel: ErrorCorrectionLevel): number {
+  return DATA_CODEWORDS[errorCorrectionLevel][version - 1] * 8;
+}
+
+/**
+ * Smallest symbol a phone camera reads from the given distance, never
+ * smaller than what a printer can reproduce
+ */
+export function physicalSize(modules: number, scanDistanceCm: number = DEFAULT_SCAN_DISTANCE_CM): PhysicalSize {
+  const moduleSizeMm = Math.max(MIN_PRINT_MODULE_MM, (scanDistanceCm * 10) / DISTANCE_PER_MODULE);
+  return {
+    scanDistanceCm,
+    moduleSizeMm: round(moduleSizeMm),
+    symbolSizeMm: round(modules * moduleSizeMm),
+    totalSizeMm: round((modules + QUIET_ZONE_MODULES * 2) * moduleSizeMm),
+  };
+}
+
+/**
+ * Segments as the encoder chooses them for the symbol; oversized content is
+ * split the way it would be at version 40
+ */
+function describeSegments(content: string, errorCorrectionLevel: ErrorCorrectionLevel, version: number): CapacitySegment[] {
+  let segments: QRSegment[];
+  try {
+    segments = QRCode.create(content, { errorCorrectionLevel, version }).segments.map(fromEncoderSegment);
+  } catch {
+    segments = splitSegments(content, 40);
+  }
+  return segments.map(segment => ({
+    mode: segment.mode,
+    length: segmentLength(segment),
+    bits: segmentBits(segment, version),
+  }));
+}
+
+function fromEncoderSegment(segment: GeneratedQRCodeSegment): QRSegment {
+  return {
+    mode: segment.mode.id.toLowerCase() as QRSegment['mode'],
+    data: typeof segment.data === 'string' ? segment.data : Buffer.from(segment.data).toString('utf8'),
+  };
+}
+
+function totalBits(segments: QRSegment[], version: number): number {
+  return segments.reduce((bits, segment) => bits + segmentBits(segment, version), 0);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
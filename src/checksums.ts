@@ -0,0 +1,90 @@
+// CRC-32 (ISO-HDLC, as used by PNG and zlib), reflected polynomial 0xedb88320
+const CRC32_TABLE = new Uint32Array(256);
+
+for (let n = 0; n < 256; n++) {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  CRC32_TABLE[n] = c >>> 0;
+}
+
+/**
+ * CRC-32 of a byte sequence; pass the previous result to continue a running
+ * checksum over several chunks
+ */
+export function crc32(bytes: Uint8Array, previous: number = 0): number {
+  let crc = (previous ^ 0xffffffff) >>> 0;
+  for (const byte of bytes) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * CRC-16/CCITT-FALSE (polynomial 0x1021, initial value 0xffff, no
+ * reflection), as used by EMVCo merchant-presented QR codes
+ */
+export function crc16ccitt(bytes: Uint8Array): number {
+  let crc = 0xffff;
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+/**
+ * ISO 7064 MOD 97-10 over an alphanumeric reference whose two check digits
+ * follow a two-letter prefix (IBAN country code, ISO 11649 `RF`): the
+ * prefix and check digits move to the end, letters become 10-35, and the
+ * resulting number must leave 1 when divided by 97.
+ */
+export function mod97Valid(reference: string): boolean {
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(reference)) return false;
+
+  let remainder = 0;
+  for (const char of reference.slice(4) + reference.slice(0, 4)) {
+    const value = parseInt(char, 36);
+    remainder = (value < 10 ? remainder * 10 + value : remainder * 100 + value) % 97;
+  }
+  return remainder === 1;
+}
+
+/**
+ * IBAN check digits (ISO 13616), spaces ignored
+ */
+export function isValidIBAN(iban: string): boolean {
+  const normalized = iban.replace(/\s+/g, '').toUpperCase();
+  return normalized.length >= 15 && normalized.length <= 34 && mod97Valid(normalized);
+}
+
+/**
+ * ISO 11649 structured creditor reference (`RF` + check digits + up to 21
+ * characters), spaces ignored
+ */
+export function isValidCreditorReference(reference: string): boolean {
+  const normalized = reference.replace(/\s+/g, '').toUpperCase();
+  return normalized.startsWith('RF') && normalized.length <= 25 && mod97Valid(normalized);
+}
+
+/**
+ * GS1 mod-10 check digit for the digits before it (GTIN, GLN, SSCC, ...):
+ * weights 3 and 1 alternate from the right
+ */
+export function gs1CheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    sum += Number(digits[digits.length - 1 - i]) * (i % 2 === 0 ? 3 : 1);
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Whether the last digit of a GS1 key is its mod-10 check digit
+ */
+export function gs1CheckDigitValid(key: string): boolean {
+  return /^\d{2,}$/.test(key) && gs1CheckDigit(key.slice(0, -1)) === Number(key[key.length - 1]);
+}
@@ -0,0 +1,161 @@
+import { measureLevel } from './capacity-planner.js';
+import { escapeText, joinContentLines, paramValue } from './content-lines.js';
+import { ErrorCorrectionLevel, QRValidationError, VCard } from './types.js';
+
+export interface ContactCard {
+  content: string;
+  /** Fields left out, to fit the symbol or because the format lacks them */
+  droppedFields: string[];
+}
+
+// Optional fields given up first when a card is too large, most expendable
+// first; the name and the single phone, e-mail and website always stay
+const TRIM_ORDER: Array<keyof VCard> = [
+  'photoUrl',
+  'note',
+  'social',
+  'websites',
+  'birthday',
+  'address',
+  'emails',
+  'phones',
+  'department',
+  'title',
+];
+
+/**
+ * Serialize a contact as a vCard or MECARD, leaving out optional fields in
+ * `TRIM_ORDER` until it fits a QR symbol at the error correction level
+ */
+export function fitContactCard(vcard: VCard, errorCorrectionLevel: ErrorCorrectionLevel): ContactCard {
+  const card = { ...vcard };
+  const droppedFields: string[] = [];
+  if (card.cardFormat === 'mecard') {
+    for (const field of ['photoUrl', 'social', 'department'] as const) {
+      if (card[field]) {
+        droppedFields.push(field);
+        delete card[field];
+      }
+    }
+  }
+
+  for (const field of [undefined, ...TRIM_ORDER]) {
+    if (field) {
+      if (card[field] === undefined) continue;
+      delete card[field];
+      droppedFields.push(field);
+    }
+    const content = buildContactCard(card);
+    if (measureLevel(content, errorCorrectionLevel).fits) {
+      return { content, droppedFields };
+    }
+  }
+
+  const content = buildContactCard(card);
+  throw new QRValidationError(
+    `Contact card is ${Buffer.byteLength(content, 'utf8')} bytes even without optional fields, ` +
+    `too large for a QR code at error correction level ${errorCorrectionLevel}`
+  );
+}
+
+export function buildContactCard(vcard: VCard): string {
+  return vcard.cardFormat === 'mecard' ? buildMECard(vcard) : buildVCard(vcard);
+}
+
+/**
+ * vCard 3.0 (RFC 2426) or 4.0 (RFC 6350): escaped values, CRLF line
+ * endings and folded long lines
+ */
+function buildVCard(vcard: VCard): string {
+  const v4 = vcard.version === '4.0';
+  const type = (value: string | undefined) => (value ? `;TYPE=${v4 ? value : value.toUpperCase()}` : '');
+
+  const lines = ['BEGIN:VCARD', `VERSION:${vcard.version}`];
+  const fullName = [vcard.prefix, vcard.firstName, vcard.middleName, vcard.lastName, vcard.suffix]
+    .filter(Boolean)
+    .join(' ');
+  lines.push(`FN:${escapeText(fullName)}`);
+  lines.push(`N:${compound([vcard.lastName, vcard.firstName, vcard.middleName, vcard.prefix, vcard.suffix])}`);
+
+  if (vcard.organization) {
+    lines.push(`ORG:${compound([vcard.organization, ...(vcard.department ? [vcard.department] : [])])}`);
+  }
+  if (vcard.title) lines.push(`TITLE:${escapeText(vcard.title)}`);
+
+  for (const phone of allPhones(vcard)) {
+    lines.push(v4
+      ? `TEL;VALUE=uri${type(phone.type)}:tel:${phone.number.replace(/\s+/g, '-')}`
+      : `TEL${type(phone.type)}:${escapeText(phone.number)}`);
+  }
+  for (const email of allEmails(vcard)) {
+    lines.push(`EMAIL${type(email.type)}:${escapeText(email.address)}`);
+  }
+  for (const url of allWebsites(vcard)) {
+    lines.push(`URL:${url}`);
+  }
+  for (const profile of vcard.social || []) {
+    // SOCIALPROFILE is RFC 9554; vCard 3.0 readers know the X- form
+    lines.push(v4
+      ? `SOCIALPROFILE;SERVICE-TYPE=${paramValue(profile.network)}:${profile.url}`
+      : `X-SOCIALPROFILE;TYPE=${paramValue(profile.network)}:${profile.url}`);
+  }
+
+  if (vcard.address) {
+    const address = vcard.address;
+    lines.push(
+      `ADR${type(address.type)}:` +
+      compound(['', '', address.street, address.city, address.state, address.zip, address.country])
+    );
+  }
+  if (vcard.birthday) lines.push(`BDAY:${v4 ? vcard.birthday.replace(/-/g, '') : vcard.birthday}`);
+  if (vcard.photoUrl) lines.push(v4 ? `PHOTO:${vcard.photoUrl}` : `PHOTO;VALUE=uri:${vcard.photoUrl}`);
+  if (vcard.note) lines.push(`NOTE:${escapeText(vcard.note)}`);
+  lines.push('END:VCARD');
+
+  return joinContentLines(lines);
+}
+
+/**
+ * `MECARD:N:Last,First;TEL:...;;` (NTT DoCoMo), with `\ ; , :` escaped
+ */
+function buildMECard(vcard: VCard): string {
+  const fields: string[] = [`N:${escapeMECard(vcard.lastName)},${escapeMECard(vcard.firstName)}`];
+  const add = (key: string, value: string | undefined) => {
+    if (value) fields.push(`${key}:${escapeMECard(value)}`);
+  };
+
+  add('ORG', vcard.organization);
+  add('TITLE', vcard.title);
+  allPhones(vcard).forEach(phone => add('TEL', phone.number));
+  allEmails(vcard).forEach(email => add('EMAIL', email.address));
+  allWebsites(vcard).forEach(url => add('URL', url));
+  if (vcard.address) {
+    const { street, city, state, zip, country } = vcard.address;
+    // PO box, extended address, street, city, region, postal code, country
+    fields.push(`ADR:${['', '', street, city, state, zip, country].map(part => escapeMECard(part || '')).join(',')}`);
+  }
+  add('BDAY', vcard.birthday?.replace(/-/g, ''));
+  add('NOTE', vcard.note);
+
+  return `MECARD:${fields.join(';')};;`;
+}
+
+function allPhones(vcard: VCard): Array<{ number: string; type?: string }> {
+  return [...(vcard.phone ? [{ number: vcard.phone }] : []), ...(vcard.phones || [])];
+}
+
+function allEmails(vcard: VCard): Array<{ address: string; type?: string }> {
+  return [...(vcard.email ? [{ address: vcard.email }] : []), ...(vcard.emails || [])];
+}
+
+function allWebsites(vcard: VCard): string[] {
+  return [...(vcard.website ? [vcard.website] : []), ...(vcard.websites || [])];
+}
+
+function compound(parts: Array<string | undefined>): string {
+  return parts.map(part => escapeText(part || '')).join(';');
+}
+
+function escapeMECard(value: string): string {
+  return value.replace(/([\\;,:])/g, '\\$1').replace(/\r\n|\r|\n/g, ' ');
+}
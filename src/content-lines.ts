@@ -0,0 +1,50 @@
+// vCard and iCalendar content lines are folded at 75 octets, continuation
+// lines start with a space
+const FOLD_OCTETS = 75;
+
+/**
+ * Escape a TEXT value (RFC 6350 / RFC 5545)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+// Parameter values with separators must be quoted; quotes cannot be escaped
+export function paramValue(value: string): string {
+  const cleaned = value.replace(/"/g, '');
+  return /[:;,]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+/**
+ * Fold content lines at 75 octets without splitting a UTF-8 sequence and
+ * join them with CRLF
+ */
+export function joinContentLines(lines: string[]): string {
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= FOLD_OCTETS) return line;
+
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines spend one octet on the leading space
+    const limit = chunks.length === 0 ? FOLD_OCTETS : FOLD_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
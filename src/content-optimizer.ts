@@ -0,0 +1,143 @@
+import { dataCapacityBits, LevelCapacity, measureLevel } from './capacity-planner.js';
+import { segmentBits, splitSegments } from './qr-segments.js';
+import type { ErrorCorrectionLevel, QRSegment } from './types.js';
+
+// Query parameters that only serve campaign and click tracking
+const TRACKING_PARAMETERS = [
+  /^utm_/i, /^fbclid$/i, /^gclid$/i, /^gclsrc$/i, /^dclid$/i, /^gbraid$/i, /^wbraid$/i, /^msclkid$/i,
+  /^mc_cid$/i, /^mc_eid$/i, /^igshid$/i, /^yclid$/i, /^twclid$/i, /^ttclid$/i, /^li_fat_id$/i,
+  /^_hsenc$/i, /^_hsmi$/i, /^mkt_tok$/i, /^_ga$/i, /^_gl$/i,
+];
+
+// First version of each band of character count field sizes
+const BAND_STARTS = [1, 10, 27];
+
+// Scheme, optional user info and host of a URL
+const URL_ORIGIN = /^(https?:\/\/)([^/?#@]*@)?([^/?#@]+)/i;
+
+const LONG_URL_LENGTH = 100;
+
+export interface OptimizeOptions {
+  errorCorrectionLevel?: ErrorCorrectionLevel;
+  /** Remove utm_* and click identifier parameters from URLs */
+  stripTracking?: boolean;
+}
+
+export interface ContentOptimization {
+  original: string;
+  optimized: string;
+  /** Rewrites applied to the content */
+  changes: string[];
+  suggestions: string[];
+  /** Segments that encode the optimized content in the fewest bits */
+  segments: QRSegment[];
+  before: LevelCapacity;
+  after: LevelCapacity;
+}
+
+/**
+ * Rewrite content so it encodes into the smallest symbol and choose the
+ * segments to encode it with. Rewrites never change what the content
+ * means: URL schemes and hosts are case-insensitive, and tracking
+ * parameters are only removed on request.
+ */
+export function optimizeContent(content: string, options: OptimizeOptions = {}): ContentOptimization {
+  const level = options.errorCorrectionLevel || 'M';
+  const changes: string[] = [];
+  const suggestions: string[] = [];
+  let optimized = content;
+
+  const trimmed = optimized.trim();
+  if (trimmed !== optimized) {
+    optimized = trimmed;
+    changes.push('Removed leading/trailing whitespace');
+  }
+
+  if (/^http:\/\//i.test(optimized)) {
+    optimized = optimized.replace(/^http:\/\//i, 'https://');
+    changes.push('Upgraded HTTP to HTTPS');
+  }
+
+  if (options.stripTracking && URL_ORIGIN.test(optimized)) {
+    const stripped = stripTrackingParameters(optimized);
+    if (stripped.removed.length > 0) {
+      optimized = stripped.url;
+      changes.push(`Removed tracking parameters: ${stripped.removed.join(', ')}`);
+    }
+  }
+
+  // An uppercase origin joins the alphanumeric segments around it, which
+  // only pays off when the rest of the URL is alphanumeric-friendly too
+  const uppercased = uppercaseOrigin(optimized);
+  if (uppercased !== optimized && planSegments(uppercased, level).bits < planSegments(optimized, level).bits) {
+    optimized = uppercased;
+    changes.push('Uppercased URL scheme and host to fit alphanumeric mode');
+  }
+
+  const { segments } = planSegments(optimized, level);
+  const before = measureLevel(content, level);
+  const after = measureLevel(segments, level);
+
+  if (/^https?:\/\//i.test(optimized) && optimized.length > LONG_URL_LENGTH) {
+    suggestions.push('Consider using a URL shortener for long URLs');
+  }
+  if (!options.stripTracking && URL_ORIGIN.test(optimized) && stripTrackingParameters(optimized).removed.length > 0) {
+    suggestions.push('The URL carries tracking parameters; set stripTracking to remove them');
+  }
+
+  return { original: content, optimized, changes, suggestions, segments, before, after };
+}
+
+/**
+ * Split content for the smallest version it fits: the split depends on the
+ * size of the count fields, so each band of versions is tried in turn
+ */
+export function planSegments(content: string, errorCorrectionLevel: ErrorCorrectionLevel): { segments: QRSegment[]; bits: number } {
+  let best: { segments: QRSegment[]; bits: number } | undefined;
+
+  for (const [band, first] of BAND_STARTS.entries()) {
+    const last = (BAND_STARTS[band + 1] || 41) - 1;
+    const segments = splitSegments(content, first);
+    const bits = segments.reduce((total, segment) => total + segmentBits(segment, first), 0);
+    best = { segments, bits };
+    if (bits <= dataCapacityBits(last, errorCorrectionLevel)) break;
+  }
+
+  return best!;
+}
+
+function uppercaseOrigin(content: string): string {
+  const origin = content.match(URL_ORIGIN);
+  // Hosts outside ASCII would need IDNA mapping to compare equal
+  if (!origin || /[^\x20-\x7e]/.test(origin[3])) return content;
+  // User info is case-sensitive and stays as written
+  return origin[1].toUpperCase() + (origin[2] || '') + origin[3].toUpperCase() + content.slice(origin[0].length);
+}
+
+function stripTrackingParameters(url: string): { url: string; removed: string[] } {
+  const match = url.match(/^([^?#]*)\?([^#]*)(#.*)?$/);
+  if (!match) return { url, removed: [] };
+
+  const removed: string[] = [];
+  const kept = match[2].split('&').filter(parameter => {
+    const name = decodeParameterName(parameter.split('=')[0]);
+    if (TRACKING_PARAMETERS.some(pattern => pattern.test(name))) {
+      removed.push(name);
+      return false;
+    }
+    return true;
+  });
+
+  return {
+    url: match[1] + (kept.length > 0 ? `?${kept.join('&')}` : '') + (match[3] || ''),
+    removed,
+  };
+}
+
+function decodeParameterName(name: string): string {
+  try {
+    return decodeURIComponent(name.replace(/\+/g, ' '));
+  } catch {
+    return name;
+  }
+}
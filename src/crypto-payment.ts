@@ -0,0 +1,405 @@
+import { createHash } from 'crypto';
+import {
+  BitcoinPayment,
+  CryptoPayment,
+  EthereumPayment,
+  ParsedPayload,
+  QRValidationError,
+} from './types.js';
+
+type CryptoPayload = Extract<ParsedPayload, { type: 'crypto' }>;
+
+type BitcoinNetwork = 'mainnet' | 'testnet' | 'regtest';
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+// Polymod residues of the two checksum variants (BIP 173 and BIP 350)
+const BECH32_CONSTANT = 1;
+const BECH32M_CONSTANT = 0x2bc830a3;
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// Base58Check version bytes of pay-to-pubkey-hash and pay-to-script-hash
+// addresses
+const BASE58_VERSIONS: Record<number, BitcoinNetwork> = {
+  0x00: 'mainnet',
+  0x05: 'mainnet',
+  0x6f: 'testnet',
+  0xc4: 'testnet',
+};
+
+const SEGWIT_PREFIXES: Record<string, BitcoinNetwork> = {
+  bc: 'mainnet',
+  tb: 'testnet',
+  bcrt: 'regtest',
+};
+
+const SATOSHI_DECIMALS = 8;
+
+/**
+ * Build a payment URI, after checking the address checksums: BIP 21
+ * `bitcoin:` URIs with an optional BOLT 11 lightning invoice, or EIP-681
+ * `ethereum:` URIs for ether and ERC-20 token transfers
+ */
+export function buildCryptoPaymentURI(payment: CryptoPayment): string {
+  return payment.scheme === 'bitcoin' ? buildBitcoinURI(payment) : buildEthereumURI(payment);
+}
+
+/**
+ * Recognise `bitcoin:` and `ethereum:` payment URIs. Addresses that fail
+ * their checksum are still returned, flagged with `addressValid: false`.
+ */
+export function parseCryptoPaymentURI(content: string): CryptoPayload | undefined {
+  if (/^bitcoin:/i.test(content)) return parseBitcoinURI(content);
+  if (/^ethereum:/i.test(content)) return parseEthereumURI(content);
+  return undefined;
+}
+
+function buildBitcoinURI(payment: BitcoinPayment): string {
+  const network = bitcoinAddressNetwork(payment.address);
+  if (!network) {
+    throw new QRValidationError(`Not a valid Bitcoin address (Base58Check or bech32 checksum mismatch): ${payment.address}`);
+  }
+
+  const params: string[] = [];
+  if (payment.amount !== undefined) {
+    const amount = payment.amount.toFixed(SATOSHI_DECIMALS);
+    if (Math.abs(Number(amount) - payment.amount) > 1e-12) {
+      throw new QRValidationError(`Amount ${payment.amount} BTC is finer than one satoshi`);
+    }
+    params.push(`amount=${amount.replace(/\.?0+$/, '')}`);
+  }
+  if (payment.label) params.push(`label=${encodeURIComponent(payment.label)}`);
+  if (payment.message) params.push(`message=${encodeURIComponent(payment.message)}`);
+  if (payment.lightning) {
+    const invoiceNetwork = lightningInvoiceNetwork(payment.lightning);
+    if (!invoiceNetwork) {
+      throw new QRValidationError('Lightning invoice is not a valid BOLT 11 invoice (bech32 checksum mismatch)');
+    }
+    if ((invoiceNetwork === 'mainnet') !== (network === 'mainnet')) {
+      throw new QRValidationError(`Lightning invoice is for ${invoiceNetwork} but the address is for ${network}`);
+    }
+    params.push(`lightning=${payment.lightning}`);
+  }
+
+  return `bitcoin:${payment.address}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+}
+
+function buildEthereumURI(payment: EthereumPayment): string {
+  const recipient = checksumAddress(payment.address, 'Recipient');
+  const chain = payment.chainId !== undefined ? `@${payment.chainId}` : '';
+  const gas = payment.gasLimit ? `&gasLimit=${payment.gasLimit}` : '';
+
+  if (payment.token) {
+    const contract = checksumAddress(payment.token.contract, 'Token contract');
+    return `ethereum:${contract}${chain}/transfer?address=${recipient}&uint256=${payment.token.amount}${gas}`;
+  }
+
+  const params = [payment.value ? `value=${payment.value}` : '', gas.slice(1)].filter(Boolean);
+  return `ethereum:${recipient}${chain}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+}
+
+function parseBitcoinURI(content: string): CryptoPayload | undefined {
+  const match = content.match(/^bitcoin:([^?]*)(?:\?(.*))?$/is);
+  if (!match) return undefined;
+
+  const fields: BitcoinPayment = { scheme: 'bitcoin', address: match[1] };
+  for (const [key, value] of queryParams(match[2])) {
+    switch (key.toLowerCase()) {
+      case 'amount':
+        if (/^\d+(\.\d+)?$/.test(value)) fields.amount = Number(value);
+        break;
+      case 'label':
+        fields.label = value;
+        break;
+      case 'message':
+        fields.message = value;
+        break;
+      case 'lightning':
+        fields.lightning = value;
+        break;
+    }
+  }
+
+  const addressValid = bitcoinAddressNetwork(fields.address) !== undefined &&
+    (!fields.lightning || lightningInvoiceNetwork(fields.lightning) !== undefined);
+  return { type: 'crypto', fields, addressValid };
+}
+
+/**
+ * `ethereum:[pay-]<address>[@chainId][/function][?params]`
+ */
+function parseEthereumURI(content: string): CryptoPayload | undefined {
+  const match = content.match(/^ethereum:(?:pay-)?([^@/?]+)(?:@(\d+))?(?:\/([^?]+))?(?:\?(.*))?$/is);
+  if (!match) return undefined;
+
+  const [, target, chainId, functionName, query] = match;
+  const params = new Map(queryParams(query));
+  const fields: EthereumPayment = { scheme: 'ethereum', address: target };
+  if (chainId) fields.chainId = Number(chainId);
+
+  if (functionName === 'transfer') {
+    fields.address = params.get('address') || '';
+    fields.token = { contract: target, amount: parseIntegerValue(params.get('uint256')) || '0' };
+  } else if (functionName) {
+    // Other contract calls have no fields of their own
+    return undefined;
+  }
+
+  const value = parseIntegerValue(params.get('value'));
+  if (value) fields.value = value;
+  const gasLimit = parseIntegerValue(params.get('gasLimit') || params.get('gas'));
+  if (gasLimit) fields.gasLimit = gasLimit;
+
+  const addressValid = isValidEthereumAddress(fields.address) &&
+    (!fields.token || isValidEthereumAddress(fields.token.contract));
+  return { type: 'crypto', fields, addressValid };
+}
+
+function queryParams(query: string | undefined): Array<[string, string]> {
+  return Array.from(new URLSearchParams((query || '').replace(/\+/g, '%2B')));
+}
+
+/**
+ * EIP-681 numbers may use an exponent (`2.014e18`); returns the integer
+ * as decimal digits, or undefined when it is not a whole number
+ */
+function parseIntegerValue(text: string | undefined): string | undefined {
+  const match = text?.match(/^(\d+)(?:\.(\d+))?(?:e(\d+))?$/i);
+  if (!match) return undefined;
+
+  const [, whole, fraction = '', exponent = '0'] = match;
+  const shift = Number(exponent) - fraction.length;
+  if (shift < 0) {
+    if (!/^0*$/.test(fraction.slice(fraction.length + shift))) return undefined;
+    return BigInt(whole + fraction.slice(0, fraction.length + shift)).toString();
+  }
+  return (BigInt(whole + fraction) * 10n ** BigInt(shift)).toString();
+}
+
+// Addresses
+
+/**
+ * Network of a Base58Check (P2PKH, P2SH) or bech32/bech32m (SegWit,
+ * Taproot) address, or undefined when its checksum or structure is wrong
+ */
+function bitcoinAddressNetwork(address: string): BitcoinNetwork | undefined {
+  const decoded = decodeBech32(address);
+  if (decoded && SEGWIT_PREFIXES[decoded.prefix]) {
+    const [version, ...words] = decoded.words;
+    const program = convertBits(words, 5, 8, false);
+    if (version === undefined || version > 16 || !program || program.length < 2 || program.length > 40) {
+      return undefined;
+    }
+    // Version 0 programs are 20 or 32 bytes and use bech32; later versions bech32m
+    if (version === 0 && (decoded.encoding !== 'bech32' || (program.length !== 20 && program.length !== 32))) {
+      return undefined;
+    }
+    if (version > 0 && decoded.encoding !== 'bech32m') return undefined;
+    return SEGWIT_PREFIXES[decoded.prefix];
+  }
+
+  const bytes = decodeBase58(address);
+  if (!bytes || bytes.length !== 25) return undefined;
+  const checksum = sha256(sha256(bytes.subarray(0, 21))).subarray(0, 4);
+  if (!checksum.every((byte, index) => byte === bytes[21 + index])) return undefined;
+  return BASE58_VERSIONS[bytes[0]];
+}
+
+/**
+ * Network of a BOLT 11 invoice (`lnbc...`, `lntb...`, `lnbcrt...`), which
+ * is bech32 without the 90 character limit
+ */
+function lightningInvoiceNetwork(invoice: string): BitcoinNetwork | undefined {
+  const decoded = decodeBech32(invoice, Infinity);
+  if (!decoded || decoded.encoding !== 'bech32') return undefined;
+  if (decoded.prefix.startsWith('lnbcrt')) return 'regtest';
+  if (decoded.prefix.startsWith('lnbc')) return 'mainnet';
+  if (decoded.prefix.startsWith('lntb')) return 'testnet';
+  return undefined;
+}
+
+function isValidEthereumAddress(address: string): boolean {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) return false;
+  const hex = address.slice(2);
+  // Single-case addresses carry no checksum
+  return hex === hex.toLowerCase() || hex === hex.toUpperCase() || toChecksumAddress(address) === address;
+}
+
+/**
+ * EIP-55 form of a valid address; mixed-case input must already match it
+ */
+function checksumAddress(address: string, label: string): string {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    throw new QRValidationError(`${label} must be 0x followed by 40 hex digits: ${address}`);
+  }
+  if (!isValidEthereumAddress(address)) {
+    throw new QRValidationError(`${label} fails its EIP-55 checksum: ${address}`);
+  }
+  return toChecksumAddress(address);
+}
+
+/**
+ * EIP-55: a hex letter is upper case when the matching nibble of the
+ * Keccak-256 hash of the lower-case address is 8 or more
+ */
+function toChecksumAddress(address: string): string {
+  const hex = address.slice(2).toLowerCase();
+  const hash = keccak256(new TextEncoder().encode(hex));
+  return '0x' + Array.from(hex, (char, index) => {
+    const nibble = (hash[index >> 1] >> (index % 2 === 0 ? 4 : 0)) & 0x0f;
+    return nibble >= 8 ? char.toUpperCase() : char;
+  }).join('');
+}
+
+// Encodings
+
+function decodeBech32(
+  text: string,
+  limit: number = 90
+): { prefix: string; words: number[]; encoding: 'bech32' | 'bech32m' } | undefined {
+  if (text.length > limit || (text !== text.toLowerCase() && text !== text.toUpperCase())) return undefined;
+  const lower = text.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > lower.length) return undefined;
+
+  const prefix = lower.slice(0, separator);
+  const data = Array.from(lower.slice(separator + 1), char => BECH32_CHARSET.indexOf(char));
+  if (data.includes(-1)) return undefined;
+
+  const expanded = [
+    ...Array.from(prefix, char => char.charCodeAt(0) >> 5),
+    0,
+    ...Array.from(prefix, char => char.charCodeAt(0) & 31),
+  ];
+  const residue = bech32Polymod([...expanded, ...data]);
+  const encoding = residue === BECH32_CONSTANT ? 'bech32' : residue === BECH32M_CONSTANT ? 'bech32m' : undefined;
+  return encoding ? { prefix, words: data.slice(0, -6), encoding } : undefined;
+}
+
+function bech32Polymod(values: number[]): number {
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    BECH32_GENERATOR.forEach((generator, bit) => {
+      if ((top >> bit) & 1) checksum ^= generator;
+    });
+  }
+  return checksum >>> 0;
+}
+
+/**
+ * Regroup bits, e.g. 5-bit bech32 words into bytes; without padding,
+ * leftover bits must be zero and fewer than `from`
+ */
+function convertBits(data: number[], from: number, to: number, pad: boolean): number[] | undefined {
+  let accumulator = 0;
+  let bits = 0;
+  const result: number[] = [];
+  for (const value of data) {
+    accumulator = (accumulator << from) | value;
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      result.push((accumulator >> bits) & ((1 << to) - 1));
+    }
+  }
+  if (pad && bits > 0) result.push((accumulator << (to - bits)) & ((1 << to) - 1));
+  else if (!pad && (bits >= from || ((accumulator << (to - bits)) & ((1 << to) - 1)) !== 0)) return undefined;
+  return result;
+}
+
+function decodeBase58(text: string): Uint8Array | undefined {
+  let value = 0n;
+  for (const char of text) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) return undefined;
+    value = value * 58n + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  for (; value > 0n; value >>= 8n) bytes.unshift(Number(value & 0xffn));
+  // Each leading '1' stands for a zero byte
+  const zeros = text.length - text.replace(/^1+/, '').length;
+  return Uint8Array.from([...new Array(zeros).fill(0), ...bytes]);
+}
+
+function sha256(bytes: Uint8Array): Uint8Array {
+  return createHash('sha256').update(bytes).digest();
+}
+
+// Keccak-256 as used by Ethereum (original Keccak padding, not SHA3-256)
+const KECCAK_ROUND_CONSTANTS = [
+  0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+  0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+  0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+  0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+  0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+  0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n,
+];
+// Rotation of each lane in the order the combined rho and pi steps visit them
+const KECCAK_ROTATIONS = [1, 3, 6, 10, 15, 21, 28, 36, 45, 55, 2, 14, 27, 41, 56, 8, 25, 43, 62, 18, 39, 61, 20, 44];
+const KECCAK_PI_LANES = [10, 7, 11, 17, 18, 3, 5, 16, 8, 21, 24, 4, 15, 23, 19, 13, 12, 2, 20, 14, 22, 9, 6, 1];
+const LANE_MASK = (1n << 64n) - 1n;
+const KECCAK_RATE = 136;
+
+function keccak256(input: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(Math.ceil((input.length + 1) / KECCAK_RATE) * KECCAK_RATE);
+  padded.set(input);
+  padded[input.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state = new Array<bigint>(25).fill(0n);
+  for (let offset = 0; offset < padded.length; offset += KECCAK_RATE) {
+    for (let lane = 0; lane < KECCAK_RATE / 8; lane++) {
+      state[lane] ^= readLane(padded, offset + lane * 8);
+    }
+    keccakPermute(state);
+  }
+
+  const output = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    output[i] = Number((state[i >> 3] >> BigInt((i & 7) * 8)) & 0xffn);
+  }
+  return output;
+}
+
+function keccakPermute(state: bigint[]): void {
+  const rotate = (value: bigint, shift: number) =>
+    ((value << BigInt(shift)) | (value >> BigInt(64 - shift))) & LANE_MASK;
+
+  for (const roundConstant of KECCAK_ROUND_CONSTANTS) {
+    // Theta
+    const columns = [0, 1, 2, 3, 4].map(x => state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20]);
+    for (let x = 0; x < 5; x++) {
+      const parity = columns[(x + 4) % 5] ^ rotate(columns[(x + 1) % 5], 1);
+      for (let y = 0; y < 25; y += 5) state[y + x] ^= parity;
+    }
+
+    // Rho and pi
+    let current = state[1];
+    KECCAK_PI_LANES.forEach((lane, index) => {
+      const next = state[lane];
+      state[lane] = rotate(current, KECCAK_ROTATIONS[index]);
+      current = next;
+    });
+
+    // Chi
+    for (let y = 0; y < 25; y += 5) {
+      const row = state.slice(y, y + 5);
+      for (let x = 0; x < 5; x++) {
+        state[y + x] = row[x] ^ (~row[(x + 1) % 5] & LANE_MASK & row[(x + 2) % 5]);
+      }
+    }
+
+    // Iota
+    state[0] ^= roundConstant;
+  }
+}
+
+function readLane(bytes: Uint8Array, offset: number): bigint {
+  let lane = 0n;
+  for (let i = 7; i >= 0; i--) lane = (lane << 8n) | BigInt(bytes[offset + i]);
+  return lane;
+}
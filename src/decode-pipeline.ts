@@ -0,0 +1,364 @@
+import sharp from 'sharp';
+import fs from 'fs-extra';
+import { isAPNG, readAPNGFrames } from './animated-image.js';
+import { decodeAll, decodeSingle } from './qr-decoder.js';
+import { assembleStructuredAppend } from './structured-append.js';
+import { readSymbols } from './symbol-reader.js';
+import { DecodedQRCode, QRPoint, QRValidationError } from './types.js';
+
+export type DecodeMode = 'single' | 'all';
+
+export interface RGBAImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/**
+ * Path of an image file on the server, or the image bytes
+ */
+export type ImageInput = string | Buffer;
+
+export interface DecodeOutcome {
+  codes: DecodedQRCode[];
+  /** Name of the pass that found the (first) codes */
+  pass?: string;
+  /** Every pass that was run, in order */
+  attempted: string[];
+  /** Frames or pages in the image */
+  frames: number;
+  /** Scanning stopped at the time budget before every pass and frame ran */
+  timedOut?: boolean;
+}
+
+export interface DecodeOptions {
+  /** In mode 'single', read one code from every frame instead of stopping at the first */
+  everyFrame?: boolean;
+}
+
+interface PreparedPass {
+  name: string;
+  image: RGBAImage;
+  /** Map a point in the pass image back to the source image */
+  toSource: (point: QRPoint) => QRPoint;
+}
+
+// Working resolution the preprocessing passes aim for: camera images are
+// brought down to keep them fast, thumbnails are brought up so that each
+// module spans several pixels.
+const MAX_WORKING_SIDE = 1200;
+const MIN_WORKING_SIDE = 400;
+
+// Window (as a share of the shorter side) and offset of the adaptive threshold
+const THRESHOLD_WINDOW = 1 / 8;
+const THRESHOLD_OFFSET = 0.15;
+
+const ROTATION_ANGLE = 45;
+
+// SVG input is rasterised so its longer side is about this many pixels
+const SVG_RASTER_SIDE = 1000;
+const MAX_SVG_DENSITY = 2400;
+
+// Time budget for one image, shared by every frame and pass (and by tile
+// scanning in mode 'all')
+const DECODE_BUDGET_MS = 20000;
+
+/**
+ * Decode an image by running it through progressively heavier preprocessing
+ * passes until one of them yields a symbol:
+ *
+ * 1. `original` - the pixels as loaded (both polarities)
+ * 2. `downscaled` / `upscaled` - resized towards a workable resolution
+ * 3. `normalized` - grayscale with the histogram stretched to full contrast
+ * 4. `adaptive-threshold` - binarised against the local mean
+ * 5. `sharpened` - unsharp mask for soft or out-of-focus photos
+ * 6. `rotated` - turned 45° for skewed scans
+ *
+ * Every frame of an animated GIF/WebP/PNG or page of a multi-page TIFF is
+ * scanned: in mode 'single' until one decodes (or one code per frame with
+ * `everyFrame`), in mode 'all' completely. Scanning stops with `timedOut`
+ * once the time budget is spent.
+ * Locations are always reported in the coordinates of the input image.
+ */
+export async function decodeImage(
+  input: ImageInput,
+  mode: DecodeMode = 'single',
+  options: DecodeOptions = {}
+): Promise<DecodeOutcome> {
+  const metadata = await sharp(input).metadata();
+  const animation = metadata.format === 'png' ? await loadAPNGFrames(input) : undefined;
+  const frames = animation ? animation.length : metadata.pages || 1;
+  const deadline = Date.now() + DECODE_BUDGET_MS;
+  const outcome: DecodeOutcome = { codes: [], attempted: [], frames };
+
+  for (let frame = 0; frame < frames; frame++) {
+    if (Date.now() > deadline) {
+      outcome.timedOut = true;
+      break;
+    }
+    const source = animation ? animation[frame] : await loadFrame(input, frame, metadata);
+    // jsQR misreads Structured Append symbols, so those read module by
+    // module (once per frame) take the place of whatever it made of them
+    const linked = readLinkedSymbols(source, deadline);
+
+    for await (const pass of preparePasses(source)) {
+      if (Date.now() > deadline) {
+        outcome.timedOut = true;
+        break;
+      }
+      if (!outcome.attempted.includes(pass.name)) outcome.attempted.push(pass.name);
+      const { data, width, height } = pass.image;
+      const decoded = mode === 'all'
+        ? decodeAll(data, width, height, deadline)
+        : [decodeSingle(data, width, height)].filter((code): code is DecodedQRCode => code !== null);
+      // Tile scanning gives up silently when the budget runs out
+      if (mode === 'all' && Date.now() > deadline) outcome.timedOut = true;
+
+      const located = decoded.map(code => mapLocation(code, pass.toSource));
+      const codes = [...located.filter(code => !linked.some(symbol => overlaps(symbol, code))), ...linked];
+
+      if (codes.length > 0) {
+        outcome.pass = outcome.pass || pass.name;
+        outcome.codes.push(...codes.map(code => ({
+          ...code,
+          ...(frames > 1 ? { frame } : {}),
+        })));
+        break;
+      }
+    }
+
+    // Later frames may hold the rest of a Structured Append set
+    const incomplete = assembleStructuredAppend(outcome.codes).some(set => !set.complete);
+    if (mode === 'single' && outcome.codes.length > 0 && !incomplete && !options.everyFrame) break;
+  }
+
+  return outcome;
+}
+
+/**
+ * Load one frame of the input as RGBA pixels, in the coordinates that
+ * decoded locations refer to
+ */
+export async function loadFrame(input: ImageInput, frame: number = 0, metadata?: sharp.Metadata): Promise<RGBAImage> {
+  // Respect EXIF orientation so camera photos are read the right way up, and
+  // put transparent codes on white (jsQR ignores the alpha channel)
+  return toRGBA(
+    openImage(input, metadata || await sharp(input).metadata(), frame)
+      .rotate()
+      .flatten({ background: '#ffffff' })
+  );
+}
+
+/**
+ * Frames of an animated PNG, which sharp reads as a still image
+ */
+async function loadAPNGFrames(input: ImageInput): Promise<RGBAImage[] | undefined> {
+  const bytes = typeof input === 'string' ? await fs.readFile(input) : input;
+  return isAPNG(bytes) ? readAPNGFrames(bytes) : undefined;
+}
+
+/**
+ * Turn an `imageData` argument (plain base64 or a `data:` URL, base64 or
+ * percent-encoded) into image bytes
+ */
+export function parseImageData(imageData: string): Buffer {
+  const dataUrl = imageData.match(/^data:([^,]*?),(.*)$/s);
+  const bytes = !dataUrl
+    ? Buffer.from(imageData.replace(/\s+/g, ''), 'base64')
+    : dataUrl[1].endsWith(';base64')
+      ? Buffer.from(dataUrl[2].replace(/\s+/g, ''), 'base64')
+      : Buffer.from(decodeURIComponent(dataUrl[2]), 'utf8');
+
+  if (bytes.length === 0) {
+    throw new QRValidationError('imageData does not contain any image bytes');
+  }
+  return bytes;
+}
+
+/**
+ * Open one frame of the input. Vector (SVG) input is rasterised at a
+ * density that gives the decoder enough pixels per module.
+ */
+function openImage(input: ImageInput, metadata: sharp.Metadata, page: number): sharp.Sharp {
+  const options: sharp.SharpOptions = { page };
+  if (metadata.format === 'svg') {
+    const longest = Math.max(metadata.width || 0, metadata.height || 0) || SVG_RASTER_SIDE;
+    options.density = Math.min(MAX_SVG_DENSITY, Math.max(72, (72 * SVG_RASTER_SIDE) / longest));
+  }
+  return sharp(input, options);
+}
+
+async function* preparePasses(source: RGBAImage): AsyncGenerator<PreparedPass> {
+  const identity = (point: QRPoint) => point;
+  yield { name: 'original', image: source, toSource: identity };
+
+  const longest = Math.max(source.width, source.height);
+  const shortest = Math.min(source.width, source.height);
+  const scale = longest > MAX_WORKING_SIDE
+    ? MAX_WORKING_SIDE / longest
+    : shortest < MIN_WORKING_SIDE
+      ? Math.min(MIN_WORKING_SIDE / shortest, MAX_WORKING_SIDE / longest)
+      : 1;
+
+  let working = source;
+  let toSource = identity;
+  if (scale !== 1) {
+    working = await toRGBA(
+      fromRGBA(source).resize(Math.round(source.width * scale), Math.round(source.height * scale), {
+        kernel: scale > 1 ? 'nearest' : 'lanczos3',
+      })
+    );
+    const sx = source.width / working.width;
+    const sy = source.height / working.height;
+    toSource = point => ({ x: point.x * sx, y: point.y * sy });
+    yield { name: scale > 1 ? 'upscaled' : 'downscaled', image: working, toSource };
+  }
+
+  const normalized = await toRGBA(fromRGBA(working).removeAlpha().greyscale().normalise());
+  yield { name: 'normalized', image: normalized, toSource };
+
+  yield { name: 'adaptive-threshold', image: adaptiveThreshold(normalized), toSource };
+
+  const sharpened = await toRGBA(fromRGBA(normalized).sharpen({ sigma: 2 }));
+  yield { name: 'sharpened', image: sharpened, toSource };
+
+  const rotated = await toRGBA(
+    fromRGBA(normalized).rotate(ROTATION_ANGLE, { background: '#ffffff' })
+  );
+  yield {
+    name: 'rotated',
+    image: rotated,
+    toSource: point => toSource(unrotate(point, rotated, normalized, ROTATION_ANGLE)),
+  };
+}
+
+/**
+ * Binarise against the mean of a window around each pixel (Bradley's
+ * method), which copes with shadows and uneven lighting across the code.
+ */
+function adaptiveThreshold(image: RGBAImage): RGBAImage {
+  const { data, width, height } = image;
+  const half = Math.max(7, Math.floor((Math.min(width, height) * THRESHOLD_WINDOW) / 2));
+
+  // Integral image of the (grayscale) red channel
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += data[(y * width + x) * 4];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const out = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+        - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+      const mean = sum / ((x1 - x0) * (y1 - y0));
+      const offset = (y * width + x) * 4;
+      const value = data[offset] < mean * (1 - THRESHOLD_OFFSET) ? 0 : 255;
+      out[offset] = out[offset + 1] = out[offset + 2] = value;
+      out[offset + 3] = 255;
+    }
+  }
+
+  return { data: out, width, height };
+}
+
+/**
+ * Undo a clockwise rotation by `angle` degrees that expanded `from` onto
+ * the canvas of `rotated`
+ */
+function unrotate(point: QRPoint, rotated: RGBAImage, from: RGBAImage, angle: number): QRPoint {
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const dx = point.x - rotated.width / 2;
+  const dy = point.y - rotated.height / 2;
+  return {
+    x: dx * cos + dy * sin + from.width / 2,
+    y: -dx * sin + dy * cos + from.height / 2,
+  };
+}
+
+/**
+ * Structured Append symbols in the image, with the parity of their own data
+ */
+function readLinkedSymbols(image: RGBAImage, deadline: number): DecodedQRCode[] {
+  return readSymbols(image, deadline)
+    .filter(symbol => symbol.data.structuredAppend)
+    .map(symbol => ({
+      content: symbol.data.text,
+      version: symbol.version,
+      errorCorrectionLevel: symbol.errorCorrectionLevel,
+      maskPattern: symbol.maskPattern,
+      modules: 17 + symbol.version * 4,
+      location: symbol.location,
+      structuredAppend: {
+        ...symbol.data.structuredAppend!,
+        dataParity: symbol.data.bytes.reduce((value, byte) => value ^ byte, 0),
+      },
+    }));
+}
+
+/**
+ * Whether two decodes are centred within half a symbol of each other
+ */
+function overlaps(a: DecodedQRCode, b: DecodedQRCode): boolean {
+  const centre = (code: DecodedQRCode) => ({
+    x: (code.location.topLeftCorner.x + code.location.bottomRightCorner.x) / 2,
+    y: (code.location.topLeftCorner.y + code.location.bottomRightCorner.y) / 2,
+  });
+  const span = Math.hypot(
+    a.location.topRightCorner.x - a.location.topLeftCorner.x,
+    a.location.topRightCorner.y - a.location.topLeftCorner.y
+  );
+  return Math.hypot(centre(a).x - centre(b).x, centre(a).y - centre(b).y) < span / 2;
+}
+
+function mapLocation(code: DecodedQRCode, toSource: (point: QRPoint) => QRPoint): DecodedQRCode {
+  const { topLeftCorner, topRightCorner, bottomRightCorner, bottomLeftCorner } = code.location;
+  return {
+    ...code,
+    location: {
+      topLeftCorner: toSource(topLeftCorner),
+      topRightCorner: toSource(topRightCorner),
+      bottomRightCorner: toSource(bottomRightCorner),
+      bottomLeftCorner: toSource(bottomLeftCorner),
+    },
+  };
+}
+
+function fromRGBA(image: RGBAImage): sharp.Sharp {
+  return sharp(Buffer.from(image.data.buffer, image.data.byteOffset, image.data.byteLength), {
+    raw: { width: image.width, height: image.height, channels: 4 },
+  });
+}
+
+/**
+ * Render a sharp pipeline to RGBA pixels; grayscale output is expanded
+ * since jsQR expects four channels.
+ */
+async function toRGBA(pipeline: sharp.Sharp): Promise<RGBAImage> {
+  const { data, info } = await pipeline.raw().toBuffer({ resolveWithObject: true });
+  const { width, height, channels } = info;
+
+  if (channels === 4) {
+    return { data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.byteLength), width, height };
+  }
+
+  const out = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0, j = 0; i < out.length; i += 4, j += channels) {
+    const color = channels >= 3;
+    out[i] = data[j];
+    out[i + 1] = color ? data[j + 1] : data[j];
+    out[i + 2] = color ? data[j + 2] : data[j];
+    out[i + 3] = channels === 2 ? data[j + 1] : 255;
+  }
+  return { data: out, width, height };
+}
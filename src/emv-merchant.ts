@@ -0,0 +1,394 @@
+import { crc16ccitt } from './checksums.js';
+import { EMVDataObject, EMVMerchant, ParsedPayload, QRValidationError } from './types.js';
+
+type EMVPayload = Extract<ParsedPayload, { type: 'emv' }>;
+
+// The whole payload, CRC included, is at most 512 characters
+const MAX_PAYLOAD_LENGTH = 512;
+
+/**
+ * ISO 4217 alphabetic code to numeric code and minor units, for the
+ * currencies of the schemes that use the format
+ */
+const CURRENCIES: Record<string, [string, number]> = {
+  AUD: ['036', 2],
+  BDT: ['050', 2],
+  BRL: ['986', 2],
+  CLP: ['152', 0],
+  CNY: ['156', 2],
+  COP: ['170', 2],
+  EUR: ['978', 2],
+  GBP: ['826', 2],
+  HKD: ['344', 2],
+  IDR: ['360', 2],
+  INR: ['356', 2],
+  JPY: ['392', 0],
+  KES: ['404', 2],
+  KHR: ['116', 2],
+  KRW: ['410', 0],
+  LAK: ['418', 2],
+  LKR: ['144', 2],
+  MMK: ['104', 2],
+  MXN: ['484', 2],
+  MYR: ['458', 2],
+  NGN: ['566', 2],
+  NPR: ['524', 2],
+  PEN: ['604', 2],
+  PHP: ['608', 2],
+  PKR: ['586', 2],
+  SGD: ['702', 2],
+  THB: ['764', 2],
+  USD: ['840', 2],
+  VND: ['704', 0],
+};
+
+const ROOT_TAGS: Record<string, string> = {
+  '00': 'Payload format indicator',
+  '01': 'Point of initiation method',
+  '52': 'Merchant category code',
+  '53': 'Transaction currency',
+  '54': 'Transaction amount',
+  '55': 'Tip or convenience indicator',
+  '56': 'Convenience fee, fixed',
+  '57': 'Convenience fee, percentage',
+  '58': 'Country code',
+  '59': 'Merchant name',
+  '60': 'Merchant city',
+  '61': 'Postal code',
+  '62': 'Additional data',
+  '63': 'CRC',
+  '64': 'Merchant information, alternate language',
+};
+
+// Primitive merchant account tags reserved for card networks
+const CARD_NETWORKS: Array<[number, number, string]> = [
+  [2, 3, 'Visa'],
+  [4, 5, 'Mastercard'],
+  [9, 10, 'Discover'],
+  [11, 12, 'American Express'],
+  [13, 14, 'JCB'],
+  [15, 16, 'UnionPay'],
+];
+
+// Globally unique identifiers of well-known account templates
+const PAYMENT_SCHEMES: Record<string, string> = {
+  'BR.GOV.BCB.PIX': 'PIX',
+  'A000000677010111': 'PromptPay',
+  'A000000677010112': 'PromptPay bill payment',
+  'SG.PAYNOW': 'PayNow',
+  'SG.COM.NETS': 'NETS',
+};
+
+const ADDITIONAL_DATA_FIELDS = [
+  'billNumber',
+  'mobileNumber',
+  'storeLabel',
+  'loyaltyNumber',
+  'referenceLabel',
+  'customerLabel',
+  'terminalLabel',
+  'purpose',
+  'consumerDataRequest',
+] as const;
+
+const ADDITIONAL_DATA_NAMES = [
+  'Bill number',
+  'Mobile number',
+  'Store label',
+  'Loyalty number',
+  'Reference label',
+  'Customer label',
+  'Terminal label',
+  'Purpose of transaction',
+  'Additional consumer data request',
+];
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  '00': 'Language preference',
+  '01': 'Merchant name',
+  '02': 'Merchant city',
+};
+
+const TIP_TYPES = { prompt: '01', fixed: '02', percentage: '03' } as const;
+
+/**
+ * Build the payload of an EMVCo merchant-presented QR code: two-digit tag,
+ * two-digit length and value for every field, in tag order, ending with a
+ * CRC-16/CCITT over everything before it
+ */
+export function buildEMVMerchantPayload(merchant: EMVMerchant): string {
+  const [currency, minorUnits] = resolveCurrency(merchant.currency);
+
+  let payload = field('00', '01');
+  if (merchant.pointOfInitiation) {
+    payload += field('01', merchant.pointOfInitiation === 'dynamic' ? '12' : '11');
+  }
+
+  const accounts = [...merchant.merchantAccounts].sort((a, b) => a.tag - b.tag);
+  accounts.forEach((account, index) => {
+    if (index > 0 && accounts[index - 1].tag === account.tag) {
+      throw new QRValidationError(`Merchant account tag ${account.tag} is used twice`);
+    }
+    const tag = String(account.tag).padStart(2, '0');
+    if (account.tag < 26) {
+      payload += field(tag, account.value!);
+      return;
+    }
+    const subFields = Object.entries(account.fields || {})
+      .filter(([subTag]) => subTag !== '00')
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([subTag, value]) => field(subTag, value))
+      .join('');
+    payload += field(tag, field('00', account.globallyUniqueIdentifier!) + subFields);
+  });
+
+  payload += field('52', merchant.merchantCategoryCode);
+  payload += field('53', currency);
+  if (merchant.amount !== undefined) {
+    payload += field('54', formatAmount(merchant.amount, minorUnits, 'Amount'));
+  }
+  if (merchant.tip) {
+    payload += field('55', TIP_TYPES[merchant.tip.type]);
+    if (merchant.tip.type === 'fixed') {
+      payload += field('56', formatAmount(merchant.tip.value!, minorUnits, 'Convenience fee'));
+    } else if (merchant.tip.type === 'percentage') {
+      if (merchant.tip.value! >= 100) {
+        throw new QRValidationError('Convenience fee percentage must be below 100');
+      }
+      payload += field('57', formatAmount(merchant.tip.value!, 2, 'Convenience fee percentage'));
+    }
+  }
+  payload += field('58', merchant.countryCode);
+  payload += field('59', merchant.merchantName);
+  payload += field('60', merchant.merchantCity);
+  if (merchant.postalCode) payload += field('61', merchant.postalCode);
+
+  if (merchant.additionalData) {
+    const data = merchant.additionalData;
+    const subFields = ADDITIONAL_DATA_FIELDS
+      .map((key, index) => (data[key] ? field(String(index + 1).padStart(2, '0'), data[key]!) : ''))
+      .join('');
+    if (subFields) payload += field('62', subFields);
+  }
+
+  if (merchant.alternateLanguage) {
+    const language = merchant.alternateLanguage;
+    payload += field(
+      '64',
+      field('00', language.languagePreference) +
+      field('01', language.merchantName) +
+      (language.merchantCity ? field('02', language.merchantCity) : '')
+    );
+  }
+
+  payload += '6304';
+  if (payload.length + 4 > MAX_PAYLOAD_LENGTH) {
+    throw new QRValidationError(
+      `EMV payload is ${payload.length + 4} characters; the specification allows at most ${MAX_PAYLOAD_LENGTH}`
+    );
+  }
+  return payload + crcHex(payload);
+}
+
+/**
+ * Recognise an EMVCo merchant-presented payload, check its CRC and
+ * mandatory fields, and name every field. Content that does not parse as
+ * TLV fields is not treated as EMV.
+ */
+export function parseEMVMerchant(content: string): EMVPayload | undefined {
+  if (!content.startsWith('000201')) return undefined;
+  const objects = readFields(content);
+  if (!objects) return undefined;
+
+  const errors: string[] = [];
+  const values = new Map(objects.map(object => [object.tag, object.value]));
+  const crcIndex = objects.findIndex(object => object.tag === '63');
+  let crcValid = false;
+
+  if (crcIndex < 0) {
+    errors.push('CRC (tag 63) is missing');
+  } else {
+    if (crcIndex !== objects.length - 1) errors.push('CRC (tag 63) is not the last field');
+    const end = objects[crcIndex].offset + 4;
+    crcValid = values.get('63') === crcHex(content.slice(0, end));
+  }
+  for (const tag of ['52', '53', '58', '59', '60']) {
+    if (!values.has(tag)) errors.push(`${ROOT_TAGS[tag]} (tag ${tag}) is missing`);
+  }
+
+  const dataObjects = objects.map(object => describe(object.tag, object.value));
+  const accounts = dataObjects.filter(object => Number(object.tag) >= 2 && Number(object.tag) <= 51);
+  if (accounts.length === 0) errors.push('No merchant account information (tags 02-51)');
+
+  const currencyCode = values.get('53') || '';
+  const currency = Object.keys(CURRENCIES).find(code => CURRENCIES[code][0] === currencyCode) || currencyCode;
+
+  const fields: EMVMerchant = {
+    merchantAccounts: accounts.map(account => {
+      const tag = Number(account.tag);
+      if (tag < 26 || !account.children) return { tag, value: account.value };
+      const children = account.children;
+      return {
+        tag,
+        globallyUniqueIdentifier: children.find(child => child.tag === '00')?.value || '',
+        fields: Object.fromEntries(children.filter(child => child.tag !== '00').map(child => [child.tag, child.value])),
+      };
+    }),
+    merchantCategoryCode: values.get('52') || '0000',
+    currency,
+    countryCode: values.get('58') || '',
+    merchantName: values.get('59') || '',
+    merchantCity: values.get('60') || '',
+  };
+
+  if (values.has('01')) fields.pointOfInitiation = values.get('01') === '12' ? 'dynamic' : 'static';
+  if (values.has('54')) fields.amount = Number(values.get('54'));
+  const tipType = (Object.keys(TIP_TYPES) as Array<keyof typeof TIP_TYPES>)
+    .find(type => TIP_TYPES[type] === values.get('55'));
+  if (tipType) {
+    const tipValue = values.get(tipType === 'fixed' ? '56' : '57');
+    fields.tip = { type: tipType };
+    if (tipType !== 'prompt' && tipValue) fields.tip.value = Number(tipValue);
+  }
+  if (values.has('61')) fields.postalCode = values.get('61');
+
+  const additional = dataObjects.find(object => object.tag === '62')?.children;
+  if (additional) {
+    fields.additionalData = {};
+    for (const child of additional) {
+      const key = ADDITIONAL_DATA_FIELDS[Number(child.tag) - 1];
+      if (key) fields.additionalData[key] = child.value;
+    }
+  }
+
+  const language = dataObjects.find(object => object.tag === '64')?.children;
+  if (language) {
+    const sub = (tag: string) => language.find(child => child.tag === tag)?.value;
+    fields.alternateLanguage = { languagePreference: sub('00') || '', merchantName: sub('01') || '' };
+    if (sub('02')) fields.alternateLanguage.merchantCity = sub('02');
+  }
+
+  return { type: 'emv', fields, dataObjects, crcValid, errors };
+}
+
+/**
+ * Split TLV fields; undefined unless the lengths account for every
+ * character
+ */
+function readFields(content: string): Array<{ tag: string; value: string; offset: number }> | undefined {
+  const objects: Array<{ tag: string; value: string; offset: number }> = [];
+  let offset = 0;
+  while (offset < content.length) {
+    const header = content.slice(offset, offset + 4);
+    if (!/^\d{4}$/.test(header)) return undefined;
+    const length = Number(header.slice(2));
+    if (offset + 4 + length > content.length) return undefined;
+    objects.push({ tag: header.slice(0, 2), value: content.slice(offset + 4, offset + 4 + length), offset });
+    offset += 4 + length;
+  }
+  return objects;
+}
+
+/**
+ * Name a root field and decode what it means, with the nested fields of
+ * templates
+ */
+function describe(tag: string, value: string): EMVDataObject {
+  const number = Number(tag);
+
+  if (number >= 2 && number <= 25) {
+    const network = CARD_NETWORKS.find(([first, last]) => number >= first && number <= last)?.[2];
+    return { tag, name: `Merchant account${network ? ` (${network})` : ''}`, value };
+  }
+
+  if ((number >= 26 && number <= 51) || number >= 80) {
+    const children = readFields(value);
+    const scheme = children?.find(child => child.tag === '00')?.value;
+    const known = scheme && PAYMENT_SCHEMES[scheme.toUpperCase()];
+    return {
+      tag,
+      name: number >= 80 ? 'Unreserved template' : 'Merchant account template',
+      value,
+      ...(known ? { meaning: known } : {}),
+      ...(children ? {
+        children: children.map(child => ({
+          tag: child.tag,
+          name: child.tag === '00' ? 'Globally unique identifier' : 'Payment network specific',
+          value: child.value,
+        })),
+      } : {}),
+    };
+  }
+
+  if (tag === '62' || tag === '64') {
+    const children = readFields(value);
+    return {
+      tag,
+      name: ROOT_TAGS[tag],
+      value,
+      ...(children ? {
+        children: children.map(child => ({
+          tag: child.tag,
+          name: tag === '62'
+            ? ADDITIONAL_DATA_NAMES[Number(child.tag) - 1] ||
+              (Number(child.tag) >= 50 ? 'Payment system specific template' : 'Reserved for future use')
+            : LANGUAGE_NAMES[child.tag] || 'Reserved for future use',
+          value: child.value,
+        })),
+      } : {}),
+    };
+  }
+
+  return { tag, name: ROOT_TAGS[tag] || 'Reserved for future use', value, ...meaningOf(tag, value) };
+}
+
+function meaningOf(tag: string, value: string): { meaning?: string } {
+  switch (tag) {
+    case '01':
+      return { meaning: value === '12' ? 'dynamic, for one payment' : value === '11' ? 'static, reusable' : undefined };
+    case '53': {
+      const currency = Object.keys(CURRENCIES).find(code => CURRENCIES[code][0] === value);
+      return currency ? { meaning: currency } : {};
+    }
+    case '55':
+      return {
+        meaning: value === '01' ? 'payer is prompted for a tip' : value === '02' ? 'fixed convenience fee' :
+          value === '03' ? 'percentage convenience fee' : undefined,
+      };
+    default:
+      return {};
+  }
+}
+
+function field(tag: string, value: string): string {
+  if (value.length > 99) {
+    throw new QRValidationError(`Field ${tag} is ${value.length} characters; EMV fields hold at most 99`);
+  }
+  return tag + String(value.length).padStart(2, '0') + value;
+}
+
+function resolveCurrency(code: string): [string, number] {
+  if (/^\d{3}$/.test(code)) {
+    return Object.values(CURRENCIES).find(([numeric]) => numeric === code) || [code, 2];
+  }
+  const currency = CURRENCIES[code.toUpperCase()];
+  if (!currency) {
+    throw new QRValidationError(`Unknown currency ${code}; use its ISO 4217 numeric code`);
+  }
+  return currency;
+}
+
+function formatAmount(amount: number, minorUnits: number, label: string): string {
+  const text = amount.toFixed(minorUnits);
+  if (Math.abs(Number(text) - amount) > 1e-9) {
+    throw new QRValidationError(`${label} ${amount} has more than ${minorUnits} decimals`);
+  }
+  if (text.length > 13) {
+    throw new QRValidationError(`${label} ${amount} is longer than 13 characters`);
+  }
+  return text;
+}
+
+function crcHex(payload: string): string {
+  return crc16ccitt(new TextEncoder().encode(payload)).toString(16).toUpperCase().padStart(4, '0');
+}
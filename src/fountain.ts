@@ -0,0 +1,290 @@
+import { crc32 } from './checksums.js';
+import { dataCapacityBits } from './capacity-planner.js';
+import { ALPHANUMERIC_CHARSET, segmentBits } from './qr-segments.js';
+import { ErrorCorrectionLevel, FountainTransfer, QRValidationError } from './types.js';
+
+// Frames are Base45 text behind this prefix, so every frame is one
+// alphanumeric segment
+export const FRAME_PREFIX = 'QRF:';
+
+export const MAX_TRANSFER_BYTES = 256 * 1024;
+export const MAX_FRAMES = 2000;
+
+const FORMAT_VERSION = 1;
+
+// Format version, transfer id, data length, block size and sequence number
+const HEADER_BYTES = 15;
+
+export interface FountainOptions {
+  /** Data bytes per frame, see `fountainBlockSize` */
+  blockSize: number;
+  /** Extra frames as a share of the block count (default 0.5) */
+  redundancy?: number;
+  /** Exact number of frames, instead of `redundancy` */
+  frames?: number;
+}
+
+interface FrameHeader {
+  id: number;
+  length: number;
+  blockSize: number;
+  sequence: number;
+}
+
+interface Equation {
+  coefficients: Uint32Array;
+  payload: Uint8Array;
+}
+
+/**
+ * Encode data as fountain-coded frame contents (a systematic random linear
+ * fountain). The first frames carry the blocks as they are; the rest each
+ * carry the XOR of a pseudo-random half of the blocks, so any k frames
+ * plus a couple more almost always determine all k blocks.
+ */
+export function encodeFountain(data: Uint8Array, options: FountainOptions): string[] {
+  if (data.length === 0) {
+    throw new QRValidationError('Data cannot be empty');
+  }
+  if (data.length > MAX_TRANSFER_BYTES) {
+    throw new QRValidationError(`Data is ${data.length} bytes; animated transfers carry at most ${MAX_TRANSFER_BYTES} bytes`);
+  }
+  if (options.blockSize < 1 || options.blockSize > 0xffff) {
+    throw new QRValidationError(`Block size must be between 1 and ${0xffff} bytes`);
+  }
+
+  const blockCount = Math.ceil(data.length / options.blockSize);
+  const frameCount = options.frames ?? blockCount + Math.ceil(blockCount * (options.redundancy ?? 0.5));
+  if (frameCount < blockCount) {
+    throw new QRValidationError(`${blockCount} blocks need at least ${blockCount} frames, got ${frameCount}`);
+  }
+  if (frameCount > MAX_FRAMES) {
+    throw new QRValidationError(
+      `Transfer needs ${frameCount} frames, more than ${MAX_FRAMES}; use a larger QR version or less redundancy`
+    );
+  }
+
+  const id = crc32(data);
+  const blocks = Array.from({ length: blockCount }, (_, index) => {
+    const block = new Uint8Array(options.blockSize);
+    block.set(data.subarray(index * options.blockSize, (index + 1) * options.blockSize));
+    return block;
+  });
+
+  return Array.from({ length: frameCount }, (_, sequence) => {
+    const payload = new Uint8Array(options.blockSize);
+    for (const index of blockIndices(id, sequence, blockCount)) {
+      xorInto(payload, blocks[index]);
+    }
+
+    const frame = new Uint8Array(HEADER_BYTES + options.blockSize);
+    const header = new DataView(frame.buffer);
+    header.setUint8(0, FORMAT_VERSION);
+    header.setUint32(1, id);
+    header.setUint32(5, data.length);
+    header.setUint16(9, options.blockSize);
+    header.setUint32(11, sequence);
+    frame.set(payload, HEADER_BYTES);
+    return FRAME_PREFIX + encodeBase45(frame);
+  });
+}
+
+/**
+ * Rebuild every transfer from decoded frame contents, in any order and
+ * with duplicates. Contents that are not fountain frames are ignored.
+ */
+export function assembleFountain(contents: string[]): FountainTransfer[] {
+  const groups = new Map<string, { header: FrameHeader; frames: Map<number, Uint8Array> }>();
+
+  for (const content of contents) {
+    const frame = parseFrame(content);
+    if (!frame) continue;
+    const { header, payload } = frame;
+    const key = `${header.id}:${header.length}:${header.blockSize}`;
+    const group = groups.get(key) || { header, frames: new Map<number, Uint8Array>() };
+    group.frames.set(header.sequence, payload);
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values()).map(({ header, frames }) => {
+    const blockCount = Math.ceil(header.length / header.blockSize);
+    const words = Math.ceil(blockCount / 32);
+    const pivots: Array<Equation | undefined> = new Array(blockCount);
+    let recovered = 0;
+
+    for (const [sequence, payload] of frames) {
+      const coefficients = new Uint32Array(words);
+      for (const index of blockIndices(header.id, sequence, blockCount)) {
+        coefficients[index >> 5] ^= 1 << (index & 31);
+      }
+      if (eliminate(pivots, { coefficients, payload: payload.slice() })) recovered++;
+      if (recovered === blockCount) break;
+    }
+
+    const transfer: FountainTransfer = {
+      id: header.id,
+      length: header.length,
+      blockSize: header.blockSize,
+      blocks: blockCount,
+      framesReceived: frames.size,
+      recovered,
+      complete: false,
+    };
+    if (recovered < blockCount) return transfer;
+
+    const data = new Uint8Array(blockCount * header.blockSize);
+    backSubstitute(pivots as Equation[]).forEach((block, index) => data.set(block, index * header.blockSize));
+    if (crc32(data.subarray(0, header.length)) !== header.id) {
+      return { ...transfer, error: 'Rebuilt data does not match its checksum' };
+    }
+    return { ...transfer, complete: true, data: data.slice(0, header.length) };
+  });
+}
+
+/**
+ * Data bytes per frame that fill a symbol of `version` at the given level
+ */
+export function fountainBlockSize(version: number, errorCorrectionLevel: ErrorCorrectionLevel): number {
+  const capacity = dataCapacityBits(version, errorCorrectionLevel);
+  let bytes = Math.floor(capacity / 8);
+  const bits = (length: number) =>
+    segmentBits({ mode: 'alphanumeric', data: 'X'.repeat(FRAME_PREFIX.length + base45Length(length)) }, version);
+  while (bytes > HEADER_BYTES && bits(bytes) > capacity) bytes--;
+  return Math.max(0, bytes - HEADER_BYTES);
+}
+
+export function isFountainFrame(content: string): boolean {
+  return parseFrame(content) !== undefined;
+}
+
+function parseFrame(content: string): { header: FrameHeader; payload: Uint8Array } | undefined {
+  if (!content.startsWith(FRAME_PREFIX)) return undefined;
+  const frame = decodeBase45(content.slice(FRAME_PREFIX.length));
+  if (!frame || frame.length <= HEADER_BYTES) return undefined;
+
+  const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+  const header = {
+    id: view.getUint32(1),
+    length: view.getUint32(5),
+    blockSize: view.getUint16(9),
+    sequence: view.getUint32(11),
+  };
+  if (
+    view.getUint8(0) !== FORMAT_VERSION ||
+    header.blockSize !== frame.length - HEADER_BYTES ||
+    header.length === 0 ||
+    header.length > MAX_TRANSFER_BYTES
+  ) {
+    return undefined;
+  }
+  return { header, payload: frame.subarray(HEADER_BYTES) };
+}
+
+/**
+ * Blocks combined in a frame. Encoder and decoder derive them from the
+ * transfer id and sequence number alone.
+ */
+function blockIndices(id: number, sequence: number, blockCount: number): number[] {
+  if (sequence < blockCount) return [sequence];
+
+  const random = mulberry32((id ^ Math.imul(sequence, 0x9e3779b1)) >>> 0);
+  const indices: number[] = [];
+  for (let index = 0; index < blockCount; index++) {
+    if (random() < 0.5) indices.push(index);
+  }
+  return indices.length > 0 ? indices : [Math.floor(random() * blockCount)];
+}
+
+/**
+ * Reduce an equation against the pivots found so far (Gaussian elimination
+ * over GF(2)); true when it adds a new pivot
+ */
+function eliminate(pivots: Array<Equation | undefined>, equation: Equation): boolean {
+  const { coefficients } = equation;
+  for (let word = 0; word < coefficients.length; word++) {
+    while (coefficients[word] !== 0) {
+      const index = word * 32 + (31 - Math.clz32(coefficients[word] & -coefficients[word]));
+      const pivot = pivots[index];
+      if (!pivot) {
+        pivots[index] = equation;
+        return true;
+      }
+      xorInto(coefficients, pivot.coefficients);
+      xorInto(equation.payload, pivot.payload);
+    }
+  }
+  return false;
+}
+
+/**
+ * Solve a full set of pivots, each of whose lowest block is its own index,
+ * from the last block back; returns the blocks in order
+ */
+function backSubstitute(pivots: Equation[]): Uint8Array[] {
+  for (let index = pivots.length - 1; index >= 0; index--) {
+    const { coefficients, payload } = pivots[index];
+    for (let other = index + 1; other < pivots.length; other++) {
+      if (coefficients[other >> 5] & (1 << (other & 31))) {
+        xorInto(payload, pivots[other].payload);
+      }
+    }
+  }
+  return pivots.map(pivot => pivot.payload);
+}
+
+function xorInto(target: Uint8Array | Uint32Array, source: Uint8Array | Uint32Array): void {
+  for (let i = 0; i < target.length; i++) {
+    target[i] ^= source[i];
+  }
+}
+
+function mulberry32(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Base45 (RFC 9285), whose alphabet is the QR alphanumeric character set
+ */
+function encodeBase45(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 2) {
+    let value = i + 1 < bytes.length ? bytes[i] * 256 + bytes[i + 1] : bytes[i];
+    const digits = i + 1 < bytes.length ? 3 : 2;
+    for (let digit = 0; digit < digits; digit++) {
+      text += ALPHANUMERIC_CHARSET[value % 45];
+      value = Math.floor(value / 45);
+    }
+  }
+  return text;
+}
+
+function decodeBase45(text: string): Uint8Array | undefined {
+  if (text.length % 3 === 1) return undefined;
+  const bytes = new Uint8Array(Math.floor(text.length / 3) * 2 + (text.length % 3 === 2 ? 1 : 0));
+
+  for (let i = 0, j = 0; i < text.length; i += 3, j += 2) {
+    const digits = Array.from(text.slice(i, i + 3), char => ALPHANUMERIC_CHARSET.indexOf(char));
+    if (digits.includes(-1)) return undefined;
+    const value = digits.reduceRight((sum, digit) => sum * 45 + digit, 0);
+    if (digits.length === 3) {
+      if (value > 0xffff) return undefined;
+      bytes[j] = value >> 8;
+      bytes[j + 1] = value & 0xff;
+    } else {
+      if (value > 0xff) return undefined;
+      bytes[j] = value;
+    }
+  }
+  return bytes;
+}
+
+function base45Length(bytes: number): number {
+  return Math.floor(bytes / 2) * 3 + (bytes % 2) * 2;
+}
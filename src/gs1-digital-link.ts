@@ -0,0 +1,553 @@
+import { gs1CheckDigit, gs1CheckDigitValid } from './checksums.js';
+import { GS1DigitalLink, GS1Element, ParsedPayload, QRValidationError } from './types.js';
+
+interface AIDefinition {
+  title: string;
+  pattern: RegExp;
+  /** Components in GS1 notation, e.g. `N13 X..17`; compression encodes each in turn */
+  format: string;
+  /** Digits [start, end) that end in a mod-10 check digit */
+  check?: [number, number];
+  /** YYMMDD date, DD may be 00 for the end of the month */
+  date?: boolean;
+  /** Implied decimal places, the last digit of the AI */
+  decimals?: boolean;
+  unit?: string;
+}
+
+// GS1 AI encodable character set 82 and set 39
+const CSET82 = '[!"%-?A-Z_a-z]';
+const CSET39 = '[#\\-/0-9A-Z]';
+const text = (max: number) => ({ pattern: new RegExp(`^${CSET82}{1,${max}}$`), format: `X..${max}` });
+const digits = (min: number, max: number = min) => ({
+  pattern: new RegExp(`^\\d{${min},${max}}$`),
+  format: min === max ? `N${min}` : `N..${max}`,
+});
+
+const AIS: Record<string, AIDefinition> = {
+  '00': { title: 'SSCC', ...digits(18), check: [0, 18] },
+  '01': { title: 'GTIN', ...digits(14), check: [0, 14] },
+  '02': { title: 'CONTENT', ...digits(14), check: [0, 14] },
+  '10': { title: 'BATCH/LOT', ...text(20) },
+  '11': { title: 'PROD DATE', ...digits(6), date: true },
+  '12': { title: 'DUE DATE', ...digits(6), date: true },
+  '13': { title: 'PACK DATE', ...digits(6), date: true },
+  '15': { title: 'BEST BEFORE', ...digits(6), date: true },
+  '16': { title: 'SELL BY', ...digits(6), date: true },
+  '17': { title: 'USE BY OR EXPIRY', ...digits(6), date: true },
+  '20': { title: 'VARIANT', ...digits(2) },
+  '21': { title: 'SERIAL', ...text(20) },
+  '22': { title: 'CPV', ...text(20) },
+  '235': { title: 'TPX', ...text(28) },
+  '240': { title: 'ADDITIONAL ID', ...text(30) },
+  '241': { title: 'CUST. PART No.', ...text(30) },
+  '242': { title: 'MTO VARIANT', ...digits(1, 6) },
+  '250': { title: 'SECONDARY SERIAL', ...text(30) },
+  '251': { title: 'REF. TO SOURCE', ...text(30) },
+  '253': { title: 'GDTI', pattern: new RegExp(`^\\d{13}${CSET82}{0,17}$`), format: 'N13 X..17', check: [0, 13] },
+  '254': { title: 'GLN EXTENSION COMPONENT', ...text(20) },
+  '255': { title: 'GCN', ...digits(13, 25), format: 'N13 N..12', check: [0, 13] },
+  '30': { title: 'VAR. COUNT', ...digits(1, 8) },
+  '37': { title: 'COUNT', ...digits(1, 8) },
+  '400': { title: 'ORDER NUMBER', ...text(30) },
+  '401': { title: 'GINC', ...text(30) },
+  '402': { title: 'GSIN', ...digits(17), check: [0, 17] },
+  '410': { title: 'SHIP TO LOC', ...digits(13), check: [0, 13] },
+  '414': { title: 'LOC No.', ...digits(13), check: [0, 13] },
+  '417': { title: 'PARTY', ...digits(13), check: [0, 13] },
+  '422': { title: 'ORIGIN', ...digits(3) },
+  '7003': { title: 'EXPIRY TIME', ...digits(10) },
+  '7040': { title: 'UIC+EXT', pattern: new RegExp(`^\\d${CSET82}{3}$`), format: 'N1 X3' },
+  '8003': { title: 'GRAI', pattern: new RegExp(`^0\\d{13}${CSET82}{0,16}$`), format: 'N14 X..16', check: [1, 14] },
+  '8004': { title: 'GIAI', ...text(30) },
+  '8006': { title: 'ITIP', ...digits(18), check: [0, 14] },
+  '8010': { title: 'CPID', pattern: new RegExp(`^${CSET39}{1,30}$`), format: 'X..30' },
+  '8011': { title: 'CPID SERIAL', ...digits(1, 12) },
+  '8013': { title: 'GMN', ...text(25) },
+  '8017': { title: 'GSRN - PROVIDER', ...digits(18), check: [0, 18] },
+  '8018': { title: 'GSRN - RECIPIENT', ...digits(18), check: [0, 18] },
+  '8019': { title: 'SRIN', ...digits(1, 10) },
+  '8020': { title: 'REF No.', ...text(25) },
+  '90': { title: 'INTERNAL', ...text(30) },
+};
+
+// Measures and prices carry their decimal places in the last AI digit
+for (const [prefix, title, unit] of [
+  ['310', 'NET WEIGHT (kg)', 'kg'],
+  ['311', 'LENGTH (m)', 'm'],
+  ['320', 'NET WEIGHT (lb)', 'lb'],
+  ['330', 'GROSS WEIGHT (kg)', 'kg'],
+] as const) {
+  for (let places = 0; places <= 5; places++) {
+    AIS[`${prefix}${places}`] = { title, ...digits(6), decimals: true, unit };
+  }
+}
+for (let places = 0; places <= 9; places++) {
+  AIS[`390${places}`] = { title: 'AMOUNT', ...digits(1, 15), decimals: true };
+  AIS[`392${places}`] = { title: 'PRICE', ...digits(1, 15), decimals: true };
+}
+for (let places = 0; places <= 3; places++) {
+  AIS[`394${places}`] = { title: 'PRCNT OFF', ...digits(4), decimals: true, unit: '%' };
+}
+for (let ai = 91; ai <= 99; ai++) {
+  AIS[String(ai)] = { title: 'INTERNAL', ...text(90) };
+}
+
+// Primary keys and, in path order, the key qualifiers each one takes
+const PRIMARY_KEYS: Record<string, string[]> = {
+  '01': ['22', '10', '21'],
+  '00': [],
+  '253': [],
+  '255': [],
+  '401': [],
+  '402': [],
+  '414': ['254'],
+  '417': [],
+  '8003': [],
+  '8004': [],
+  '8006': ['22', '10', '21'],
+  '8010': ['8011'],
+  '8013': [],
+  '8017': ['8019'],
+  '8018': ['8019'],
+};
+
+// Convenience names of GS1 Digital Link 1.0, still accepted when parsing
+const SHORT_NAMES: Record<string, string> = {
+  gtin: '01', itip: '8006', gmn: '8013', cpv: '22', lot: '10', ser: '21', sscc: '00',
+  gln: '414', glnx: '254', party: '417', giai: '8004', grai: '8003', gdti: '253', gcn: '255',
+  ginc: '401', gsin: '402', cpid: '8010', cpsn: '8011', gsrnp: '8017', gsrn: '8018', srin: '8019',
+  exp: '17', expdt: '7003', bbd: '15', pkgd: '13', proddate: '11',
+};
+
+// URI-safe base 64 alphabet of compressed paths
+const BASE64URL = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+const HEX = '0123456789ABCDEF';
+
+// Character encodings of compressed alphanumeric values, by 3-bit indicator
+const ENCODINGS = { digits: 0, lowerHex: 1, upperHex: 2, base64url: 3, ascii: 4 } as const;
+
+// Compression writes these common runs of AIs as one two-hex-digit code
+// (at least one digit A-F) in place of the AIs themselves; the values
+// follow in AI order
+const OPTIMISATIONS: Record<string, string[]> = {
+  '0A': ['01', '22'], '0B': ['01', '10'], '0C': ['01', '21'], '0D': ['01', '17'], '0E': ['01', '7003'],
+  '0F': ['01', '30'], '1A': ['01', '10', '17', '21'], '1B': ['01', '15'], '1C': ['01', '11'],
+  '1D': ['01', '16'], '1E': ['01', '91'], '1F': ['01', '10', '15'],
+  '2A': ['01', '3100'], '2B': ['01', '3101'], '2C': ['01', '3102'], '2D': ['01', '3103'], '2E': ['01', '3104'],
+  '2F': ['01', '3105'], '3A': ['01', '3200'], '3B': ['01', '3201'], '3C': ['01', '3202'], '3D': ['01', '3203'],
+  '3E': ['01', '3204'], '3F': ['01', '3205'],
+  '9A': ['8010', '8011'], '9B': ['8017', '8019'], '9C': ['8018', '8019'], '9D': ['254', '414'],
+  'A0': ['01', '3920'], 'A1': ['01', '3921'], 'A2': ['01', '3922'], 'A3': ['01', '3923'], 'A4': ['01', '3924'],
+  'A5': ['01', '3925'], 'A6': ['01', '3926'], 'A7': ['01', '3927'], 'A8': ['01', '3928'], 'A9': ['01', '3929'],
+  'C0': ['255', '3900'], 'C1': ['255', '3901'], 'C2': ['255', '3902'], 'C3': ['255', '3903'], 'C4': ['255', '3904'],
+  'C5': ['255', '3905'], 'C6': ['255', '3906'], 'C7': ['255', '3907'], 'C8': ['255', '3908'], 'C9': ['255', '3909'],
+  'CA': ['255', '3940'], 'CB': ['255', '3941'], 'CC': ['255', '3942'], 'CD': ['255', '3943'],
+};
+
+/**
+ * Uncompressed GS1 Digital Link URI: the primary key and its qualifiers in
+ * the path, in the order the standard fixes, other AIs as query
+ * parameters in AI order. With `compressed`, every element is instead
+ * packed into one binary path segment after the domain. Values are checked
+ * against their AI format and check digit.
+ */
+export function buildGS1DigitalLink(link: GS1DigitalLink): string {
+  const elements = linkElements(link);
+  for (const [ai, value] of elements) {
+    const error = validateElement(ai, value);
+    if (error) throw new QRValidationError(error);
+  }
+
+  const keys = [...elements.keys()].filter(ai => ai in PRIMARY_KEYS);
+  if (keys.length !== 1) {
+    throw new QRValidationError(
+      keys.length === 0
+        ? 'A GS1 Digital Link needs one primary key, e.g. a GTIN (AI 01), SSCC (00) or GLN (414)'
+        : `A GS1 Digital Link has one primary key, got AIs ${keys.join(', ')}`
+    );
+  }
+
+  const domain = link.domain.replace(/\/+$/, '');
+  if (link.compressed) return `${domain}/${compressElements(elements)}`;
+
+  const [key] = keys;
+  const qualifiers = PRIMARY_KEYS[key].filter(ai => elements.has(ai));
+  const path = [key, ...qualifiers].map(ai => `/${ai}/${encodeValue(elements.get(ai)!)}`).join('');
+  const attributes = [...elements.keys()]
+    .filter(ai => ai !== key && !qualifiers.includes(ai))
+    .sort()
+    .map(ai => `${ai}=${encodeValue(elements.get(ai)!)}`);
+
+  return `${domain}${path}${attributes.length > 0 ? `?${attributes.join('&')}` : ''}`;
+}
+
+/**
+ * GS1 Digital Link URIs on any domain, with an optional path prefix before
+ * the primary key, uncompressed or (fully or partially) compressed. Format
+ * and check digit problems are reported in `errors` rather than rejecting
+ * the link.
+ */
+export function parseGS1DigitalLink(content: string): ParsedPayload | undefined {
+  if (!/^https?:\/\//i.test(content)) return undefined;
+  let url: URL;
+  try {
+    url = new URL(content);
+  } catch {
+    return undefined;
+  }
+
+  const segments = url.pathname.split('/').slice(1).map(safeDecode);
+  const start = segments.findIndex((segment, index) => {
+    const ai = aiCode(segment);
+    return ai !== undefined && ai in PRIMARY_KEYS && (segments.length - index) % 2 === 0 &&
+      AIS[ai].pattern.test(segments[index + 1]) &&
+      segments.slice(index).every((part, offset) => offset % 2 === 1 || aiCode(part) !== undefined);
+  });
+
+  const errors: string[] = [];
+  const elements: GS1Element[] = [];
+  let prefix: string[];
+  let compressed = false;
+  if (start >= 0) {
+    prefix = segments.slice(0, start);
+    const path: string[] = [];
+    for (let index = start; index < segments.length; index += 2) {
+      const ai = aiCode(segments[index])!;
+      path.push(ai);
+      elements.push(describeElement(ai, segments[index + 1]));
+    }
+
+    const [key, ...qualifiers] = path;
+    const allowed = PRIMARY_KEYS[key];
+    const order = qualifiers.map(ai => allowed.indexOf(ai));
+    if (order.some((position, index) => position < 0 || (index > 0 && position <= order[index - 1]))) {
+      errors.push(`Path qualifiers ${qualifiers.join(', ')} do not follow AI ${key}, which takes ${allowed.join(', ') || 'none'} in that order`);
+    }
+  } else {
+    const decompressed = decompressPath(segments);
+    if (!decompressed) return undefined;
+    prefix = decompressed.prefix;
+    compressed = true;
+    for (const [ai, value] of decompressed.elements) elements.push(describeElement(ai, value));
+  }
+
+  for (const [name, value] of url.searchParams) {
+    const ai = aiCode(name);
+    if (ai === undefined) continue; // other parameters, e.g. linkType
+    if (elements.some(element => element.ai === ai)) {
+      errors.push(`AI ${ai} appears more than once`);
+      continue;
+    }
+    elements.push(describeElement(ai, value));
+  }
+  for (const element of elements) {
+    const error = validateElement(element.ai, element.value);
+    if (error) errors.push(error);
+  }
+
+  const fields: GS1DigitalLink = {
+    domain: url.origin + prefix.map(segment => `/${encodeURIComponent(segment)}`).join(''),
+  };
+  if (compressed) fields.compressed = true;
+  const ais: Record<string, string> = {};
+  for (const { ai, value } of elements) {
+    if (ai === '01') fields.gtin = value;
+    else if (ai === '10') fields.batch = value;
+    else if (ai === '21') fields.serial = value;
+    else if (ai === '17') fields.expiry = value;
+    else ais[ai] = value;
+  }
+  if (Object.keys(ais).length > 0) fields.ais = ais;
+
+  return { type: 'gs1', fields, elements, errors };
+}
+
+/**
+ * Elements of a fully compressed path (`/<binary>`) or of a partially
+ * compressed one (`/<key>/<value>/<binary>`), after any path prefix
+ */
+function decompressPath(segments: string[]): { prefix: string[]; elements: Map<string, string> } | undefined {
+  const last = segments.length - 1;
+  const decoded = last >= 0 ? decompressElements(segments[last]) : undefined;
+  if (!decoded) return undefined;
+
+  const pathKey = last >= 2 ? aiCode(segments[last - 2]) : undefined;
+  const partial = pathKey !== undefined && pathKey in PRIMARY_KEYS && AIS[pathKey].pattern.test(segments[last - 1]);
+  if (partial) {
+    if (decoded.has(pathKey)) return undefined;
+    decoded.set(pathKey, segments[last - 1]);
+  }
+
+  // Short path segments of other links (video IDs and the like) are base 64
+  // too, so a compressed path has to decode to valid elements throughout
+  const keys = [...decoded.keys()].filter(ai => ai in PRIMARY_KEYS);
+  if (keys.length !== 1 || [...decoded].some(([ai, value]) => validateElement(ai, value))) return undefined;
+
+  // Key first, then its qualifiers in path order, then the attributes
+  const [key] = keys;
+  const qualifiers = PRIMARY_KEYS[key].filter(ai => decoded.has(ai));
+  const attributes = [...decoded.keys()].filter(ai => ai !== key && !qualifiers.includes(ai)).sort();
+  return {
+    prefix: segments.slice(0, partial ? last - 2 : last),
+    elements: new Map([key, ...qualifiers, ...attributes].map(ai => [ai, decoded.get(ai)!])),
+  };
+}
+
+/**
+ * GS1 Digital Link compression: each AI as 4-bit digits (or a run of AIs as
+ * its optimisation code), then its value component by component, the bits
+ * written in URI-safe base 64
+ */
+function compressElements(elements: Map<string, string>): string {
+  let remaining = [...elements.keys()].sort();
+  let bits = '';
+
+  for (;;) {
+    // The run covering the most AI digits first; ties go to the earlier code
+    const [code] = Object.entries(OPTIMISATIONS)
+      .filter(([, run]) => run.every(ai => remaining.includes(ai)))
+      .sort(([, a], [, b]) => b.join('').length - a.join('').length)
+      .map(([candidate]) => candidate);
+    if (!code) break;
+
+    const run = OPTIMISATIONS[code];
+    bits += hexBits(code) + run.map(ai => valueBits(ai, elements.get(ai)!)).join('');
+    remaining = remaining.filter(ai => !run.includes(ai));
+  }
+  for (const ai of remaining) bits += hexBits(ai) + valueBits(ai, elements.get(ai)!);
+
+  bits = bits.padEnd(Math.ceil(bits.length / 6) * 6, '0');
+  return (bits.match(/.{6}/g) || []).map(chunk => BASE64URL[parseInt(chunk, 2)]).join('');
+}
+
+function valueBits(ai: string, value: string): string {
+  let bits = '';
+  let rest = value;
+  for (const component of formatComponents(AIS[ai].format)) {
+    const part = component.variable ? rest : rest.slice(0, component.length);
+    rest = rest.slice(part.length);
+    const length = component.variable ? binary(part.length, lengthBits(component.length)) : '';
+
+    if (component.numeric) {
+      bits += length + binary(BigInt(part || '0'), digitBits(part.length));
+      continue;
+    }
+    const encoding = characterEncoding(part);
+    bits += binary(encoding, 3) + length;
+    switch (encoding) {
+      case ENCODINGS.digits:
+        bits += binary(BigInt(part), digitBits(part.length));
+        break;
+      case ENCODINGS.lowerHex:
+      case ENCODINGS.upperHex:
+        bits += [...part.toUpperCase()].map(char => binary(HEX.indexOf(char), 4)).join('');
+        break;
+      case ENCODINGS.base64url:
+        bits += [...part].map(char => binary(BASE64URL.indexOf(char), 6)).join('');
+        break;
+      default:
+        bits += [...part].map(char => binary(char.charCodeAt(0), 7)).join('');
+    }
+  }
+  return bits;
+}
+
+/**
+ * Inverse of `compressElements`; undefined unless the whole segment decodes
+ * to known AIs; compressed query parameters that are not AIs, such as
+ * linkType, are skipped
+ */
+function decompressElements(segment: string): Map<string, string> | undefined {
+  if (!/^[A-Za-z0-9_-]+$/.test(segment)) return undefined;
+  const bits = [...segment].map(char => binary(BASE64URL.indexOf(char), 6)).join('');
+  let offset = 0;
+
+  const read = (length: number): bigint => {
+    if (offset + length > bits.length) throw new Error('Compressed value ends early');
+    const value = length > 0 ? BigInt(`0b${bits.slice(offset, offset + length)}`) : 0n;
+    offset += length;
+    return value;
+  };
+  const readDigits = (count: number): string => {
+    const value = read(digitBits(count)).toString();
+    if (value.length > Math.max(count, 1)) throw new Error(`${value} has more than ${count} digits`);
+    return count > 0 ? value.padStart(count, '0') : '';
+  };
+  const readText = (encoding: number, count: number): string => {
+    switch (encoding) {
+      case ENCODINGS.digits:
+        return readDigits(count);
+      case ENCODINGS.lowerHex:
+      case ENCODINGS.upperHex: {
+        const hex = Array.from({ length: count }, () => HEX[Number(read(4))]).join('');
+        return encoding === ENCODINGS.lowerHex ? hex.toLowerCase() : hex;
+      }
+      case ENCODINGS.base64url:
+        return Array.from({ length: count }, () => BASE64URL[Number(read(6))]).join('');
+      case ENCODINGS.ascii:
+        return String.fromCharCode(...Array.from({ length: count }, () => Number(read(7))));
+      default:
+        throw new Error(`Unknown character encoding ${encoding}`);
+    }
+  };
+  const readValue = (ai: string): string => {
+    let value = '';
+    for (const component of formatComponents(AIS[ai].format)) {
+      const encoding = component.numeric ? ENCODINGS.digits : Number(read(3));
+      const count = component.variable ? Number(read(lengthBits(component.length))) : component.length;
+      value += readText(encoding, count);
+    }
+    return value;
+  };
+
+  const elements = new Map<string, string>();
+  try {
+    // Padding to whole base 64 characters is under 6 bits
+    while (bits.length - offset >= 6) {
+      const first = HEX[Number(read(4))];
+      if (first === 'F') {
+        // A key=value pair from the query string: 7-bit key length, key in
+        // base 64, then the value with a 7-bit length
+        const keyLength = Number(read(7));
+        read(keyLength * 6);
+        const encoding = Number(read(3));
+        readText(encoding, Number(read(7)));
+        continue;
+      }
+
+      const code = first + HEX[Number(read(4))];
+      if (OPTIMISATIONS[code]) {
+        for (const ai of OPTIMISATIONS[code]) elements.set(ai, readValue(ai));
+        continue;
+      }
+      if (!/^\d\d$/.test(code)) return undefined;
+      let ai = code;
+      while (!AIS[ai] && ai.length < 4) {
+        const digit = Number(read(4));
+        if (digit > 9) return undefined;
+        ai += digit;
+      }
+      if (!AIS[ai]) return undefined;
+      elements.set(ai, readValue(ai));
+    }
+  } catch {
+    return undefined;
+  }
+
+  return elements.size > 0 && !bits.slice(offset).includes('1') ? elements : undefined;
+}
+
+function formatComponents(format: string): Array<{ numeric: boolean; variable: boolean; length: number }> {
+  return format.split(' ').map(component => {
+    const [, type, variable, length] = component.match(/^([NX])(\.\.)?(\d+)$/)!;
+    return { numeric: type === 'N', variable: Boolean(variable), length: Number(length) };
+  });
+}
+
+function characterEncoding(value: string): number {
+  if (/^\d+$/.test(value)) return ENCODINGS.digits;
+  if (/^[0-9A-F]+$/.test(value)) return ENCODINGS.upperHex;
+  if (/^[0-9a-f]+$/.test(value)) return ENCODINGS.lowerHex;
+  if (/^[A-Za-z0-9_-]+$/.test(value)) return ENCODINGS.base64url;
+  return ENCODINGS.ascii;
+}
+
+// Bits for a length indicator up to `max`, and for a number of `count` digits
+function lengthBits(max: number): number {
+  return Math.ceil(Math.log2(max) + 0.01);
+}
+
+function digitBits(count: number): number {
+  return Math.ceil(count * Math.log2(10) + 0.01);
+}
+
+function hexBits(hex: string): string {
+  return [...hex].map(char => binary(HEX.indexOf(char), 4)).join('');
+}
+
+function binary(value: number | bigint, length: number): string {
+  return value.toString(2).padStart(length, '0');
+}
+
+function linkElements(link: GS1DigitalLink): Map<string, string> {
+  const elements = new Map<string, string>();
+  const add = (ai: string, value: string | undefined) => {
+    if (value === undefined) return;
+    if (elements.has(ai)) throw new QRValidationError(`AI ${ai} (${AIS[ai]?.title}) is given twice`);
+    elements.set(ai, value);
+  };
+
+  // GTIN-8, -12 and -13 are written as GTIN-14 with leading zeros
+  add('01', link.gtin?.padStart(14, '0'));
+  add('10', link.batch);
+  add('21', link.serial);
+  add('17', link.expiry && /^\d{4}-\d{2}-\d{2}$/.test(link.expiry) ? link.expiry.slice(2).replace(/-/g, '') : link.expiry);
+  for (const [ai, value] of Object.entries(link.ais || {})) {
+    add(ai, ai === '01' ? value.padStart(14, '0') : value);
+  }
+  return elements;
+}
+
+function validateElement(ai: string, value: string): string | undefined {
+  const definition = AIS[ai];
+  if (!definition) return `AI ${ai} is not a known GS1 application identifier`;
+  const label = `AI ${ai} (${definition.title})`;
+  if (!definition.pattern.test(value)) return `${label} value ${value} does not match its format`;
+  if (definition.check && !gs1CheckDigitValid(value.slice(...definition.check))) {
+    const [from, to] = definition.check;
+    return `${label} check digit is wrong; expected ${gs1CheckDigit(value.slice(from, to - 1))}`;
+  }
+  if (definition.date && !dateMeaning(value)) return `${label} ${value} is not a valid YYMMDD date`;
+  return undefined;
+}
+
+function describeElement(ai: string, value: string): GS1Element {
+  const definition = AIS[ai];
+  const element: GS1Element = { ai, title: definition?.title || 'UNKNOWN', value };
+  if (definition?.date) {
+    const meaning = dateMeaning(value);
+    if (meaning) element.meaning = meaning;
+  } else if (definition?.decimals && /^\d+$/.test(value)) {
+    const places = Number(ai[ai.length - 1]);
+    const decimal = places > 0 ? `${value.slice(0, -places) || '0'}.${value.slice(-places).padStart(places, '0')}` : value;
+    element.meaning = `${decimal.replace(/^0+(?=\d)/, '')}${definition.unit ? ` ${definition.unit}` : ''}`;
+  }
+  return element;
+}
+
+/**
+ * ISO date of a YYMMDD value; the century is the one that puts the year
+ * within 49 years behind to 50 years ahead of now (GS1 General
+ * Specifications 7.12). Day 00 is the last day of the month.
+ */
+function dateMeaning(value: string): string | undefined {
+  if (!/^\d{6}$/.test(value)) return undefined;
+  const [yy, month, day] = [value.slice(0, 2), Number(value.slice(2, 4)), Number(value.slice(4, 6))];
+  const current = new Date().getUTCFullYear();
+  let year = Math.floor(current / 100) * 100 + Number(yy);
+  if (year - current > 50) year -= 100;
+  else if (current - year > 49) year += 100;
+
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (month < 1 || month > 12 || day > daysInMonth) return undefined;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day || daysInMonth).padStart(2, '0')}`;
+}
+
+function aiCode(segment: string): string | undefined {
+  if (/^\d{2,4}$/.test(segment)) return AIS[segment] ? segment : undefined;
+  return SHORT_NAMES[segment];
+}
+
+// Everything but unreserved characters is percent-encoded
+function encodeValue(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -14,31 +14,119 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import { QRCodeEnhanced } from './qr-utils.js';
+import { QRResourceStore, RESOURCE_SCHEME } from './resource-store.js';
+import { parseImageData, ImageInput } from './decode-pipeline.js';
+import { planCapacity, LevelCapacity, DEFAULT_SCAN_DISTANCE_CM } from './capacity-planner.js';
+import { optimizeContent } from './content-optimizer.js';
+import { isFountainFrame } from './fountain.js';
+import { buildGS1DigitalLink } from './gs1-digital-link.js';
 import {
   QRConfigSchema,
   QRStyleSchema,
   VCardSchema,
   WiFiSchema,
   EventSchema,
+  EPCPaymentSchema,
+  EMVMerchantSchema,
+  CryptoPaymentSchema,
+  SMSSchema,
+  EmailSchema,
+  PhoneSchema,
+  GeoSchema,
+  MapLinkSchema,
+  GS1DigitalLinkSchema,
   QRAnalysisSchema,
+  QRAnalysis,
   BatchQRSchema,
+  StructuredAppendSchema,
+  AnimatedTransferSchema,
+  AnimatedTransferDecodeSchema,
   QRValidationError,
   QRGenerationError,
   QRAnalysisError,
+  QRGenerationResult,
+  QRLocation,
+  QRStyle,
+  ErrorCorrectionLevel,
+  StructuredAppendSet,
+  FountainTransfer,
+  EMVDataObject,
+  ParsedPayload,
+  PayloadType,
 } from './types.js';
 import fs from 'fs-extra';
 import path from 'path';
 import chalk from 'chalk';
 
+interface ServerOptions {
+  /** Attach the generated code to tool results as MCP image content */
+  returnImage: boolean;
+  /** Write generated codes to QR_OUTPUT_DIR */
+  saveToFile: boolean;
+}
+
+// Per-call output controls shared by every generation tool
+const OUTPUT_PROPERTIES = {
+  returnImage: {
+    type: 'boolean',
+    description: 'Return the QR code inline as base64 image content (default: server setting QR_RETURN_IMAGE)',
+  },
+  saveToFile: {
+    type: 'boolean',
+    description: 'Write the QR code to the server output directory (default: server setting QR_SAVE_TO_FILE)',
+  },
+};
+
+// Explicit encoding segments, as returned by optimize_qr_content
+const SEGMENTS_PROPERTY = {
+  segments: {
+    type: 'array',
+    description: 'Encode with exactly these segments (from optimize_qr_content); together they must spell out the content',
+    items: {
+      type: 'object',
+      properties: {
+        mode: { type: 'string', enum: ['numeric', 'alphanumeric', 'byte', 'kanji'] },
+        data: { type: 'string' },
+      },
+      required: ['mode', 'data'],
+    },
+  },
+};
+
+// Generator tools whose arguments match the fields of a parsed payload
+const PAYLOAD_GENERATORS: Partial<Record<PayloadType, string>> = {
+  wifi: 'generate_wifi_qr',
+  vcard: 'generate_vcard_qr',
+  mecard: 'generate_vcard_qr',
+  event: 'generate_event_qr',
+  email: 'generate_email_qr',
+  phone: 'generate_phone_qr',
+  sms: 'generate_sms_qr',
+  geo: 'generate_geo_qr',
+  epc: 'generate_payment_epc_qr',
+  emv: 'generate_payment_emv_qr',
+  crypto: 'generate_crypto_payment_qr',
+  gs1: 'generate_gs1_digital_link_qr',
+};
+
 class EnhancedQRCodeMCPServer {
   private server: Server;
   private qrCode: QRCodeEnhanced;
+  private options: ServerOptions;
+
+  constructor(options: Partial<ServerOptions> = {}) {
+    this.options = {
+      returnImage: process.env.QR_RETURN_IMAGE === 'true',
+      saveToFile: process.env.QR_SAVE_TO_FILE !== 'false',
+      ...options,
+    };
 
-  constructor() {
     this.server = new Server(
       {
         name: 'enhanced-qrcode-server',
@@ -47,6 +135,7 @@ class EnhancedQRCodeMCPServer {
       {
         capabilities: {
           tools: {},
+          resources: {},
         },
       }
     );
@@ -63,6 +152,70 @@ class EnhancedQRCodeMCPServer {
       };
     });
 
+    // List generated QR codes as resources
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return {
+        resources: this.qrCode.listResources().flatMap(resource => [
+          {
+            uri: resource.uri,
+            name: resource.name,
+            mimeType: resource.mimeType,
+            description: `Generated ${resource.createdAt}`,
+          },
+          {
+            uri: `${resource.uri}/metadata`,
+            name: `${resource.name} (metadata)`,
+            mimeType: 'application/json',
+            description: 'Encoded content, configuration and style',
+          },
+        ]),
+      };
+    });
+
+    // Read a generated QR code or its metadata
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const parsed = QRResourceStore.parseUri(uri);
+      const resource = parsed && this.qrCode.getResource(parsed.id);
+      
+      if (!parsed || !resource) {
+        throw new QRValidationError(`Unknown resource: ${uri}`);
+      }
+
+      if (parsed.metadata) {
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: 'application/json',
+              text: JSON.stringify({
+                id: resource.id,
+                uri: resource.uri,
+                format: resource.format,
+                mimeType: resource.mimeType,
+                size: resource.data.length,
+                content: resource.content,
+                config: resource.config,
+                style: resource.style,
+                filePath: resource.filePath,
+                createdAt: resource.createdAt,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: resource.mimeType,
+            blob: resource.data.toString('base64'),
+          },
+        ],
+      };
+    });
+
     // Handle tool calls
     this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
@@ -80,6 +233,12 @@ class EnhancedQRCodeMCPServer {
           case 'generate_qr_batch':
             return await this.handleGenerateBatch(args);
 
+          case 'generate_qr_structured_append':
+            return await this.handleGenerateStructuredAppend(args);
+
+          case 'generate_qr_animation':
+            return await this.handleGenerateAnimation(args);
+
           // Specialized QR code types
           case 'generate_vcard_qr':
             return await this.handleGenerateVCard(args);
@@ -90,10 +249,40 @@ class EnhancedQRCodeMCPServer {
           case 'generate_event_qr':
             return await this.handleGenerateEvent(args);
 
+          case 'generate_sms_qr':
+            return await this.handleGenerateSMS(args);
+
+          case 'generate_email_qr':
+            return await this.handleGenerateEmail(args);
+
+          case 'generate_phone_qr':
+            return await this.handleGeneratePhone(args);
+
+          case 'generate_geo_qr':
+            return await this.handleGenerateGeo(args);
+
+          case 'generate_map_link_qr':
+            return await this.handleGenerateMapLink(args);
+
+          case 'generate_gs1_digital_link_qr':
+            return await this.handleGenerateGS1DigitalLink(args);
+
+          case 'generate_payment_epc_qr':
+            return await this.handleGeneratePaymentEPC(args);
+
+          case 'generate_payment_emv_qr':
+            return await this.handleGeneratePaymentEMV(args);
+
+          case 'generate_crypto_payment_qr':
+            return await this.handleGenerateCryptoPayment(args);
+
           // Analysis and processing
           case 'decode_qr_image':
             return await this.handleDecodeQR(args);
 
+          case 'decode_qr_animation':
+            return await this.handleDecodeAnimation(args);
+
           case 'analyze_qr_quality':
             return await this.handleAnalyzeQuality(args);
 
@@ -113,6 +302,9 @@ class EnhancedQRCodeMCPServer {
           case 'validate_qr_content':
             return await this.handleValidateContent(args);
 
+          case 'delete_qr_resource':
+            return await this.handleDeleteResource(args);
+
           default:
             throw new Error(`Unknown tool: ${name}`);
         }
@@ -166,10 +358,28 @@ class EnhancedQRCodeMCPServer {
             },
             format: {
               type: 'string',
-              enum: ['png', 'svg', 'pdf', 'jpeg'],
+              enum: ['png', 'svg', 'pdf', 'jpeg', 'webp'],
               description: 'Output format (default: png)',
               default: 'png',
             },
+            pageSize: {
+              type: 'string',
+              enum: ['fit', 'A4', 'A5', 'letter', 'legal'],
+              description: 'PDF page size; "fit" makes the page the size of the code (default: fit). Named pages must be at least as wide as size, in points',
+              default: 'fit',
+            },
+            quality: {
+              type: 'number',
+              description: 'JPEG/WebP quality 1-100 (default: 92 for JPEG, 90 for WebP; 100 makes WebP lossless)',
+            },
+            chromaSubsampling: {
+              type: 'string',
+              enum: ['4:4:4', '4:2:0'],
+              description: 'JPEG chroma subsampling; 4:4:4 keeps colored modules crisp (default: 4:4:4)',
+              default: '4:4:4',
+            },
+            ...SEGMENTS_PROPERTY,
+            ...OUTPUT_PROPERTIES,
           },
           required: ['content'],
         },
@@ -220,6 +430,44 @@ class EnhancedQRCodeMCPServer {
                   description: 'Style of QR code dots',
                   default: 'square',
                 },
+                gradientStart: {
+                  type: 'string',
+                  description: 'Gradient start color for the modules (hex format)',
+                },
+                gradientEnd: {
+                  type: 'string',
+                  description: 'Gradient end color for the modules (hex format)',
+                },
+                gradientType: {
+                  type: 'string',
+                  enum: ['linear', 'radial'],
+                  description: 'Gradient type when both gradient colors are set',
+                  default: 'linear',
+                },
+                eyeFrameShape: {
+                  type: 'string',
+                  enum: ['square', 'rounded', 'circle', 'leaf'],
+                  description: 'Shape of the outer ring of the three position markers (eyes)',
+                },
+                eyeBallShape: {
+                  type: 'string',
+                  enum: ['square', 'rounded', 'circle', 'leaf'],
+                  description: 'Shape of the centre of the position markers',
+                },
+                eyeFrameColor: {
+                  type: 'string',
+                  description: 'Color of the eye frames (hex format, defaults to the module color)',
+                },
+                eyeBallColor: {
+                  type: 'string',
+                  description: 'Color of the eye centres (hex format, defaults to the eye frame color)',
+                },
+                verifyScan: {
+                  type: 'string',
+                  enum: ['strict', 'report', 'off'],
+                  description: 'Decode the finished image and fail (strict) or report (report) when it does not scan back to the content',
+                  default: 'report',
+                },
                 borderWidth: {
                   type: 'number',
                   description: 'Width of border around QR code',
@@ -245,11 +493,24 @@ class EnhancedQRCodeMCPServer {
                 },
                 format: {
                   type: 'string',
-                  enum: ['png', 'svg', 'pdf', 'jpeg'],
+                  enum: ['png', 'svg', 'pdf', 'jpeg', 'webp'],
                   default: 'png',
                 },
+                pageSize: {
+                  type: 'string',
+                  enum: ['fit', 'A4', 'A5', 'letter', 'legal'],
+                  default: 'fit',
+                },
+                quality: { type: 'number', minimum: 1, maximum: 100 },
+                chromaSubsampling: {
+                  type: 'string',
+                  enum: ['4:4:4', '4:2:0'],
+                  default: '4:4:4',
+                },
+                ...SEGMENTS_PROPERTY,
               },
             },
+            ...OUTPUT_PROPERTIES,
           },
           required: ['content'],
         },
@@ -258,21 +519,66 @@ class EnhancedQRCodeMCPServer {
       // vCard QR code
       {
         name: 'generate_vcard_qr',
-        description: 'Generate a QR code containing vCard contact information',
+        description: 'Generate a QR code containing contact information as a vCard 3.0/4.0 (escaped, CRLF, folded lines) or a shorter MECARD. Optional fields are left out, and reported, when the card would not fit at the error correction level.',
         inputSchema: {
           type: 'object',
           properties: {
             firstName: { type: 'string', description: 'First name' },
             lastName: { type: 'string', description: 'Last name' },
+            middleName: { type: 'string', description: 'Middle name' },
+            prefix: { type: 'string', description: 'Honorific prefix, e.g. Dr.' },
+            suffix: { type: 'string', description: 'Honorific suffix, e.g. Jr.' },
             organization: { type: 'string', description: 'Organization/Company' },
+            department: { type: 'string', description: 'Department within the organization' },
             title: { type: 'string', description: 'Job title' },
             phone: { type: 'string', description: 'Phone number' },
+            phones: {
+              type: 'array',
+              description: 'Several phone numbers, each with an optional type',
+              items: {
+                type: 'object',
+                properties: {
+                  number: { type: 'string' },
+                  type: { type: 'string', enum: ['cell', 'work', 'home', 'fax', 'pager'] },
+                },
+                required: ['number'],
+              },
+            },
             email: { type: 'string', description: 'Email address' },
+            emails: {
+              type: 'array',
+              description: 'Several email addresses, each with an optional type',
+              items: {
+                type: 'object',
+                properties: {
+                  address: { type: 'string' },
+                  type: { type: 'string', enum: ['work', 'home'] },
+                },
+                required: ['address'],
+              },
+            },
             website: { type: 'string', description: 'Website URL' },
+            websites: { type: 'array', items: { type: 'string' }, description: 'Several website URLs' },
+            social: {
+              type: 'array',
+              description: 'Social profiles (vCard only)',
+              items: {
+                type: 'object',
+                properties: {
+                  network: { type: 'string', description: 'e.g. linkedin, github, x' },
+                  url: { type: 'string', description: 'Profile URL' },
+                },
+                required: ['network', 'url'],
+              },
+            },
+            photoUrl: { type: 'string', description: 'Photo URL (vCard only)' },
+            note: { type: 'string', description: 'Free-text note' },
+            birthday: { type: 'string', description: 'Birthday (YYYY-MM-DD)' },
             address: {
               type: 'object',
               description: 'Address information',
               properties: {
+                type: { type: 'string', enum: ['work', 'home'] },
                 street: { type: 'string' },
                 city: { type: 'string' },
                 state: { type: 'string' },
@@ -280,14 +586,23 @@ class EnhancedQRCodeMCPServer {
                 country: { type: 'string' },
               },
             },
+            version: { type: 'string', enum: ['3.0', '4.0'], description: 'vCard version', default: '3.0' },
+            cardFormat: {
+              type: 'string',
+              enum: ['vcard', 'mecard'],
+              description: 'vCard, or the shorter MECARD without department, photo and social profiles',
+              default: 'vcard',
+            },
             config: {
               type: 'object',
               description: 'QR code configuration',
               properties: {
                 size: { type: 'number', default: 300 },
                 format: { type: 'string', enum: ['png', 'svg'], default: 'png' },
+                errorCorrectionLevel: { type: 'string', enum: ['L', 'M', 'Q', 'H'], default: 'M' },
               },
             },
+            ...OUTPUT_PROPERTIES,
           },
           required: ['firstName', 'lastName'],
         },
@@ -296,16 +611,21 @@ class EnhancedQRCodeMCPServer {
       // WiFi QR code
       {
         name: 'generate_wifi_qr',
-        description: 'Generate a QR code for WiFi network credentials',
+        description: 'Generate a QR code for WiFi network credentials, including WPA2/WPA3-Enterprise (802.1X) networks and WPA3 transition disable and SAE-PK parameters. Special characters are escaped.',
         inputSchema: {
           type: 'object',
           properties: {
             ssid: { type: 'string', description: 'WiFi network name' },
-            password: { type: 'string', description: 'WiFi password' },
+            ssidIsHex: {
+              type: 'boolean',
+              description: 'The SSID is given as hex octets, for network names that are not UTF-8',
+              default: false,
+            },
+            password: { type: 'string', description: 'WiFi password (EAP password for enterprise networks)' },
             security: {
               type: 'string',
-              enum: ['WEP', 'WPA', 'WPA2', 'WPA3', 'nopass'],
-              description: 'Security type',
+              enum: ['WEP', 'WPA', 'WPA2', 'WPA3', 'WPA2-EAP', 'WPA3-EAP', 'nopass'],
+              description: 'Security type; WPA2-EAP and WPA3-EAP are enterprise networks',
               default: 'WPA2',
             },
             hidden: {
@@ -313,6 +633,23 @@ class EnhancedQRCodeMCPServer {
               description: 'Whether the network is hidden',
               default: false,
             },
+            eapMethod: {
+              type: 'string',
+              enum: ['PEAP', 'TTLS', 'TLS', 'PWD', 'SIM', 'AKA', 'AKA_PRIME'],
+              description: 'EAP method (enterprise networks, required)',
+            },
+            phase2: {
+              type: 'string',
+              enum: ['MSCHAPV2', 'MSCHAP', 'GTC', 'PAP'],
+              description: 'Phase 2 authentication for PEAP and TTLS',
+            },
+            identity: { type: 'string', description: 'EAP identity (enterprise networks)' },
+            anonymousIdentity: { type: 'string', description: 'EAP anonymous outer identity (enterprise networks)' },
+            transitionDisable: {
+              type: 'number',
+              description: 'WPA3 transition disable bitmap: 1 WPA3-Personal, 2 SAE-PK, 4 WPA3-Enterprise, 8 Enhanced Open',
+            },
+            publicKey: { type: 'string', description: 'SAE-PK public key, base64 DER (WPA3 only)' },
             config: {
               type: 'object',
               description: 'QR code configuration',
@@ -321,6 +658,7 @@ class EnhancedQRCodeMCPServer {
                 format: { type: 'string', enum: ['png', 'svg'], default: 'png' },
               },
             },
+            ...OUTPUT_PROPERTIES,
           },
           required: ['ssid'],
         },
@@ -329,16 +667,72 @@ class EnhancedQRCodeMCPServer {
       // Event QR code
       {
         name: 'generate_event_qr',
-        description: 'Generate a QR code for calendar event',
+        description: 'Generate a QR code for a calendar event: an iCalendar VCALENDAR with time zone, recurrence, reminders, organizer and attendees',
         inputSchema: {
           type: 'object',
           properties: {
             title: { type: 'string', description: 'Event title' },
             description: { type: 'string', description: 'Event description' },
             location: { type: 'string', description: 'Event location' },
-            startDate: { type: 'string', description: 'Start date (ISO format)' },
-            endDate: { type: 'string', description: 'End date (ISO format)' },
+            startDate: {
+              type: 'string',
+              description: 'Start (ISO date or date-time). Times without an offset are local to timeZone, or floating without one',
+            },
+            endDate: { type: 'string', description: 'End (ISO date or date-time); for all-day events the last day, inclusive' },
             allDay: { type: 'boolean', description: 'All day event', default: false },
+            timeZone: { type: 'string', description: 'IANA time zone, e.g. Europe/Berlin' },
+            uid: { type: 'string', description: 'Stable event UID, so rescanning updates the same event (generated when omitted)' },
+            url: { type: 'string', description: 'Event URL, e.g. a meeting link' },
+            organizer: {
+              type: 'object',
+              properties: {
+                email: { type: 'string' },
+                name: { type: 'string' },
+              },
+              required: ['email'],
+            },
+            attendees: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  email: { type: 'string' },
+                  name: { type: 'string' },
+                  role: { type: 'string', enum: ['required', 'optional', 'chair'], default: 'required' },
+                  rsvp: { type: 'boolean', description: 'Ask for a reply', default: false },
+                },
+                required: ['email'],
+              },
+            },
+            recurrence: {
+              type: 'object',
+              description: 'Repeat rule (RRULE)',
+              properties: {
+                frequency: { type: 'string', enum: ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] },
+                interval: { type: 'number', description: 'Every n days/weeks/months/years' },
+                count: { type: 'number', description: 'Number of occurrences' },
+                until: { type: 'string', description: 'Last occurrence (ISO date or date-time), instead of count' },
+                byDay: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Weekdays such as MO, WE; 1MO or -1FR for monthly rules',
+                },
+                byMonthDay: { type: 'array', items: { type: 'number' }, description: 'Days of the month, -1 for the last' },
+              },
+              required: ['frequency'],
+            },
+            alarms: {
+              type: 'array',
+              description: 'Reminders',
+              items: {
+                type: 'object',
+                properties: {
+                  minutesBefore: { type: 'number' },
+                  description: { type: 'string', description: 'Reminder text (default: event title)' },
+                },
+                required: ['minutesBefore'],
+              },
+            },
             config: {
               type: 'object',
               description: 'QR code configuration',
@@ -347,267 +741,1128 @@ class EnhancedQRCodeMCPServer {
                 format: { type: 'string', enum: ['png', 'svg'], default: 'png' },
               },
             },
+            ...OUTPUT_PROPERTIES,
           },
           required: ['title', 'startDate'],
         },
       },
 
-      // QR code analysis
+      // Messaging and location QR codes
       {
-        name: 'decode_qr_image',
-        description: 'Decode QR code from an image file',
+        name: 'generate_sms_qr',
+        description: 'Generate a QR code that opens a text message with the recipient and body filled in',
         inputSchema: {
           type: 'object',
           properties: {
-            imagePath: {
+            number: { type: 'string', description: 'Recipient: an international number, a national number with countryCode, or a short code' },
+            countryCode: { type: 'string', description: 'Country calling code (e.g. 49) to normalise a national number to E.164' },
+            message: { type: 'string', description: 'Prefilled message body' },
+            format: {
               type: 'string',
-              description: 'Path to the image file containing QR code',
+              enum: ['smsto', 'sms'],
+              description: 'SMSTO:number:message, or an RFC 5724 sms: URI',
+              default: 'smsto',
             },
-            outputFormat: {
-              type: 'string',
-              enum: ['json', 'text'],
-              description: 'Output format for decoded content',
-              default: 'json',
+            config: {
+              type: 'object',
+              description: 'QR code configuration',
+              properties: {
+                size: { type: 'number', default: 300 },
+                format: { type: 'string', enum: ['png', 'svg'], default: 'png' },
+              },
             },
+            ...OUTPUT_PROPERTIES,
           },
-          required: ['imagePath'],
+          required: ['number'],
         },
       },
 
-      // Quality analysis
       {
-        name: 'analyze_qr_quality',
-        description: 'Analyze QR code quality and provide optimization recommendations',
+        name: 'generate_email_qr',
+        description: 'Generate a QR code that opens an e-mail with recipients, subject and body filled in (RFC 6068 mailto: URI, percent-encoded)',
         inputSchema: {
           type: 'object',
           properties: {
-            imagePath: {
+            to: { type: 'array', items: { type: 'string' }, description: 'Recipient addresses' },
+            cc: { type: 'array', items: { type: 'string' }, description: 'Copy addresses' },
+            bcc: { type: 'array', items: { type: 'string' }, description: 'Blind copy addresses' },
+            subject: { type: 'string', description: 'Subject' },
+            body: { type: 'string', description: 'Message body' },
+            format: {
               type: 'string',
-              description: 'Path to the QR code image to analyze',
+              enum: ['mailto', 'matmsg'],
+              description: 'mailto: URI, or MATMSG (one recipient, no cc/bcc)',
+              default: 'mailto',
+            },
+            config: {
+              type: 'object',
+              description: 'QR code configuration',
+              properties: {
+                size: { type: 'number', default: 300 },
+                format: { type: 'string', enum: ['png', 'svg'], default: 'png' },
+              },
             },
+            ...OUTPUT_PROPERTIES,
           },
-          required: ['imagePath'],
+          required: ['to'],
         },
       },
 
-      // Templates
       {
-        name: 'list_qr_templates',
-        description: 'List available QR code templates',
+        name: 'generate_phone_qr',
+        description: 'Generate a QR code that dials a phone number, normalised to E.164 (tel:+...)',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            number: { type: 'string', description: 'Phone number; spaces, dashes and brackets are removed' },
+            countryCode: { type: 'string', description: 'Country calling code (e.g. 44), needed when the number has no + or 00 prefix' },
+            extension: { type: 'string', description: 'Extension digits' },
+            config: {
+              type: 'object',
+              description: 'QR code configuration',
+              properties: {
+                size: { type: 'number', default: 300 },
+                format: { type: 'string', enum: ['png', 'svg'], default: 'png' },
+              },
+            },
+            ...OUTPUT_PROPERTIES,
+          },
+          required: ['number'],
         },
       },
 
       {
-        name: 'generate_qr_from_template',
-        description: 'Generate QR code using a predefined template',
+        name: 'generate_geo_qr',
+        description: 'Generate a QR code for a location as an RFC 5870 geo: URI that phones open in their map app',
         inputSchema: {
           type: 'object',
           properties: {
-            content: { type: 'string', description: 'Content to encode' },
-            templateName: { type: 'string', description: 'Template name to use' },
-            overrides: {
+            latitude: { type: 'number', description: 'Latitude in degrees (-90 to 90)' },
+            longitude: { type: 'number', description: 'Longitude in degrees (-180 to 180)' },
+            altitude: { type: 'number', description: 'Altitude in metres' },
+            uncertainty: { type: 'number', description: 'Uncertainty in metres' },
+            label: { type: 'string', description: 'Name of the pin' },
+            query: { type: 'string', description: 'Search term to open instead of the point, e.g. an address' },
+            config: {
               type: 'object',
-              description: 'Style and config overrides',
+              description: 'QR code configuration',
+              properties: {
+                size: { type: 'number', default: 300 },
+                format: { type: 'string', enum: ['png', 'svg'], default: 'png' },
+              },
             },
+            ...OUTPUT_PROPERTIES,
           },
-          required: ['content', 'templateName'],
+          required: ['latitude', 'longitude'],
         },
       },
 
-      // Statistics
       {
-        name: 'get_qr_statistics',
-        description: 'Get usage statistics and performance metrics',
+        name: 'generate_map_link_qr',
+        description: 'Generate a QR code with a Google Maps, Apple Maps or OpenStreetMap link to a place, a search or directions',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            provider: { type: 'string', enum: ['google', 'apple', 'osm'], default: 'google' },
+            latitude: { type: 'number', description: 'Latitude in degrees' },
+            longitude: { type: 'number', description: 'Longitude in degrees' },
+            query: { type: 'string', description: 'Place or address to search; with coordinates, the pin label (Apple Maps)' },
+            zoom: { type: 'number', description: 'Zoom level, 1 to 20' },
+            directions: {
+              type: 'string',
+              enum: ['driving', 'walking', 'transit', 'bicycling'],
+              description: 'Open directions to the place with this travel mode',
+            },
+            config: {
+              type: 'object',
+              description: 'QR code configuration',
+              properties: {
+                size: { type: 'number', default: 300 },
+                format: { type: 'string', enum: ['png', 'svg'], default: 'png' },
+              },
+            },
+            ...OUTPUT_PROPERTIES,
+          },
         },
       },
 
-      // Content validation
       {
-        name: 'validate_qr_content',
-        description: 'Validate content before QR code generation',
+        name: 'generate_gs1_digital_link_qr',
+        description: 'Generate a GS1 Digital Link QR code for product packaging: GTIN (or another GS1 key) with batch, serial, expiry and other application identifiers as a web URI. AI formats and mod-10 check digits are validated, GTINs are written as GTIN-14, and qualifiers go in the path in the order the standard fixes, or the whole path is compressed.',
         inputSchema: {
           type: 'object',
           properties: {
-            content: { type: 'string', description: 'Content to validate' },
-            contentType: {
+            domain: {
               type: 'string',
-              enum: ['url', 'text', 'email', 'phone', 'wifi', 'vcard'],
-              description: 'Expected content type',
-              default: 'text',
+              description: 'Resolver URL, optionally with a path prefix (e.g. https://brand.example/p)',
+              default: 'https://id.gs1.org',
+            },
+            gtin: { type: 'string', description: 'GTIN-8, -12, -13 or -14 (AI 01), with its check digit' },
+            batch: { type: 'string', description: 'Batch/lot number (AI 10)' },
+            serial: { type: 'string', description: 'Serial number (AI 21)' },
+            expiry: { type: 'string', description: 'Expiry date (AI 17), YYYY-MM-DD or YYMMDD' },
+            ais: {
+              type: 'object',
+              additionalProperties: { type: 'string' },
+              description: 'Other application identifiers by AI, e.g. {"3103": "000500", "15": "271231"}, or a primary key other than GTIN such as {"00": "<SSCC>"}',
             },
+            compressed: {
+              type: 'boolean',
+              description: 'Compress every AI into one binary path segment for a smaller code (GS1 Digital Link compression)',
+              default: false,
+            },
+            config: {
+              type: 'object',
+              description: 'QR code configuration',
+              properties: {
+                size: { type: 'number', default: 300 },
+                format: { type: 'string', enum: ['png', 'svg'], default: 'png' },
+              },
+            },
+            ...OUTPUT_PROPERTIES,
           },
-          required: ['content'],
         },
       },
 
-      // Batch generation
+      // Payment QR code
       {
-        name: 'generate_qr_batch',
-        description: 'Generate multiple QR codes in batch',
+        name: 'generate_payment_epc_qr',
+        description: 'Generate an EPC/SEPA credit transfer QR code (GiroCode, EPC069-12) that banking apps scan to prefill a transfer. IBAN and creditor reference check digits are verified; error correction is fixed at level M.',
         inputSchema: {
           type: 'object',
           properties: {
-            items: {
-              type: 'array',
-              description: 'Array of QR code items to generate',
-              items: {
-                type: 'object',
-                properties: {
-                  content: { type: 'string' },
-                  filename: { type: 'string' },
-                  style: { type: 'object' },
-                },
-                required: ['content'],
-              },
-            },
-            outputDir: {
+            name: { type: 'string', description: 'Beneficiary name (max 70 characters)' },
+            iban: { type: 'string', description: 'Beneficiary IBAN, spaces allowed' },
+            bic: { type: 'string', description: 'Beneficiary BIC (8 or 11 characters); optional in version 002 within the EEA' },
+            amount: { type: 'number', description: 'Amount in EUR, 0.01 to 999999999.99' },
+            purpose: { type: 'string', description: 'Four-character ISO 20022 purpose code, e.g. GDDS' },
+            reference: { type: 'string', description: 'ISO 11649 structured creditor reference (RF...)' },
+            remittanceText: { type: 'string', description: 'Unstructured remittance text (max 140 characters), instead of reference' },
+            information: { type: 'string', description: 'Beneficiary to originator information (max 70 characters)' },
+            identification: {
               type: 'string',
-              description: 'Output directory for generated files',
-              default: './qr-codes',
+              enum: ['SCT', 'INST'],
+              description: 'SEPA credit transfer or SEPA instant credit transfer',
+              default: 'SCT',
             },
-            format: {
+            version: {
               type: 'string',
-              enum: ['png', 'svg', 'pdf'],
-              description: 'Output format for all QR codes',
-              default: 'png',
+              enum: ['001', '002'],
+              description: 'EPC QR version; 001 requires the BIC',
+              default: '002',
+            },
+            config: {
+              type: 'object',
+              description: 'QR code configuration',
+              properties: {
+                size: { type: 'number', default: 300 },
+                format: { type: 'string', enum: ['png', 'svg', 'pdf'], default: 'png' },
+              },
             },
+            ...OUTPUT_PROPERTIES,
           },
-          required: ['items'],
+          required: ['name', 'iban'],
         },
       },
 
-      // Content optimization
       {
-        name: 'optimize_qr_content',
-        description: 'Optimize content for better QR code generation',
+        name: 'generate_payment_emv_qr',
+        description: 'Generate an EMVCo merchant-presented payment QR code (PIX, PromptPay, PayNow, SGQR, DuitNow, UPI-style schemes): TLV fields with a CRC-16/CCITT checksum. decode_qr_image checks the CRC and names every field of such codes.',
         inputSchema: {
           type: 'object',
           properties: {
-            content: { type: 'string', description: 'Content to optimize' },
-            targetSize: {
-              type: 'number',
-              description: 'Target QR code size for optimization',
-              default: 300,
-            },
-          },
+            merchantAccounts: {
+              type: 'array',
+              description: 'Merchant account information: card network tags 02-25 take a value; scheme templates 26-51 take the scheme identifier and its sub-fields, e.g. { "tag": 26, "globallyUniqueIdentifier": "br.gov.bcb.pix", "fields": { "01": "<PIX key>" } }',
+              items: {
+                type: 'object',
+                properties: {
+                  tag: { type: 'number', description: 'Field tag, 2-51' },
+                  value: { type: 'string', description: 'Value of tags 02-25' },
+                  globallyUniqueIdentifier: { type: 'string', description: 'Scheme identifier (sub-field 00) of tags 26-51' },
+                  fields: {
+                    type: 'object',
+                    description: 'Scheme specific sub-fields of tags 26-51, keyed by two-digit tag',
+                    additionalProperties: { type: 'string' },
+                  },
+                },
+                required: ['tag'],
+              },
+            },
+            merchantCategoryCode: { type: 'string', description: 'ISO 18245 merchant category code (default: 0000)', default: '0000' },
+            currency: { type: 'string', description: 'ISO 4217 currency, numeric (986) or alphabetic (BRL)' },
+            amount: { type: 'number', description: 'Transaction amount; omitted, the payer enters it' },
+            tip: {
+              type: 'object',
+              description: 'Tip or convenience fee',
+              properties: {
+                type: { type: 'string', enum: ['prompt', 'fixed', 'percentage'] },
+                value: { type: 'number', description: 'Fixed fee or percentage' },
+              },
+              required: ['type'],
+            },
+            countryCode: { type: 'string', description: 'ISO 3166-1 alpha-2 country code of the merchant' },
+            merchantName: { type: 'string', description: 'Merchant name (max 25 characters)' },
+            merchantCity: { type: 'string', description: 'Merchant city (max 15 characters)' },
+            postalCode: { type: 'string', description: 'Merchant postal code' },
+            pointOfInitiation: {
+              type: 'string',
+              enum: ['static', 'dynamic'],
+              description: 'static codes are reused; dynamic codes are for one payment',
+            },
+            additionalData: {
+              type: 'object',
+              description: 'Additional data fields (max 25 characters each; "***" asks the payer to enter the value)',
+              properties: {
+                billNumber: { type: 'string' },
+                mobileNumber: { type: 'string' },
+                storeLabel: { type: 'string' },
+                loyaltyNumber: { type: 'string' },
+                referenceLabel: { type: 'string', description: 'Reference, e.g. the PIX transaction id' },
+                customerLabel: { type: 'string' },
+                terminalLabel: { type: 'string' },
+                purpose: { type: 'string' },
+                consumerDataRequest: { type: 'string', description: 'Payer details to collect: any of A (address), M (mobile), E (e-mail)' },
+              },
+            },
+            alternateLanguage: {
+              type: 'object',
+              description: 'Merchant name and city in another language',
+              properties: {
+                languagePreference: { type: 'string', description: 'ISO 639-1 language code' },
+                merchantName: { type: 'string' },
+                merchantCity: { type: 'string' },
+              },
+              required: ['languagePreference', 'merchantName'],
+            },
+            config: {
+              type: 'object',
+              description: 'QR code configuration',
+              properties: {
+                size: { type: 'number', default: 300 },
+                format: { type: 'string', enum: ['png', 'svg', 'pdf'], default: 'png' },
+                errorCorrectionLevel: { type: 'string', enum: ['L', 'M', 'Q', 'H'], default: 'M' },
+              },
+            },
+            ...OUTPUT_PROPERTIES,
+          },
+          required: ['merchantAccounts', 'currency', 'countryCode', 'merchantName', 'merchantCity'],
+        },
+      },
+
+      {
+        name: 'generate_crypto_payment_qr',
+        description: 'Generate a cryptocurrency payment QR code: a Bitcoin BIP 21 URI (amount, label, message, Lightning invoice fallback) or an Ethereum EIP-681 URI (chain id, value in wei, ERC-20 token transfer). Address checksums (Base58Check, bech32/bech32m, EIP-55) are verified before encoding.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            scheme: { type: 'string', enum: ['bitcoin', 'ethereum'], description: 'Payment URI scheme' },
+            address: { type: 'string', description: 'Recipient address' },
+            amount: { type: 'number', description: 'Bitcoin: amount in BTC (at most 8 decimals)' },
+            label: { type: 'string', description: 'Bitcoin: recipient name shown by the wallet' },
+            message: { type: 'string', description: 'Bitcoin: note describing the payment' },
+            lightning: { type: 'string', description: 'Bitcoin: BOLT 11 invoice that Lightning wallets pay instead' },
+            chainId: { type: 'number', description: 'Ethereum: chain id (1 mainnet, 137 Polygon, ...)' },
+            value: { type: 'string', description: 'Ethereum: ether to send, as an integer amount of wei' },
+            token: {
+              type: 'object',
+              description: 'Ethereum: ERC-20 token transfer instead of ether',
+              properties: {
+                contract: { type: 'string', description: 'Token contract address' },
+                amount: { type: 'string', description: 'Integer amount in the token\'s smallest unit' },
+              },
+              required: ['contract', 'amount'],
+            },
+            gasLimit: { type: 'string', description: 'Ethereum: suggested gas limit' },
+            config: {
+              type: 'object',
+              description: 'QR code configuration',
+              properties: {
+                size: { type: 'number', default: 300 },
+                format: { type: 'string', enum: ['png', 'svg'], default: 'png' },
+              },
+            },
+            ...OUTPUT_PROPERTIES,
+          },
+          required: ['scheme', 'address'],
+        },
+      },
+
+      // QR code analysis
+      {
+        name: 'decode_qr_image',
+        description: 'Decode QR code from an image (file or base64), or every QR code in it. Structured Append sets are reassembled from one image holding the whole set or from several images.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            imagePath: {
+              type: ['string', 'array'],
+              items: { type: 'string' },
+              description: 'Path to the image file containing QR code, or several paths decoded together (e.g. the symbols of a Structured Append set)',
+            },
+            imageData: {
+              type: ['string', 'array'],
+              items: { type: 'string' },
+              description: 'Image as base64 or a data: URL, or several of them, instead of imagePath (PNG, JPEG, WebP, GIF, TIFF, SVG...)',
+            },
+            outputFormat: {
+              type: 'string',
+              enum: ['json', 'text'],
+              description: 'Output format for decoded content',
+              default: 'json',
+            },
+            mode: {
+              type: 'string',
+              enum: ['single', 'all'],
+              description: 'Decode only the most prominent code, or every code in the image (e.g. a printed sheet)',
+              default: 'single',
+            },
+          },
+        },
+      },
+
+      // Quality analysis
+      {
+        name: 'analyze_qr_quality',
+        description: 'Measure QR code scannability (module size, quiet zone, contrast, module error rate, finder distortion) with recommendations',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            imagePath: {
+              type: 'string',
+              description: 'Path to the QR code image to analyze',
+            },
+            imageData: {
+              type: 'string',
+              description: 'Image as base64 or a data: URL, instead of imagePath',
+            },
+          },
+        },
+      },
+
+      // Templates
+      {
+        name: 'list_qr_templates',
+        description: 'List available QR code templates',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+
+      {
+        name: 'generate_qr_from_template',
+        description: 'Generate QR code using a predefined template',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            content: { type: 'string', description: 'Content to encode' },
+            templateName: { type: 'string', description: 'Template name to use' },
+            overrides: {
+              type: 'object',
+              description: 'Style and config overrides',
+            },
+            ...OUTPUT_PROPERTIES,
+          },
+          required: ['content', 'templateName'],
+        },
+      },
+
+      // Statistics
+      {
+        name: 'get_qr_statistics',
+        description: 'Get usage statistics and performance metrics',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+
+      // Content validation
+      {
+        name: 'validate_qr_content',
+        description: 'Validate content before QR code generation and plan its capacity: minimum version, module count, segment modes, remaining capacity per error correction level and the smallest printable size for a scanning distance',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            content: { type: 'string', description: 'Content to validate' },
+            contentType: {
+              type: 'string',
+              enum: ['url', 'text', 'email', 'phone', 'wifi', 'vcard'],
+              description: 'Expected content type',
+              default: 'text',
+            },
+            errorCorrectionLevel: {
+              type: 'string',
+              enum: ['L', 'M', 'Q', 'H'],
+              description: 'Error correction level the code will be generated with',
+              default: 'M',
+            },
+            scanDistance: {
+              type: 'number',
+              description: 'Expected scanning distance in centimetres, used for the minimum printed size',
+              default: DEFAULT_SCAN_DISTANCE_CM,
+            },
+          },
+          required: ['content'],
+        },
+      },
+
+      // Batch generation
+      {
+        name: 'generate_qr_batch',
+        description: 'Generate multiple QR codes in batch, from a list of contents and/or a serialised run of GS1 Digital Links',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            items: {
+              type: 'array',
+              description: 'Array of QR code items to generate',
+              items: {
+                type: 'object',
+                properties: {
+                  content: { type: 'string' },
+                  filename: { type: 'string' },
+                  style: { type: 'object' },
+                },
+                required: ['content'],
+              },
+            },
+            gs1Serials: {
+              type: 'object',
+              description: 'Serialised run of GS1 Digital Links: one code per serial number (AI 21), generated after the items without a decode check',
+              properties: {
+                link: { type: 'object', description: 'generate_gs1_digital_link_qr arguments without serial (or AI 21)' },
+                start: { type: 'number', description: 'First serial number', default: 1 },
+                count: { type: 'number', description: 'Number of codes (at most 1000)' },
+                width: { type: 'number', description: 'Zero-pad serial numbers to this many digits' },
+                prefix: { type: 'string', description: 'Text before each serial number', default: '' },
+              },
+              required: ['link', 'count'],
+            },
+            outputDir: {
+              type: 'string',
+              description: 'Output directory for generated files',
+              default: './qr-codes',
+            },
+            format: {
+              type: 'string',
+              enum: ['png', 'svg', 'pdf', 'jpeg', 'webp'],
+              description: 'Output format for all QR codes',
+              default: 'png',
+            },
+            ...OUTPUT_PROPERTIES,
+          },
+        },
+      },
+
+      // Structured Append
+      {
+        name: 'generate_qr_structured_append',
+        description: 'Split content too large for one QR code over up to 16 linked symbols (Structured Append) that scanners reassemble. Writes one file per symbol plus a sheet with the whole set; decode_qr_image puts the set back together.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            content: {
+              type: 'string',
+              description: 'Content to split over the set',
+            },
+            symbols: {
+              type: 'number',
+              description: 'Number of symbols (1-16); by default as few as fit maxVersion',
+            },
+            maxVersion: {
+              type: 'number',
+              description: 'Largest QR version each symbol may use (1-40); lower it for smaller, easier to scan symbols',
+              default: 40,
+            },
+            size: {
+              type: 'number',
+              description: 'Size of each symbol in pixels (default: 300)',
+              default: 300,
+            },
+            margin: {
+              type: 'number',
+              description: 'Margin around each symbol (default: 1)',
+              default: 1,
+            },
+            errorCorrectionLevel: {
+              type: 'string',
+              enum: ['L', 'M', 'Q', 'H'],
+              description: 'Error correction level of every symbol (default: M)',
+              default: 'M',
+            },
+            format: {
+              type: 'string',
+              enum: ['png', 'svg', 'pdf', 'jpeg', 'webp'],
+              description: 'Output format of the symbols and the sheet (default: png)',
+              default: 'png',
+            },
+            pageSize: {
+              type: 'string',
+              enum: ['fit', 'A4', 'A5', 'letter', 'legal'],
+              description: 'PDF page size of each symbol; the sheet page always fits the set (default: fit)',
+              default: 'fit',
+            },
+            quality: {
+              type: 'number',
+              description: 'JPEG/WebP quality 1-100',
+            },
+            foregroundColor: {
+              type: 'string',
+              description: 'Foreground color (hex format, e.g., #000000)',
+              default: '#000000',
+            },
+            backgroundColor: {
+              type: 'string',
+              description: 'Background color (hex format, e.g., #ffffff)',
+              default: '#ffffff',
+            },
+            dotStyle: {
+              type: 'string',
+              enum: ['square', 'round', 'diamond'],
+              description: 'Style of QR code dots',
+              default: 'square',
+            },
+            ...OUTPUT_PROPERTIES,
+          },
+          required: ['content'],
+        },
+      },
+
+      // Animated transfer
+      {
+        name: 'generate_qr_animation',
+        description: 'Send data too large for a few QR codes as an animated GIF/APNG of fountain-coded QR frames. Any large enough subset of the frames rebuilds the data, so a scanner can start anywhere and miss frames; decode_qr_animation reads it back.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            data: {
+              type: 'string',
+              description: 'Text to send (UTF-8)',
+            },
+            dataBase64: {
+              type: 'string',
+              description: 'Binary data to send, as base64, instead of data',
+            },
+            filePath: {
+              type: 'string',
+              description: 'File on the server to send, instead of data',
+            },
+            format: {
+              type: 'string',
+              enum: ['gif', 'apng'],
+              description: 'Animation format (default: gif)',
+              default: 'gif',
+            },
+            version: {
+              type: 'number',
+              description: 'QR version of every frame (1-40); larger versions carry more per frame but need a sharper camera (default: 10)',
+              default: 10,
+            },
+            errorCorrectionLevel: {
+              type: 'string',
+              enum: ['L', 'M', 'Q', 'H'],
+              description: 'Error correction level of every frame (default: M)',
+              default: 'M',
+            },
+            redundancy: {
+              type: 'number',
+              description: 'Extra frames as a share of the data blocks, e.g. 0.5 for 50% more frames than the minimum (default: 0.5)',
+              default: 0.5,
+            },
+            frameDelay: {
+              type: 'number',
+              description: 'Time each frame is shown, in milliseconds (default: 250)',
+              default: 250,
+            },
+            size: {
+              type: 'number',
+              description: 'Animation width and height in pixels, rounded down to whole pixels per module (default: 400)',
+              default: 400,
+            },
+            margin: {
+              type: 'number',
+              description: 'Margin around each frame in modules (default: 1)',
+              default: 1,
+            },
+            foregroundColor: {
+              type: 'string',
+              description: 'Foreground color (hex format, e.g., #000000)',
+              default: '#000000',
+            },
+            backgroundColor: {
+              type: 'string',
+              description: 'Background color (hex format, e.g., #ffffff)',
+              default: '#ffffff',
+            },
+            ...OUTPUT_PROPERTIES,
+          },
+        },
+      },
+
+      {
+        name: 'decode_qr_animation',
+        description: 'Rebuild data sent with generate_qr_animation from an animated GIF/APNG, still frames, or a mix of both. Frames may be missing, repeated or out of order; reports progress when too few were read.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            imagePath: {
+              type: ['string', 'array'],
+              items: { type: 'string' },
+              description: 'Path to the animation, or paths to several animations or frame images decoded together',
+            },
+            imageData: {
+              type: ['string', 'array'],
+              items: { type: 'string' },
+              description: 'Images as base64 or data: URLs, instead of imagePath',
+            },
+            outputPath: {
+              type: 'string',
+              description: 'Write the rebuilt data to this file',
+            },
+          },
+        },
+      },
+
+      // Content optimization
+      {
+        name: 'optimize_qr_content',
+        description: 'Optimize content for the smallest QR code: splits it into numeric, alphanumeric, byte and kanji segments, uppercases URL schemes and hosts where that helps, and optionally strips tracking parameters. Returns the segments for the generation tools.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            content: { type: 'string', description: 'Content to optimize' },
+            errorCorrectionLevel: {
+              type: 'string',
+              enum: ['L', 'M', 'Q', 'H'],
+              description: 'Error correction level the code will be generated with',
+              default: 'M',
+            },
+            stripTracking: {
+              type: 'boolean',
+              description: 'Remove utm_* and click identifier parameters (fbclid, gclid, ...) from URLs',
+              default: false,
+            },
+            targetSize: {
+              type: 'number',
+              description: 'Target QR code size in pixels, used to report the pixels per module',
+              default: 300,
+            },
+          },
           required: ['content'],
         },
-      },
-    ];
+      },
+
+      // Resource management
+      {
+        name: 'delete_qr_resource',
+        description: 'Remove a previously generated QR code (qr://<id>) from the server resources',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            uri: { type: 'string', description: 'Resource URI (qr://<id>) or bare id' },
+            deleteFile: {
+              type: 'boolean',
+              description: 'Also delete the file written to disk, if any',
+              default: false,
+            },
+          },
+          required: ['uri'],
+        },
+      },
+    ];
+  }
+
+  // Tool handlers
+
+  private async handleGenerateBasic(args: any) {
+    const validation = QRConfigSchema.safeParse(args);
+    if (!validation.success) {
+      throw new QRValidationError('Invalid basic QR configuration', validation.error);
+    }
+
+    const output = this.resolveOutputOptions(args);
+    const result = await this.qrCode.generateBasic(args.content, {
+      ...validation.data,
+      saveToFile: output.saveToFile,
+    });
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Basic QR code generated successfully!\n\n` +
+                `${this.formatLocation(result)}\n` +
+                `📏 Size: ${result.size} bytes\n` +
+                `🔧 Format: ${result.format}\n` +
+                `⏰ Generated: ${result.metadata?.generatedAt}`,
+        },
+        ...this.buildOutputContent(result, output),
+      ],
+    };
+  }
+
+  private async handleGenerateStyled(args: any) {
+    const output = this.resolveOutputOptions(args);
+    const result = await this.qrCode.generateStyled(
+      args.content,
+      args.style || {},
+      { ...args.config, saveToFile: output.saveToFile }
+    );
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🎨 Styled QR code generated successfully!\n\n` +
+                `${this.formatLocation(result)}\n` +
+                `📏 Size: ${result.size} bytes\n` +
+                `🔧 Format: ${result.format}\n` +
+                `⏰ Generated: ${result.metadata?.generatedAt}` +
+                this.formatStyledDetails(result),
+        },
+        ...this.buildOutputContent(result, output),
+      ],
+    };
+  }
+
+  private async handleGenerateVCard(args: any) {
+    const validation = VCardSchema.safeParse(args);
+    if (!validation.success) {
+      throw new QRValidationError('Invalid vCard data', validation.error);
+    }
+
+    const vcard = validation.data;
+    const output = this.resolveOutputOptions(args);
+    const result = await this.qrCode.generateVCard(vcard, {
+      ...args.config,
+      saveToFile: output.saveToFile,
+    });
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `👤 ${vcard.cardFormat === 'mecard' ? 'MECARD' : `vCard ${vcard.version}`} QR code generated successfully!\n\n` +
+                `${this.formatLocation(result)}\n` +
+                `👤 Contact: ${args.firstName} ${args.lastName}\n` +
+                `📏 Size: ${result.size} bytes` +
+                (result.droppedFields
+                  ? `\n✂️ Left out to fit the code or the format: ${result.droppedFields.join(', ')}`
+                  : ''),
+        },
+        ...this.buildOutputContent(result, output),
+      ],
+    };
+  }
+
+  private async handleGenerateWiFi(args: any) {
+    const validation = WiFiSchema.safeParse(args);
+    if (!validation.success) {
+      throw new QRValidationError('Invalid WiFi data', validation.error);
+    }
+
+    const wifi = validation.data;
+    const output = this.resolveOutputOptions(args);
+    const result = await this.qrCode.generateWiFi(wifi, {
+      ...args.config,
+      saveToFile: output.saveToFile,
+    });
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `📶 WiFi QR code generated successfully!\n\n` +
+                `${this.formatLocation(result)}\n` +
+                `📶 Network: ${wifi.ssid}${wifi.ssidIsHex ? ' (hex)' : ''}\n` +
+                `🔒 Security: ${wifi.security}${wifi.eapMethod ? ` (${[wifi.eapMethod, wifi.phase2].filter(Boolean).join('/')})` : ''}\n` +
+                `📏 Size: ${result.size} bytes`,
+        },
+        ...this.buildOutputContent(result, output),
+      ],
+    };
+  }
+
+  private async handleGenerateEvent(args: any) {
+    const validation = EventSchema.safeParse(args);
+    if (!validation.success) {
+      throw new QRValidationError('Invalid event data', validation.error);
+    }
+
+    const event = validation.data;
+    const output = this.resolveOutputOptions(args);
+    const result = await this.qrCode.generateEvent(event, {
+      ...args.config,
+      saveToFile: output.saveToFile,
+    });
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `📅 Event QR code generated successfully!\n\n` +
+                `${this.formatLocation(result)}\n` +
+                `📅 Event: ${event.title}\n` +
+                `🕐 Start: ${event.startDate}${event.timeZone && !event.allDay ? ` (${event.timeZone})` : ''}\n` +
+                (event.recurrence ? `🔁 Repeats: ${event.recurrence.frequency.toLowerCase()}\n` : '') +
+                `📏 Size: ${result.size} bytes`,
+        },
+        ...this.buildOutputContent(result, output),
+      ],
+    };
   }
 
-  // Tool handlers
+  private async handleGenerateSMS(args: any) {
+    const validation = SMSSchema.safeParse(args);
+    if (!validation.success) {
+      throw new QRValidationError('Invalid SMS data', validation.error);
+    }
 
-  private async handleGenerateBasic(args: any) {
-    const validation = QRConfigSchema.safeParse(args);
+    const sms = validation.data;
+    const output = this.resolveOutputOptions(args);
+    const result = await this.qrCode.generateSMS(sms, {
+      ...args.config,
+      saveToFile: output.saveToFile,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `💬 SMS QR code generated successfully!\n\n` +
+                `${this.formatLocation(result)}\n` +
+                `🔗 Content: ${result.metadata?.originalContent}\n` +
+                `📏 Size: ${result.size} bytes`,
+        },
+        ...this.buildOutputContent(result, output),
+      ],
+    };
+  }
+
+  private async handleGenerateEmail(args: any) {
+    const validation = EmailSchema.safeParse(args);
     if (!validation.success) {
-      throw new QRValidationError('Invalid basic QR configuration', validation.error);
+      throw new QRValidationError('Invalid e-mail data', validation.error);
     }
 
-    const result = await this.qrCode.generateBasic(args.content, validation.data);
-    
+    const email = validation.data;
+    const output = this.resolveOutputOptions(args);
+    const result = await this.qrCode.generateEmail(email, {
+      ...args.config,
+      saveToFile: output.saveToFile,
+    });
+
     return {
       content: [
         {
           type: 'text',
-          text: `✅ Basic QR code generated successfully!\n\n` +
-                `📁 File: ${result.filePath}\n` +
-                `📏 Size: ${result.size} bytes\n` +
-                `🔧 Format: ${result.format}\n` +
-                `⏰ Generated: ${result.metadata?.generatedAt}`,
+          text: `✉️ E-mail QR code generated successfully!\n\n` +
+                `${this.formatLocation(result)}\n` +
+                `📨 To: ${email.to.join(', ')}\n` +
+                `🔗 Content: ${result.metadata?.originalContent}\n` +
+                `📏 Size: ${result.size} bytes`,
         },
+        ...this.buildOutputContent(result, output),
       ],
     };
   }
 
-  private async handleGenerateStyled(args: any) {
-    const result = await this.qrCode.generateStyled(
-      args.content,
-      args.style || {},
-      args.config || {}
-    );
-    
+  private async handleGeneratePhone(args: any) {
+    const validation = PhoneSchema.safeParse(args);
+    if (!validation.success) {
+      throw new QRValidationError('Invalid phone data', validation.error);
+    }
+
+    const phone = validation.data;
+    const output = this.resolveOutputOptions(args);
+    const result = await this.qrCode.generatePhone(phone, {
+      ...args.config,
+      saveToFile: output.saveToFile,
+    });
+
     return {
       content: [
         {
           type: 'text',
-          text: `🎨 Styled QR code generated successfully!\n\n` +
-                `📁 File: ${result.filePath}\n` +
-                `📏 Size: ${result.size} bytes\n` +
-                `🔧 Format: ${result.format}\n` +
-                `⏰ Generated: ${result.metadata?.generatedAt}`,
+          text: `📞 Phone QR code generated successfully!\n\n` +
+                `${this.formatLocation(result)}\n` +
+                `🔗 Content: ${result.metadata?.originalContent}\n` +
+                `📏 Size: ${result.size} bytes`,
         },
+        ...this.buildOutputContent(result, output),
       ],
     };
   }
 
-  private async handleGenerateVCard(args: any) {
-    const validation = VCardSchema.safeParse(args);
+  private async handleGenerateGeo(args: any) {
+    const validation = GeoSchema.safeParse(args);
     if (!validation.success) {
-      throw new QRValidationError('Invalid vCard data', validation.error);
+      throw new QRValidationError('Invalid location data', validation.error);
     }
 
-    const result = await this.qrCode.generateVCard(validation.data, args.config || {});
-    
+    const geo = validation.data;
+    const output = this.resolveOutputOptions(args);
+    const result = await this.qrCode.generateGeo(geo, {
+      ...args.config,
+      saveToFile: output.saveToFile,
+    });
+
     return {
       content: [
         {
           type: 'text',
-          text: `👤 vCard QR code generated successfully!\n\n` +
-                `📁 File: ${result.filePath}\n` +
-                `👤 Contact: ${args.firstName} ${args.lastName}\n` +
+          text: `📍 Location QR code generated successfully!\n\n` +
+                `${this.formatLocation(result)}\n` +
+                `🔗 Content: ${result.metadata?.originalContent}\n` +
                 `📏 Size: ${result.size} bytes`,
         },
+        ...this.buildOutputContent(result, output),
       ],
     };
   }
 
-  private async handleGenerateWiFi(args: any) {
-    const validation = WiFiSchema.safeParse(args);
+  private async handleGenerateMapLink(args: any) {
+    const validation = MapLinkSchema.safeParse(args);
     if (!validation.success) {
-      throw new QRValidationError('Invalid WiFi data', validation.error);
+      throw new QRValidationError('Invalid map link data', validation.error);
     }
 
-    const result = await this.qrCode.generateWiFi(validation.data, args.config || {});
-    
+    const link = validation.data;
+    const output = this.resolveOutputOptions(args);
+    const result = await this.qrCode.generateMapLink(link, {
+      ...args.config,
+      saveToFile: output.saveToFile,
+    });
+
     return {
       content: [
         {
           type: 'text',
-          text: `📶 WiFi QR code generated successfully!\n\n` +
-                `📁 File: ${result.filePath}\n` +
-                `📶 Network: ${args.ssid}\n` +
-                `🔒 Security: ${args.security || 'WPA2'}\n` +
+          text: `🗺️ Map link QR code generated successfully!\n\n` +
+                `${this.formatLocation(result)}\n` +
+                `🔗 URL: ${result.metadata?.originalContent}\n` +
                 `📏 Size: ${result.size} bytes`,
         },
+        ...this.buildOutputContent(result, output),
       ],
     };
   }
 
-  private async handleGenerateEvent(args: any) {
-    const validation = EventSchema.safeParse(args);
+  private async handleGenerateGS1DigitalLink(args: any) {
+    const validation = GS1DigitalLinkSchema.safeParse(args);
     if (!validation.success) {
-      throw new QRValidationError('Invalid event data', validation.error);
+      throw new QRValidationError('Invalid GS1 Digital Link data', validation.error);
     }
 
-    const result = await this.qrCode.generateEvent(validation.data, args.config || {});
-    
+    const output = this.resolveOutputOptions(args);
+    const result = await this.qrCode.generateGS1DigitalLink(validation.data, {
+      ...args.config,
+      saveToFile: output.saveToFile,
+    });
+
     return {
       content: [
         {
           type: 'text',
-          text: `📅 Event QR code generated successfully!\n\n` +
-                `📁 File: ${result.filePath}\n` +
-                `📅 Event: ${args.title}\n` +
-                `🕐 Start: ${args.startDate}\n` +
+          text: `🏷️ GS1 Digital Link QR code generated successfully!\n\n` +
+                `${this.formatLocation(result)}\n` +
+                `✅ AI formats and check digits verified\n` +
+                `🔗 URI: ${result.metadata?.originalContent}\n` +
+                `📏 Size: ${result.size} bytes`,
+        },
+        ...this.buildOutputContent(result, output),
+      ],
+    };
+  }
+
+  private async handleGeneratePaymentEPC(args: any) {
+    const validation = EPCPaymentSchema.safeParse(args);
+    if (!validation.success) {
+      throw new QRValidationError('Invalid EPC payment data', validation.error);
+    }
+
+    const payment = validation.data;
+    const output = this.resolveOutputOptions(args);
+    const result = await this.qrCode.generatePaymentEPC(payment, {
+      ...args.config,
+      saveToFile: output.saveToFile,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `💶 EPC payment QR code generated successfully!\n\n` +
+                `${this.formatLocation(result)}\n` +
+                `👤 Beneficiary: ${payment.name}\n` +
+                `🏦 IBAN: ${payment.iban.replace(/(.{4})(?=.)/g, '$1 ')}` +
+                (payment.bic ? ` (BIC ${payment.bic})` : '') + '\n' +
+                (payment.amount !== undefined ? `💰 Amount: EUR ${payment.amount.toFixed(2)}\n` : '') +
+                (payment.reference ? `🔖 Reference: ${payment.reference}\n` : '') +
+                (payment.remittanceText ? `📝 Remittance: ${payment.remittanceText}\n` : '') +
+                `🛡️ Error Correction: M\n` +
+                `📏 Size: ${result.size} bytes`,
+        },
+        ...this.buildOutputContent(result, output),
+      ],
+    };
+  }
+
+  private async handleGeneratePaymentEMV(args: any) {
+    const validation = EMVMerchantSchema.safeParse(args);
+    if (!validation.success) {
+      throw new QRValidationError('Invalid EMV merchant data', validation.error);
+    }
+
+    const merchant = validation.data;
+    const output = this.resolveOutputOptions(args);
+    const result = await this.qrCode.generatePaymentEMV(merchant, {
+      ...args.config,
+      saveToFile: output.saveToFile,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `💳 EMV merchant payment QR code generated successfully!\n\n` +
+                `${this.formatLocation(result)}\n` +
+                `🏪 Merchant: ${merchant.merchantName}, ${merchant.merchantCity} (${merchant.countryCode})\n` +
+                `💰 Amount: ${merchant.amount !== undefined ? `${merchant.amount} ${merchant.currency}` : `entered by the payer (${merchant.currency})`}\n` +
+                `📄 Payload: ${result.metadata?.originalContent}\n` +
+                `📏 Size: ${result.size} bytes`,
+        },
+        ...this.buildOutputContent(result, output),
+      ],
+    };
+  }
+
+  private async handleGenerateCryptoPayment(args: any) {
+    const validation = CryptoPaymentSchema.safeParse(args);
+    if (!validation.success) {
+      throw new QRValidationError('Invalid crypto payment data', validation.error);
+    }
+
+    const payment = validation.data;
+    const output = this.resolveOutputOptions(args);
+    const result = await this.qrCode.generateCryptoPayment(payment, {
+      ...args.config,
+      saveToFile: output.saveToFile,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🪙 ${payment.scheme === 'bitcoin' ? 'Bitcoin' : 'Ethereum'} payment QR code generated successfully!\n\n` +
+                `${this.formatLocation(result)}\n` +
+                `✅ Address checksum verified\n` +
+                `🔗 URI: ${result.metadata?.originalContent}\n` +
                 `📏 Size: ${result.size} bytes`,
         },
+        ...this.buildOutputContent(result, output),
       ],
     };
   }
@@ -618,7 +1873,8 @@ class EnhancedQRCodeMCPServer {
       throw new QRValidationError('Invalid analysis parameters', validation.error);
     }
 
-    const result = await this.qrCode.decodeFromImage(args.imagePath);
+    const { outputFormat, mode } = validation.data;
+    const result = await this.qrCode.decodeFromImage(this.resolveImageInputs(validation.data), { mode });
     
     if (!result.success) {
       return {
@@ -631,6 +1887,35 @@ class EnhancedQRCodeMCPServer {
       };
     }
 
+    // Every code is listed in mode 'all' and when several images were given
+    if (result.codes) {
+      const codes = result.codes;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: outputFormat === 'json'
+              ? JSON.stringify({ pass: result.pass, timedOut: result.timedOut, codes, structuredAppend: result.structuredAppend }, null, 2)
+              : `🔍 Found ${codes.length} QR code${codes.length === 1 ? '' : 's'} (pass: ${result.pass})\n\n` +
+                (result.timedOut ? '⏱️ Scanning stopped at the time limit; some codes may be missing\n\n' : '') +
+                codes.map((code, index) =>
+                  `${index + 1}. 📄 Content: ${code.content}\n` +
+                  `   📊 Version: ${code.version}\n` +
+                  `   🛡️ Error Correction: ${code.errorCorrectionLevel ?? 'unknown'}\n` +
+                  `   🏷️ Type: ${code.payload?.type}\n` +
+                  `   📍 Location: ${this.formatQRLocation(code.location)}` +
+                  (code.image !== undefined ? `\n   🖼️ Image: ${code.image + 1}` : '') +
+                  (code.frame !== undefined ? `\n   🎞️ Frame: ${code.frame + 1}` : '') +
+                  (code.structuredAppend
+                    ? `\n   🧩 Structured Append: ${code.structuredAppend.position + 1} of ${code.structuredAppend.total}`
+                    : '')
+                ).join('\n\n') +
+                (result.structuredAppend ? `\n\n${this.formatStructuredAppend(result.structuredAppend)}` : ''),
+          },
+        ],
+      };
+    }
+
     return {
       content: [
         {
@@ -638,15 +1923,103 @@ class EnhancedQRCodeMCPServer {
           text: `🔍 QR code decoded successfully!\n\n` +
                 `📄 Content: ${result.content}\n` +
                 `📊 Version: ${result.metadata?.version}\n` +
-                `🛡️ Error Correction: ${result.metadata?.errorCorrectionLevel}\n` +
-                `🔧 Modules: ${result.metadata?.modules}`,
+                `🛡️ Error Correction: ${result.metadata?.errorCorrectionLevel ?? 'unknown'}\n` +
+                `🔧 Modules: ${result.metadata?.modules}\n` +
+                `🧪 Decode pass: ${result.pass}` +
+                (result.structuredAppend ? `\n\n${this.formatStructuredAppend(result.structuredAppend)}` : '') +
+                (result.payload ? `\n\n${this.formatPayload(result.payload)}` : '') +
+                (isFountainFrame(result.content || '')
+                  ? '\n\n🎞️ This is one frame of an animated transfer; pass the animation to decode_qr_animation'
+                  : ''),
         },
       ],
     };
   }
 
+  /**
+   * Describe a parsed payload, pointing at the tool that regenerates it
+   */
+  private formatPayload(payload: ParsedPayload): string {
+    const tool = PAYLOAD_GENERATORS[payload.type];
+    return `🏷️ Type: ${payload.type}\n` +
+           (payload.type === 'emv' ? `${this.formatEMVPayload(payload)}\n` : '') +
+           (payload.type === 'crypto'
+             ? `${payload.addressValid ? '✅ Address checksum valid' : '❌ Address checksum does not match; do not pay to it'}\n`
+             : '') +
+           (payload.type === 'gs1' ? `${this.formatGS1Payload(payload)}\n` : '') +
+           `🧩 Fields:\n${JSON.stringify(payload.fields, null, 2)}` +
+           (tool ? `\n♻️ Edit the fields and pass them to ${tool} to regenerate` : '');
+  }
+
+  /**
+   * CRC and structure checks of an EMV payload, with every field named
+   */
+  private formatEMVPayload(payload: Extract<ParsedPayload, { type: 'emv' }>): string {
+    const describe = (object: EMVDataObject, indent: string): string =>
+      `${indent}${object.tag} ${object.name}: ` +
+      (object.children
+        ? (object.meaning ? object.meaning : '') +
+          object.children.map(child => `\n${describe(child, indent + '  ')}`).join('')
+        : `${object.value}${object.meaning ? ` (${object.meaning})` : ''}`);
+
+    return (payload.crcValid ? '✅ CRC valid' : '❌ CRC does not match; the payload is damaged or was altered') +
+           payload.errors.map(error => `\n⚠️ ${error}`).join('') +
+           `\n📋 Data objects:\n${payload.dataObjects.map(object => describe(object, '  ')).join('\n')}`;
+  }
+
+  /**
+   * Validation result of a GS1 Digital Link, with every AI named
+   */
+  private formatGS1Payload(payload: Extract<ParsedPayload, { type: 'gs1' }>): string {
+    return (payload.fields.compressed ? '🗜️ Compressed GS1 Digital Link\n' : '') +
+           (payload.errors.length === 0 ? '✅ AI formats and check digits valid' : payload.errors.map(error => `⚠️ ${error}`).join('\n')) +
+           `\n📋 Application identifiers:\n` +
+           payload.elements
+             .map(element => `  (${element.ai}) ${element.title}: ${element.value}${element.meaning ? ` (${element.meaning})` : ''}`)
+             .join('\n');
+  }
+
+  /**
+   * Reassembly state of each Structured Append set, with the joined
+   * content once a set is complete
+   */
+  private formatStructuredAppend(sets: StructuredAppendSet[]): string {
+    return sets.map(set => {
+      const status = set.complete
+        ? `complete, all ${set.total} symbols read, parity verified`
+        : set.missing.length > 0
+          ? `${set.found.length} of ${set.total} symbols read, missing ${set.missing.map(position => position + 1).join(', ')}`
+          : `all ${set.total} symbols read, but the parity does not match`;
+      return `🧩 Structured Append set: ${status}` +
+             (set.complete ? `\n📄 Reassembled content: ${set.content}` : '');
+    }).join('\n');
+  }
+
+  /**
+   * Image bytes for inline imageData, otherwise the file paths
+   */
+  private resolveImageInputs(analysis: Pick<QRAnalysis, 'imagePath' | 'imageData'>): ImageInput[] {
+    const sources = [analysis.imageData || analysis.imagePath!].flat();
+    return analysis.imageData ? sources.map(parseImageData) : sources;
+  }
+
+  private formatQRLocation(location: QRLocation): string {
+    return [location.topLeftCorner, location.topRightCorner, location.bottomRightCorner, location.bottomLeftCorner]
+      .map(point => `(${Math.round(point.x)}, ${Math.round(point.y)})`)
+      .join(' → ');
+  }
+
   private async handleAnalyzeQuality(args: any) {
-    const result = await this.qrCode.analyzeQuality(args.imagePath);
+    const validation = QRAnalysisSchema.safeParse(args);
+    if (!validation.success) {
+      throw new QRValidationError('Invalid analysis parameters', validation.error);
+    }
+
+    const inputs = this.resolveImageInputs(validation.data);
+    if (inputs.length > 1) {
+      throw new QRValidationError('Quality analysis takes a single image');
+    }
+    const result = await this.qrCode.analyzeQuality(inputs[0]);
     
     if (!result.success) {
       return {
@@ -666,6 +2039,9 @@ class EnhancedQRCodeMCPServer {
           text: `📊 QR Code Quality Analysis\n\n` +
                 `🎯 Quality Score: ${result.quality?.score}/100\n` +
                 `📖 Readability: ${result.quality?.readability}\n` +
+                `📏 Measurements:\n${(result.quality?.measurements || []).map(m =>
+                  `  • ${m.name}: ${m.value}${m.unit === '%' ? '%' : ` ${m.unit}`} (${m.rating}, target ${m.target})`
+                ).join('\n')}\n` +
                 `💡 Recommendations:\n${result.quality?.recommendations.map(r => `  • ${r}`).join('\n')}`,
         },
       ],
@@ -692,10 +2068,11 @@ class EnhancedQRCodeMCPServer {
   }
 
   private async handleGenerateFromTemplate(args: any) {
+    const output = this.resolveOutputOptions(args);
     const result = await this.qrCode.generateFromTemplate(
       args.content,
       args.templateName,
-      args.overrides || {}
+      { ...args.overrides, saveToFile: output.saveToFile }
     );
     
     return {
@@ -703,10 +2080,12 @@ class EnhancedQRCodeMCPServer {
         {
           type: 'text',
           text: `🎨 QR code generated from template '${args.templateName}'!\n\n` +
-                `📁 File: ${result.filePath}\n` +
+                `${this.formatLocation(result)}\n` +
                 `📏 Size: ${result.size} bytes\n` +
-                `🔧 Format: ${result.format}`,
+                `🔧 Format: ${result.format}` +
+                this.formatStyledDetails(result),
         },
+        ...this.buildOutputContent(result, output),
       ],
     };
   }
@@ -736,9 +2115,22 @@ class EnhancedQRCodeMCPServer {
       if (!args.content || args.content.trim().length === 0) {
         throw new QRValidationError('Content cannot be empty');
       }
-      
-      if (args.content.length > 4296) {
-        throw new QRValidationError('Content exceeds maximum length of 4296 characters');
+
+      const level: ErrorCorrectionLevel = ['L', 'M', 'Q', 'H'].includes(args.errorCorrectionLevel)
+        ? args.errorCorrectionLevel
+        : 'M';
+      const scanDistance = typeof args.scanDistance === 'number' && args.scanDistance > 0
+        ? args.scanDistance
+        : DEFAULT_SCAN_DISTANCE_CM;
+      const plan = planCapacity(args.content, level, scanDistance);
+
+      if (!plan.selected.fits) {
+        const fitting = plan.levels.filter(capacity => capacity.fits).map(capacity => capacity.errorCorrectionLevel);
+        throw new QRValidationError(
+          `Content (${plan.bytes} bytes) is ${Math.ceil(plan.selected.overflowBits! / 8)} bytes over the ` +
+          `largest QR code (version 40) at error correction level ${level}` +
+          (fitting.length > 0 ? `; it fits at level ${fitting.join(', ')}` : '')
+        );
       }
 
       // Type-specific validation
@@ -759,14 +2151,23 @@ class EnhancedQRCodeMCPServer {
         }
       }
 
+      if (plan.selected.version! > 10) {
+        recommendations.push(`Version ${plan.selected.version} is dense; shorten the content or use optimize_qr_content to lower it`);
+      }
+
       return {
         content: [
           {
             type: 'text',
             text: `✅ Content validation successful!\n\n` +
-                  `📝 Content length: ${args.content.length} characters\n` +
+                  `📝 Content length: ${args.content.length} characters (${plan.bytes} bytes UTF-8)\n` +
                   `🎯 Content type: ${args.contentType || 'text'}\n` +
-                  `📊 Estimated QR complexity: ${this.estimateQRComplexity(args.content)}\n` +
+                  `🔢 Version ${plan.selected.version} (${plan.selected.modules}×${plan.selected.modules} modules) ` +
+                  `at error correction level ${level}\n` +
+                  `🧩 Segments: ${plan.segments.map(segment => `${segment.mode} ×${segment.length}`).join(', ')}\n\n` +
+                  `📊 Capacity by error correction level:\n${plan.levels.map(capacity => `  ${this.formatCapacity(capacity)}`).join('\n')}\n\n` +
+                  `📏 Smallest size for ${scanDistance} cm scanning: ${plan.physicalSize!.totalSizeMm} mm ` +
+                  `including quiet zone (${plan.physicalSize!.symbolSizeMm} mm symbol, ${plan.physicalSize!.moduleSizeMm} mm modules)\n` +
                   (recommendations.length > 0 ? 
                     `\n💡 Recommendations:\n${recommendations.map(r => `  • ${r}`).join('\n')}` : 
                     '\n✨ No issues found!'),
@@ -793,19 +2194,32 @@ class EnhancedQRCodeMCPServer {
     }
 
     const results = [];
+    const images = [];
     const outputDir = args.outputDir || './qr-codes';
+    const output = this.resolveOutputOptions(args);
+    const items: Array<{ content?: string; serial?: string; style?: QRStyle }> = [...validation.data.items];
+    const run = validation.data.gs1Serials;
+    if (run) {
+      for (let serial = run.start; serial < run.start + run.count; serial++) {
+        items.push({ serial: run.prefix + String(serial).padStart(run.width || 0, '0') });
+      }
+    }
     
     await fs.ensureDir(outputDir);
     
-    for (let i = 0; i < args.items.length; i++) {
-      const item = args.items[i];
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i];
       try {
+        // A serial that makes an invalid link fails only its own code. Serial
+        // codes skip the decode check, which would dominate a long run.
+        const serialRun = item.serial !== undefined;
         const result = await this.qrCode.generateStyled(
-          item.content,
-          item.style || {},
-          { ...args.baseConfig, format: args.format }
+          serialRun ? buildGS1DigitalLink({ ...run!.link, serial: item.serial }) : item.content!,
+          serialRun ? { verifyScan: 'off' } : item.style || {},
+          { ...args.baseConfig, format: args.format, saveToFile: output.saveToFile }
         );
         results.push({ index: i, success: true, file: result.filePath });
+        images.push(...this.buildOutputContent(result, output));
       } catch (error) {
         results.push({ 
           index: i, 
@@ -827,57 +2241,283 @@ class EnhancedQRCodeMCPServer {
                 `❌ Failed: ${failed}\n` +
                 `📁 Output directory: ${outputDir}\n\n` +
                 `📋 Results:\n${results.map(r => 
-                  `  ${r.index + 1}. ${r.success ? `✅ ${path.basename(r.file!)}` : `❌ ${r.error}`}`
+                  `  ${r.index + 1}. ${r.success ? `✅ ${r.file ? path.basename(r.file) : 'inline'}` : `❌ ${r.error}`}`
                 ).join('\n')}`,
         },
+        ...images,
       ],
     };
   }
 
-  private async handleOptimizeContent(args: any) {
-    let optimized = args.content;
-    const recommendations: string[] = [];
-    
-    // URL optimization
-    if (optimized.startsWith('http://')) {
-      optimized = optimized.replace('http://', 'https://');
-      recommendations.push('Upgraded HTTP to HTTPS');
+  private async handleGenerateStructuredAppend(args: any) {
+    const validation = StructuredAppendSchema.safeParse(args);
+    if (!validation.success) {
+      throw new QRValidationError('Invalid Structured Append parameters', validation.error);
     }
-    
-    // Remove unnecessary spaces
-    const trimmed = optimized.trim();
-    if (trimmed !== optimized) {
-      optimized = trimmed;
-      recommendations.push('Removed leading/trailing whitespace');
+
+    const { content, symbols, maxVersion, foregroundColor, backgroundColor, dotStyle, ...config } = validation.data;
+    const output = this.resolveOutputOptions(args);
+    const result = await this.qrCode.generateStructuredAppend(
+      content,
+      { symbols, maxVersion },
+      { foregroundColor, backgroundColor, dotStyle },
+      { ...config, saveToFile: output.saveToFile }
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🧩 Structured Append set of ${result.symbols.length} QR code${result.symbols.length === 1 ? '' : 's'} generated!\n\n` +
+                `📊 Version: ${result.version} (${17 + result.version * 4}×${17 + result.version * 4} modules each)\n` +
+                `🛡️ Error Correction: ${result.errorCorrectionLevel}\n` +
+                `🔢 Parity: 0x${result.parity.toString(16).padStart(2, '0')}\n` +
+                `🔧 Format: ${result.sheet.format}\n\n` +
+                `📋 Symbols:\n${result.symbols.map(symbol =>
+                  `  ${symbol.position + 1}/${result.symbols.length}. ` +
+                  `${symbol.filePath ? path.basename(symbol.filePath) : 'inline'} (${symbol.content.length} characters)` +
+                  (symbol.id ? ` ${RESOURCE_SCHEME}${symbol.id}` : '')
+                ).join('\n')}\n\n` +
+                `🗂️ Sheet:\n${this.formatLocation(result.sheet)}`,
+        },
+        ...this.buildOutputContent(result.sheet, output),
+      ],
+    };
+  }
+
+  private async handleGenerateAnimation(args: any) {
+    const validation = AnimatedTransferSchema.safeParse(args);
+    if (!validation.success) {
+      throw new QRValidationError('Invalid animated transfer parameters', validation.error);
+    }
+
+    const { data, dataBase64, filePath, format, version, redundancy, frameDelay, foregroundColor, backgroundColor, ...config } =
+      validation.data;
+    let payload: Buffer;
+    if (filePath) {
+      if (!await fs.pathExists(filePath)) {
+        throw new QRValidationError(`File not found: ${filePath}`);
+      }
+      payload = await fs.readFile(filePath);
+    } else {
+      payload = dataBase64 ? Buffer.from(dataBase64, 'base64') : Buffer.from(data!, 'utf8');
+    }
+
+    const output = this.resolveOutputOptions(args);
+    const result = await this.qrCode.generateAnimatedTransfer(
+      payload,
+      { format, version, redundancy, frameDelay },
+      { foregroundColor, backgroundColor },
+      { ...config, saveToFile: output.saveToFile }
+    );
+    const { transfer } = result;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🎞️ Animated transfer generated!\n\n` +
+                `📦 Data: ${transfer.bytes} bytes in ${transfer.blocks} blocks of ${transfer.blockSize}\n` +
+                `🖼️ Frames: ${transfer.frames} (any ${transfer.blocks} or a few more rebuild the data)\n` +
+                `📊 Version: ${transfer.version} (${17 + transfer.version * 4}×${17 + transfer.version * 4} modules)\n` +
+                `🛡️ Error Correction: ${transfer.errorCorrectionLevel}\n` +
+                `⏱️ Loop: ${(transfer.frames * frameDelay / 1000).toFixed(1)} s\n` +
+                `🔧 Format: ${result.format} (${result.size} bytes)\n` +
+                this.formatLocation(result),
+        },
+        ...this.buildOutputContent(result, output),
+      ],
+    };
+  }
+
+  private async handleDecodeAnimation(args: any) {
+    const validation = AnimatedTransferDecodeSchema.safeParse(args);
+    if (!validation.success) {
+      throw new QRValidationError('Invalid animated transfer parameters', validation.error);
+    }
+
+    const result = await this.qrCode.decodeAnimatedTransfer(
+      this.resolveImageInputs(validation.data),
+      validation.data.outputPath
+    );
+    const progress = result.transfers.map(transfer => this.formatTransfer(transfer)).join('\n');
+
+    if (!result.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ Failed to rebuild the transfer: ${result.error}\n\n` +
+                  `🖼️ Frames scanned: ${result.framesScanned}` +
+                  (progress ? `\n${progress}` : ''),
+          },
+        ],
+      };
+    }
+
+    const data = result.data!;
+    let text: string | undefined;
+    try {
+      text = new TextDecoder('utf-8', { fatal: true }).decode(data);
+    } catch {
+      // Not UTF-8; returned as base64 below
     }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🎞️ Animated transfer rebuilt!\n\n` +
+                `🖼️ Frames scanned: ${result.framesScanned}\n${progress}\n` +
+                (result.filePath ? `📁 Written to: ${result.filePath}\n` : '') +
+                (text !== undefined
+                  ? `\n📄 Content:\n${text}`
+                  : `\n📦 Content (base64):\n${data.toString('base64')}`),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Blocks recovered of one transfer and the frames they came from
+   */
+  private formatTransfer(transfer: FountainTransfer): string {
+    const id = transfer.id.toString(16).padStart(8, '0');
+    return `📦 Transfer ${id}: ${transfer.length} bytes, ` +
+           `${transfer.recovered} of ${transfer.blocks} blocks from ${transfer.framesReceived} distinct frames` +
+           (transfer.complete ? ', checksum verified' : '');
+  }
+
+  private async handleDeleteResource(args: any) {
+    const id = QRResourceStore.parseUri(args.uri)?.id || args.uri;
+    const removed = await this.qrCode.removeResource(id, args.deleteFile === true);
     
-    // URL shortening suggestion for long URLs
-    if (optimized.startsWith('https://') && optimized.length > 100) {
-      recommendations.push('Consider using a URL shortener for long URLs');
+    if (!removed) {
+      throw new QRValidationError(`Unknown resource: ${args.uri}`);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🗑️ Removed QR code resource ${removed.uri}` +
+                (removed.filePath && args.deleteFile ? `\n📁 Deleted file: ${removed.filePath}` : ''),
+        },
+      ],
+    };
+  }
+
+  private async handleOptimizeContent(args: any) {
+    if (typeof args.content !== 'string' || args.content.trim().length === 0) {
+      throw new QRValidationError('Content cannot be empty');
     }
+
+    const level: ErrorCorrectionLevel = ['L', 'M', 'Q', 'H'].includes(args.errorCorrectionLevel)
+      ? args.errorCorrectionLevel
+      : 'M';
+    const targetSize = typeof args.targetSize === 'number' && args.targetSize > 0 ? args.targetSize : 300;
+    const result = optimizeContent(args.content, { errorCorrectionLevel: level, stripTracking: args.stripTracking === true });
     
     return {
       content: [
         {
           type: 'text',
           text: `🔧 Content Optimization Results\n\n` +
-                `📝 Original length: ${args.content.length} characters\n` +
-                `✨ Optimized length: ${optimized.length} characters\n` +
-                `📉 Size reduction: ${args.content.length - optimized.length} characters\n\n` +
-                `🔧 Optimized content:\n${optimized}\n\n` +
-                (recommendations.length > 0 ? 
-                  `💡 Optimizations applied:\n${recommendations.map(r => `  • ${r}`).join('\n')}` :
-                  '✅ No optimizations needed'),
+                `📝 Original length: ${result.original.length} characters\n` +
+                `✨ Optimized length: ${result.optimized.length} characters\n` +
+                `📉 Size reduction: ${result.original.length - result.optimized.length} characters\n\n` +
+                `📊 Before: ${this.formatDensity(result.before, targetSize)}\n` +
+                `📊 After: ${this.formatDensity(result.after, targetSize)}\n` +
+                `🛡️ Error Correction: ${level}\n\n` +
+                `🔧 Optimized content:\n${result.optimized}\n\n` +
+                `🧩 Segments (pass as \`segments\` to generate_qr_basic or in the config of generate_qr_styled):\n` +
+                `${JSON.stringify(result.segments)}\n\n` +
+                (result.changes.length > 0 ? 
+                  `💡 Optimizations applied:\n${result.changes.map(r => `  • ${r}`).join('\n')}` :
+                  '✅ No optimizations needed') +
+                (result.suggestions.length > 0 ?
+                  `\n\n💡 Suggestions:\n${result.suggestions.map(r => `  • ${r}`).join('\n')}` :
+                  ''),
         },
       ],
     };
   }
 
-  private estimateQRComplexity(content: string): string {
-    if (content.length < 50) return 'Low';
-    if (content.length < 200) return 'Medium';
-    if (content.length < 500) return 'High';
-    return 'Very High';
+  private resolveOutputOptions(args: any): ServerOptions {
+    const saveToFile = typeof args?.saveToFile === 'boolean' ? args.saveToFile : this.options.saveToFile;
+    const returnImage = typeof args?.returnImage === 'boolean' ? args.returnImage : this.options.returnImage;
+    
+    // Without a file the inline image is the only way to deliver the result
+    return { saveToFile, returnImage: returnImage || !saveToFile };
+  }
+
+  private buildOutputContent(result: QRGenerationResult, output: ServerOptions) {
+    if (!output.returnImage || result.data === undefined) {
+      return [];
+    }
+    
+    const data = Buffer.from(result.data).toString('base64');
+    
+    if (result.contentType.startsWith('image/')) {
+      return [{ type: 'image', data, mimeType: result.contentType }];
+    }
+    
+    // Non-image formats (PDF) travel as an embedded binary resource
+    return [
+      {
+        type: 'resource',
+        resource: { uri: `${RESOURCE_SCHEME}${result.id}`, mimeType: result.contentType, blob: data },
+      },
+    ];
+  }
+
+  private formatLocation(result: QRGenerationResult): string {
+    return (result.filePath
+      ? `📁 File: ${result.filePath}`
+      : '📎 Returned inline (not saved to disk)') +
+      (result.id ? `\n🔗 Resource: ${RESOURCE_SCHEME}${result.id}` : '');
+  }
+
+  private formatStyledDetails(result: QRGenerationResult): string {
+    let details = '';
+    
+    if (result.logo) {
+      details += `\n🖼️ Logo: ${Math.round(result.logo.appliedSize * 100)}% covering ` +
+                 `${result.logo.coveredModules}/${result.logo.budgetModules} recoverable modules ` +
+                 `(ECL ${result.logo.errorCorrectionLevel})`;
+      if (result.logo.escalated) {
+        details += `\n⬆️ Error correction raised to ${result.logo.errorCorrectionLevel} to fit the logo`;
+      }
+      if (result.logo.shrunk) {
+        details += `\n↘️ Logo reduced from ${Math.round(result.logo.requestedSize * 100)}% to keep the code scannable`;
+      }
+    }
+    
+    if (result.verification) {
+      details += result.verification.passed
+        ? '\n✅ Scan check: decodes back to the original content'
+        : `\n⚠️ Scan check failed: ${result.verification.error}`;
+    }
+    
+    return details;
+  }
+
+  private formatDensity(capacity: LevelCapacity, targetSize: number): string {
+    if (!capacity.fits) {
+      return `does not fit (${Math.ceil(capacity.overflowBits! / 8)} bytes over version 40)`;
+    }
+    const usage = Math.round((capacity.usedBits! / capacity.capacityBits!) * 100);
+    const moduleSize = (targetSize / capacity.modules!).toFixed(1);
+    return `version ${capacity.version} (${capacity.modules}×${capacity.modules} modules, ` +
+      `${usage}% of data capacity, ${moduleSize} px per module at ${targetSize} px)`;
+  }
+
+  private formatCapacity(capacity: LevelCapacity): string {
+    if (!capacity.fits) {
+      return `${capacity.errorCorrectionLevel}: does not fit (${Math.ceil(capacity.overflowBits! / 8)} bytes over version 40)`;
+    }
+    return `${capacity.errorCorrectionLevel}: version ${capacity.version} (${capacity.modules}×${capacity.modules}), ` +
+      `${capacity.usedBits}/${capacity.capacityBits} bits used, ${capacity.remainingBytes} bytes to spare`;
   }
 
   async start() {
@@ -0,0 +1,133 @@
+import QRCode from 'qrcode';
+import type { BitMatrix } from 'qrcode';
+import { measureLevel } from './capacity-planner.js';
+import { computeLayout } from './qr-shapes.js';
+import { encoderInput } from './qr-segments.js';
+import type { ErrorCorrectionLevel, QRSegment } from './types.js';
+
+/**
+ * Share of codewords each error correction level can restore
+ */
+export const ECL_RECOVERY: Record<ErrorCorrectionLevel, number> = {
+  L: 0.07,
+  M: 0.15,
+  Q: 0.25,
+  H: 0.3,
+};
+
+const ECL_ORDER: ErrorCorrectionLevel[] = ['L', 'M', 'Q', 'H'];
+
+// Only half of the recovery budget may go to the logo; the rest is kept for
+// print defects, glare and perspective distortion when scanning.
+const LOGO_BUDGET_SHARE = 0.5;
+
+const MIN_LOGO_SIZE = 0.1;
+const LOGO_SHRINK_STEP = 0.02;
+
+/**
+ * Padding in pixels drawn around the logo in the background color
+ */
+export const LOGO_PADDING = 5;
+
+export interface LogoPlanRequest {
+  /** Content, or the exact segments it is encoded with */
+  content: string | QRSegment[];
+  size: number;
+  margin: number;
+  borderWidth: number;
+  logoSize: number;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+}
+
+export interface LogoPlan {
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  logoSize: number;
+  /** Data modules hidden under the logo and its padding */
+  coveredModules: number;
+  /** Data modules the chosen level can afford to lose to the logo */
+  budgetModules: number;
+  escalated: boolean;
+  shrunk: boolean;
+}
+
+/**
+ * Choose an error correction level and logo size that keep the symbol
+ * decodable. The level is raised first (never lowered, and only to levels
+ * the content still fits at); if even the highest of those cannot absorb
+ * the logo, the logo is shrunk. Returns undefined when no combination fits.
+ */
+export function planLogo(request: LogoPlanRequest): LogoPlan | undefined {
+  const levels = ECL_ORDER.slice(ECL_ORDER.indexOf(request.errorCorrectionLevel))
+    .filter(level => measureLevel(request.content, level).fits);
+  if (levels.length === 0) return undefined;
+
+  for (const level of levels) {
+    const coverage = measureCoverage(request, level, request.logoSize);
+    if (coverage.coveredModules <= coverage.budgetModules) {
+      return {
+        errorCorrectionLevel: level,
+        logoSize: request.logoSize,
+        ...coverage,
+        escalated: level !== request.errorCorrectionLevel,
+        shrunk: false,
+      };
+    }
+  }
+
+  const level = levels[levels.length - 1];
+  for (let logoSize = request.logoSize - LOGO_SHRINK_STEP; logoSize >= MIN_LOGO_SIZE - 1e-9; logoSize -= LOGO_SHRINK_STEP) {
+    const rounded = Number(logoSize.toFixed(2));
+    const coverage = measureCoverage(request, level, rounded);
+    if (coverage.coveredModules <= coverage.budgetModules) {
+      return {
+        errorCorrectionLevel: level,
+        logoSize: rounded,
+        ...coverage,
+        escalated: level !== request.errorCorrectionLevel,
+        shrunk: true,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+function measureCoverage(
+  request: LogoPlanRequest,
+  level: ErrorCorrectionLevel,
+  logoSize: number
+): { coveredModules: number; budgetModules: number } {
+  const { input, options } = encoderInput(request.content, level);
+  const { modules } = QRCode.create(input, options);
+  const layout = computeLayout(modules.size, request.size, request.margin, request.borderWidth);
+
+  const boxSize = request.size * logoSize + LOGO_PADDING * 2;
+  const boxStart = (request.size - boxSize) / 2;
+  const first = Math.floor((boxStart - layout.origin) / layout.moduleSize);
+  const last = Math.ceil((boxStart + boxSize - layout.origin) / layout.moduleSize) - 1;
+
+  let coveredModules = 0;
+  for (let row = Math.max(0, first); row <= Math.min(modules.size - 1, last); row++) {
+    for (let col = Math.max(0, first); col <= Math.min(modules.size - 1, last); col++) {
+      if (!modules.isReserved(row, col)) coveredModules++;
+    }
+  }
+
+  const totalCodewords = Math.floor(countDataModules(modules) / 8);
+  const recoverable = Math.floor(totalCodewords * ECL_RECOVERY[level]);
+
+  return {
+    coveredModules,
+    budgetModules: Math.floor(recoverable * 8 * LOGO_BUDGET_SHARE),
+  };
+}
+
+function countDataModules(modules: BitMatrix): number {
+  let count = 0;
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (!modules.isReserved(row, col)) count++;
+    }
+  }
+  return count;
+}
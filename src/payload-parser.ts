@@ -0,0 +1,642 @@
+import {
+  EmailPayload,
+  EPCPayment,
+  Event,
+  GeoPayload,
+  ParsedPayload,
+  PhonePayload,
+  SMSPayload,
+  VCard,
+  WiFi,
+} from './types.js';
+import { parseEMVMerchant } from './emv-merchant.js';
+import { parseCryptoPaymentURI } from './crypto-payment.js';
+import { parseGS1DigitalLink } from './gs1-digital-link.js';
+
+type PayloadParser = (content: string) => ParsedPayload | undefined;
+
+/**
+ * Recognisers in the order they are tried; the first match wins and plain
+ * text is the fallback.
+ */
+const PARSERS: PayloadParser[] = [
+  parseWiFi,
+  parseVCard,
+  parseMECard,
+  parseEvent,
+  parseEPC,
+  parseEMVMerchant,
+  parseEmail,
+  parsePhone,
+  parseSMS,
+  parseGeo,
+  parseCryptoPaymentURI,
+  parseGS1DigitalLink,
+  parseURL,
+];
+
+/**
+ * Classify decoded QR content and extract its fields
+ */
+export function parsePayload(content: string): ParsedPayload {
+  const trimmed = content.trim();
+  for (const parser of PARSERS) {
+    const payload = parser(trimmed);
+    if (payload) return payload;
+  }
+  return { type: 'text', fields: { text: content } };
+}
+
+/**
+ * `WIFI:T:WPA;S:network;P:secret;H:false;;` with backslash escaping
+ */
+function parseWiFi(content: string): ParsedPayload | undefined {
+  if (!/^WIFI:/i.test(content)) return undefined;
+
+  // Raw values: quoting has to be seen before unescaping
+  const values: Record<string, string> = {};
+  for (const [key, value] of parseKeyValueEntries(content.slice(5))) {
+    if (values[key] === undefined) values[key] = value;
+  }
+  if (values.S === undefined) return undefined;
+
+  const security = wifiSecurity(values.T);
+  const ssid = wifiText(values.S);
+  const wifi: WiFi = {
+    ssid: ssid.value,
+    ssidIsHex: ssid.hex,
+    security,
+    hidden: values.H?.toLowerCase() === 'true',
+  };
+  if (values.P) wifi.password = wifiText(values.P).value;
+
+  if (security.endsWith('-EAP')) {
+    const eapMethod = values.E?.toUpperCase().replace(/^AKA'$/, 'AKA_PRIME');
+    const phase2 = values.PH2?.toUpperCase().replace(/^(MS-?)?CHAPV2$/, 'MSCHAPV2');
+    if (eapMethod && ['PEAP', 'TTLS', 'TLS', 'PWD', 'SIM', 'AKA', 'AKA_PRIME'].includes(eapMethod)) {
+      wifi.eapMethod = eapMethod as WiFi['eapMethod'];
+    }
+    if (phase2 && ['MSCHAPV2', 'MSCHAP', 'GTC', 'PAP'].includes(phase2)) {
+      wifi.phase2 = phase2 as WiFi['phase2'];
+    }
+    if (values.I) wifi.identity = unescapeBackslashes(values.I);
+    if (values.A) wifi.anonymousIdentity = unescapeBackslashes(values.A);
+  }
+
+  const transitionDisable = values.R ? parseInt(values.R, 16) : NaN;
+  if (transitionDisable >= 1 && transitionDisable <= 255) wifi.transitionDisable = transitionDisable;
+  if (values.K && security === 'WPA3') wifi.publicKey = values.K;
+
+  return { type: 'wifi', fields: wifi };
+}
+
+function wifiSecurity(type: string | undefined): WiFi['security'] {
+  const normalized = (type || '').toUpperCase();
+  if (normalized === '' || normalized === 'NOPASS') return 'nopass';
+  if (normalized === 'WEP') return 'WEP';
+  if (normalized === 'WPA3-EAP' || normalized === 'WPA3-ENTERPRISE') return 'WPA3-EAP';
+  if (normalized.endsWith('-EAP') || normalized === 'EAP' || normalized === 'WPA2-ENTERPRISE') return 'WPA2-EAP';
+  if (normalized === 'WPA3' || normalized === 'SAE') return 'WPA3';
+  if (normalized === 'WPA2') return 'WPA2';
+  return 'WPA';
+}
+
+/**
+ * SSIDs and passwords in double quotes are text; unquoted even-length hex
+ * is read as octets, as Android does
+ */
+function wifiText(raw: string): { value: string; hex: boolean } {
+  if (raw.length >= 2 && raw.startsWith('"') && raw.endsWith('"') && !raw.endsWith('\\"')) {
+    return { value: unescapeBackslashes(raw.slice(1, -1)), hex: false };
+  }
+  return { value: unescapeBackslashes(raw), hex: /^([0-9a-fA-F]{2})+$/.test(raw) };
+}
+
+/**
+ * vCard 2.1/3.0/4.0: folded lines, grouped and parameterised properties
+ */
+function parseVCard(content: string): ParsedPayload | undefined {
+  if (!/^BEGIN:VCARD/i.test(content)) return undefined;
+
+  const properties = parseContentLines(content);
+  const all = (...names: string[]) => properties.filter(property => names.includes(property.name));
+  const first = (name: string) => all(name)[0]?.value;
+
+  const name = splitEscaped(first('N') || '', ';').map(unescapeText);
+  const fullName = unescapeText(first('FN') || '');
+  const [fallbackFirst, ...fallbackLast] = fullName.split(' ');
+
+  const vcard: VCard = {
+    firstName: name[1] || (name[0] ? '' : fallbackFirst || ''),
+    lastName: name[0] || (name[1] ? '' : fallbackLast.join(' ')),
+    version: first('VERSION') === '4.0' ? '4.0' : '3.0',
+    cardFormat: 'vcard',
+  };
+  const [, , middleName, prefix, suffix] = name;
+  Object.assign(vcard, compact({ middleName, prefix, suffix }));
+
+  const organization = first('ORG');
+  if (organization) {
+    const [company, department] = splitEscaped(organization, ';').map(unescapeText);
+    Object.assign(vcard, compact({ organization: company, department }));
+  }
+  assignText(vcard, 'title', first('TITLE'));
+
+  const phones = all('TEL').map(property => ({
+    number: unescapeText(property.value.replace(/^tel:/i, '')),
+    type: propertyType(property, ['cell', 'work', 'home', 'fax', 'pager'] as const),
+  }));
+  if (phones.length > 0) vcard.phones = phones.map(phone => compact(phone) as typeof phone);
+
+  const emails = all('EMAIL').map(property => ({
+    address: unescapeText(property.value),
+    type: propertyType(property, ['work', 'home'] as const),
+  }));
+  if (emails.length > 0) vcard.emails = emails.map(email => compact(email) as typeof email);
+
+  const websites = all('URL').map(property => property.value);
+  if (websites.length > 0) vcard.websites = websites;
+
+  const social = all('SOCIALPROFILE', 'X-SOCIALPROFILE').map(property => ({
+    network: (property.params['SERVICE-TYPE'] || property.params.TYPE || 'other').toLowerCase(),
+    url: property.value,
+  }));
+  if (social.length > 0) vcard.social = social;
+
+  const address = all('ADR')[0];
+  if (address) {
+    const [, , street, city, state, zip, country] = splitEscaped(address.value, ';').map(unescapeText);
+    vcard.address = compact({ street, city, state, zip, country });
+    const type = propertyType(address, ['work', 'home'] as const);
+    if (type) vcard.address.type = type;
+  }
+
+  const birthday = first('BDAY')?.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  if (birthday) vcard.birthday = `${birthday[1]}-${birthday[2]}-${birthday[3]}`;
+  // Embedded photos are too large for a QR code; only links are kept
+  const photo = first('PHOTO');
+  if (photo && /^https?:\/\//i.test(photo)) vcard.photoUrl = photo;
+  assignText(vcard, 'note', first('NOTE'));
+
+  return { type: 'vcard', fields: vcard };
+}
+
+/**
+ * First TYPE value (`TYPE=WORK,VOICE`, or a bare vCard 2.1 parameter such
+ * as `TEL;CELL:`) that the schema knows
+ */
+function propertyType<T extends string>(property: ContentLine, known: readonly T[]): T | undefined {
+  const types = [
+    ...(property.params.TYPE || '').split(','),
+    ...Object.keys(property.params).filter(key => property.params[key] === ''),
+  ].map(type => type.toLowerCase());
+  return known.find(type => types.includes(type));
+}
+
+/**
+ * `MECARD:N:Doe,John;TEL:...;EMAIL:...;;` (NTT DoCoMo format)
+ */
+function parseMECard(content: string): ParsedPayload | undefined {
+  if (!/^MECARD:/i.test(content)) return undefined;
+
+  const entries = parseKeyValueEntries(content.slice(7));
+  const values = parseKeyValueList(content.slice(7));
+  const all = (key: string) => entries.filter(([name]) => name === key).map(([, value]) => unescapeBackslashes(value));
+  const [lastName = '', firstName = ''] = splitEscaped(values.N || '', ',').map(unescapeBackslashes);
+
+  const vcard: VCard = { firstName, lastName, version: '3.0', cardFormat: 'mecard' };
+  assignText(vcard, 'organization', values.ORG);
+  assignText(vcard, 'title', values.TITLE);
+  assignText(vcard, 'note', values.NOTE);
+
+  const phones = all('TEL');
+  if (phones.length > 0) vcard.phones = phones.map(number => ({ number }));
+  const emails = all('EMAIL');
+  if (emails.length > 0) vcard.emails = emails.map(address => ({ address }));
+  const websites = all('URL');
+  if (websites.length > 0) vcard.websites = websites;
+
+  const birthday = values.BDAY?.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (birthday) vcard.birthday = `${birthday[1]}-${birthday[2]}-${birthday[3]}`;
+
+  if (values.ADR) {
+    // PO box, extended address, street, city, region, postal code, country
+    const [, , street, city, state, zip, country] = splitEscaped(values.ADR, ',').map(unescapeBackslashes);
+    vcard.address = compact({ street, city, state, zip, country });
+  }
+
+  return { type: 'mecard', fields: vcard };
+}
+
+/**
+ * iCalendar VEVENT, bare or wrapped in a VCALENDAR
+ */
+function parseEvent(content: string): ParsedPayload | undefined {
+  if (!/^BEGIN:(VCALENDAR|VEVENT)/i.test(content) || !/BEGIN:VEVENT/i.test(content)) {
+    return undefined;
+  }
+
+  // Event properties, and the properties of each VALARM inside the event
+  const properties: ContentLine[] = [];
+  const alarms: ContentLine[][] = [];
+  let component: 'outside' | 'event' | 'alarm' | 'other' = 'outside';
+  let nested = 0;
+  for (const line of parseContentLines(content)) {
+    const value = line.value.toUpperCase();
+    if (component === 'outside') {
+      if (line.name === 'BEGIN' && value === 'VEVENT') component = 'event';
+    } else if (component === 'event') {
+      if (line.name === 'END' && value === 'VEVENT') break;
+      if (line.name === 'BEGIN') {
+        component = value === 'VALARM' ? 'alarm' : 'other';
+        if (component === 'alarm') alarms.push([]);
+        nested = 1;
+      } else {
+        properties.push(line);
+      }
+    } else {
+      if (line.name === 'BEGIN') nested++;
+      if (line.name === 'END' && --nested === 0) component = 'event';
+      else if (component === 'alarm' && nested === 1) alarms[alarms.length - 1].push(line);
+    }
+  }
+  const property = (name: string) => properties.find(line => line.name === name);
+  const first = (name: string) => property(name)?.value;
+
+  const start = property('DTSTART');
+  const startDate = parseICalDate(start?.value);
+  if (!startDate) return undefined;
+
+  const event: Event = {
+    title: unescapeText(first('SUMMARY') || ''),
+    startDate: startDate.iso,
+    allDay: startDate.allDay,
+  };
+  const endDate = parseICalDate(first('DTEND'));
+  // A DATE end is exclusive; the generator takes the last day of the event
+  if (endDate?.allDay) event.endDate = new Date(Date.parse(endDate.iso) - 86400000).toISOString().slice(0, 10);
+  else if (endDate) event.endDate = endDate.iso;
+  // Only IANA names can be regenerated; other TZIDs leave floating times
+  const timeZone = start?.params.TZID;
+  if (timeZone && !startDate.allDay && isTimeZone(timeZone)) event.timeZone = timeZone;
+
+  assignText(event, 'description', first('DESCRIPTION'));
+  assignText(event, 'location', first('LOCATION'));
+  assignText(event, 'uid', first('UID'));
+  if (first('URL')) event.url = first('URL');
+
+  const organizer = property('ORGANIZER');
+  if (organizer) {
+    event.organizer = { email: mailtoAddress(organizer.value), ...compact({ name: organizer.params.CN }) };
+  }
+  const attendees = properties.filter(line => line.name === 'ATTENDEE');
+  if (attendees.length > 0) {
+    event.attendees = attendees.map(attendee => ({
+      email: mailtoAddress(attendee.value),
+      ...compact({ name: attendee.params.CN }),
+      role: attendeeRole(attendee.params.ROLE),
+      rsvp: attendee.params.RSVP?.toUpperCase() === 'TRUE',
+    }));
+  }
+
+  const recurrence = parseRecurrenceRule(first('RRULE'));
+  if (recurrence) event.recurrence = recurrence;
+
+  const reminders = alarms.flatMap(alarm => {
+    const trigger = alarm.find(line => line.name === 'TRIGGER');
+    // Absolute triggers and triggers relative to the end are not expressible
+    if (!trigger || trigger.params.VALUE === 'DATE-TIME' || trigger.params.RELATED === 'END') return [];
+    const minutesBefore = parseDurationBefore(trigger.value);
+    if (minutesBefore === undefined) return [];
+    const description = alarm.find(line => line.name === 'DESCRIPTION')?.value;
+    return [{ minutesBefore, ...(description ? { description: unescapeText(description) } : {}) }];
+  });
+  if (reminders.length > 0) event.alarms = reminders;
+
+  return { type: 'event', fields: event };
+}
+
+function parseICalDate(value: string | undefined): { iso: string; allDay: boolean } | undefined {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z?))?$/);
+  if (!match) return undefined;
+
+  const [, year, month, day, hour, minute, second = '00', utc] = match;
+  if (hour === undefined) {
+    return { iso: `${year}-${month}-${day}`, allDay: true };
+  }
+  // Floating and TZID times are returned without an offset
+  return { iso: `${year}-${month}-${day}T${hour}:${minute}:${second}${utc ? 'Z' : ''}`, allDay: false };
+}
+
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function mailtoAddress(value: string): string {
+  return safeDecode(value.replace(/^mailto:/i, ''));
+}
+
+function attendeeRole(role: string | undefined): 'required' | 'optional' | 'chair' {
+  const normalized = (role || '').toUpperCase();
+  if (normalized === 'CHAIR') return 'chair';
+  if (normalized === 'OPT-PARTICIPANT' || normalized === 'NON-PARTICIPANT') return 'optional';
+  return 'required';
+}
+
+/**
+ * The RRULE parts `generate_event_qr` can express; other parts are dropped
+ */
+function parseRecurrenceRule(value: string | undefined): Event['recurrence'] {
+  if (!value) return undefined;
+  const parts = Object.fromEntries(
+    value.split(';').map(part => part.split('=')).map(([key, part = '']) => [key.toUpperCase(), part])
+  );
+  const frequency = parts.FREQ?.toUpperCase();
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(frequency)) return undefined;
+
+  const rule: NonNullable<Event['recurrence']> = {
+    frequency: frequency as NonNullable<Event['recurrence']>['frequency'],
+  };
+  const interval = Number(parts.INTERVAL);
+  if (Number.isInteger(interval) && interval > 1) rule.interval = interval;
+  const count = Number(parts.COUNT);
+  if (Number.isInteger(count) && count > 0) rule.count = count;
+  const until = parseICalDate(parts.UNTIL);
+  if (until && !rule.count) rule.until = until.iso;
+  if (parts.BYDAY) {
+    rule.byDay = parts.BYDAY.toUpperCase().split(',').filter((day: string) => /^[+-]?\d{0,2}(MO|TU|WE|TH|FR|SA|SU)$/.test(day));
+  }
+  if (parts.BYMONTHDAY) {
+    rule.byMonthDay = parts.BYMONTHDAY.split(',').map(Number).filter(day => Number.isInteger(day) && day !== 0);
+  }
+  return rule;
+}
+
+// Minutes before the start for `-PT15M`, `-P1D`, `PT0S`; undefined after it
+function parseDurationBefore(value: string): number | undefined {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i);
+  if (!match) return undefined;
+  const [, sign, weeks = '0', days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  const total = Number(weeks) * 10080 + Number(days) * 1440 + Number(hours) * 60 + Number(minutes) + Math.round(Number(seconds) / 60);
+  if (total > 0 && sign !== '-') return undefined;
+  return total;
+}
+
+/**
+ * European Payments Council SEPA credit transfer ("GiroCode")
+ */
+function parseEPC(content: string): ParsedPayload | undefined {
+  const lines = content.split(/\r?\n/);
+  if (lines[0] !== 'BCD' || lines.length < 7 || !/^00[12]$/.test(lines[1])) {
+    return undefined;
+  }
+
+  const [, version, , identification, bic, name, iban, amount, purpose, reference, remittanceText, information] = lines;
+  if (identification !== 'SCT' && identification !== 'INST') return undefined;
+
+  const epc: EPCPayment = {
+    version: version as EPCPayment['version'],
+    identification,
+    name,
+    iban: iban.replace(/\s+/g, '').toUpperCase(),
+  };
+  if (bic) epc.bic = bic;
+  const euros = amount?.match(/^EUR(\d+(?:\.\d{1,2})?)$/);
+  if (euros) epc.amount = Number(euros[1]);
+  if (purpose) epc.purpose = purpose;
+  if (reference) epc.reference = reference;
+  if (remittanceText) epc.remittanceText = remittanceText;
+  if (information) epc.information = information;
+
+  return { type: 'epc', fields: epc };
+}
+
+/**
+ * `mailto:` URIs (RFC 6068) and the `MATMSG:` format
+ */
+function parseEmail(content: string): ParsedPayload | undefined {
+  if (/^MATMSG:/i.test(content)) {
+    const values = parseKeyValueList(content.slice(7));
+    if (!values.TO) return undefined;
+    const email: EmailPayload = { to: [unescapeBackslashes(values.TO)], format: 'matmsg' };
+    assignText(email, 'subject', values.SUB);
+    assignText(email, 'body', values.BODY);
+    return { type: 'email', fields: email };
+  }
+
+  const match = content.match(/^mailto:([^?]*)(?:\?(.*))?$/is);
+  if (!match) return undefined;
+
+  const email: EmailPayload = { to: splitAddresses(match[1]), format: 'mailto' };
+  for (const [key, value] of new URLSearchParams((match[2] || '').replace(/\+/g, '%2B'))) {
+    switch (key.toLowerCase()) {
+      case 'to':
+        email.to.push(...splitAddresses(value));
+        break;
+      case 'cc':
+        email.cc = [...(email.cc || []), ...splitAddresses(value)];
+        break;
+      case 'bcc':
+        email.bcc = [...(email.bcc || []), ...splitAddresses(value)];
+        break;
+      case 'subject':
+        email.subject = value;
+        break;
+      case 'body':
+        email.body = value;
+        break;
+    }
+  }
+
+  return { type: 'email', fields: email };
+}
+
+function splitAddresses(value: string): string[] {
+  return safeDecode(value).split(',').map(address => address.trim()).filter(Boolean);
+}
+
+function parsePhone(content: string): ParsedPayload | undefined {
+  const match = content.match(/^tel:([^;]+)(?:;ext=(\d+))?/i);
+  if (!match) return undefined;
+
+  const phone: PhonePayload = { number: safeDecode(match[1]) };
+  if (match[2]) phone.extension = match[2];
+  return { type: 'phone', fields: phone };
+}
+
+/**
+ * `sms:+123?body=...` (RFC 5724) and `SMSTO:+123:message`
+ */
+function parseSMS(content: string): ParsedPayload | undefined {
+  const smsto = content.match(/^SMSTO:([^:]*)(?::(.*))?$/is);
+  const sms = content.match(/^sms:([^?]*)(?:\?(.*))?$/is);
+  if (!smsto && !sms) return undefined;
+
+  const fields: SMSPayload = smsto
+    ? { number: smsto[1], message: smsto[2], format: 'smsto' }
+    : {
+      number: safeDecode(sms![1]),
+      message: new URLSearchParams((sms![2] || '').replace(/\+/g, '%2B')).get('body') ?? undefined,
+      format: 'sms',
+    };
+  if (!fields.message) delete fields.message;
+
+  return { type: 'sms', fields };
+}
+
+/**
+ * `geo:lat,lng[,alt][;u=uncertainty][?q=query]` (RFC 5870)
+ */
+function parseGeo(content: string): ParsedPayload | undefined {
+  const match = content.match(/^geo:(-?[\d.]+),(-?[\d.]+)(?:,(-?[\d.]+))?([^?]*)(?:\?(.*))?$/i);
+  if (!match) return undefined;
+
+  const geo: GeoPayload = { latitude: Number(match[1]), longitude: Number(match[2]) };
+  if (match[3] !== undefined) geo.altitude = Number(match[3]);
+  const uncertainty = match[4].match(/;u=([\d.]+)/i);
+  if (uncertainty) geo.uncertainty = Number(uncertainty[1]);
+  const query = new URLSearchParams((match[5] || '').replace(/\+/g, '%2B')).get('q');
+  // `q=lat,lng(label)` names the point itself
+  const label = query?.match(/^\s*-?[\d.]+\s*,\s*-?[\d.]+\s*\((.*)\)$/s);
+  if (label) geo.label = label[1];
+  else if (query) geo.query = query;
+
+  if (Number.isNaN(geo.latitude) || Number.isNaN(geo.longitude)) return undefined;
+  return { type: 'geo', fields: geo };
+}
+
+function parseURL(content: string): ParsedPayload | undefined {
+  if (!/^(https?:\/\/|www\.)\S+$/i.test(content)) return undefined;
+
+  try {
+    const url = new URL(/^www\./i.test(content) ? `http://${content}` : content);
+    return {
+      type: 'url',
+      fields: {
+        url: content,
+        scheme: url.protocol.replace(/:$/, ''),
+        host: url.host,
+        path: url.pathname,
+        query: Object.fromEntries(url.searchParams),
+      },
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+// Helpers
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Unfold and split vCard/iCalendar content lines into name, parameters
+ * and raw (still escaped) value
+ */
+function parseContentLines(content: string): ContentLine[] {
+  return content
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .map(line => {
+      const separator = findValueSeparator(line);
+      if (separator < 0) return undefined;
+      const [rawName, ...rawParams] = line.slice(0, separator).split(';');
+      const params: Record<string, string> = {};
+      for (const param of rawParams) {
+        const [key, value = ''] = param.split('=');
+        params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+      }
+      // Drop the group prefix of grouped properties such as `item1.TEL`
+      const name = rawName.slice(rawName.lastIndexOf('.') + 1).toUpperCase();
+      return { name, params, value: line.slice(separator + 1) };
+    })
+    .filter((line): line is ContentLine => line !== undefined);
+}
+
+// The first colon outside a quoted parameter value ends the property name
+function findValueSeparator(line: string): number {
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) return i;
+  }
+  return -1;
+}
+
+/**
+ * `KEY:value;KEY:value;;` lists as used by MECARD and MATMSG, in order and
+ * with repeated keys; values are still escaped
+ */
+function parseKeyValueEntries(content: string): Array<[string, string]> {
+  return splitEscaped(content, ';')
+    .map(field => [field, field.indexOf(':')] as const)
+    .filter(([, separator]) => separator > 0)
+    .map(([field, separator]) => [field.slice(0, separator).toUpperCase(), field.slice(separator + 1)]);
+}
+
+function parseKeyValueList(content: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const [key, value] of parseKeyValueEntries(content)) {
+    // Keep the first occurrence of repeated keys (e.g. several TEL entries)
+    if (values[key] === undefined) values[key] = value;
+  }
+  return values;
+}
+
+/**
+ * Split on a separator that is not preceded by a backslash. Escapes are
+ * kept so each part can be unescaped with the rules of its format.
+ */
+function splitEscaped(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function unescapeBackslashes(value: string): string {
+  return value.replace(/\\(.)/g, '$1');
+}
+
+// vCard/iCalendar TEXT values also escape newlines as \n
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN]|.)/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function assignText<T extends object>(target: T, key: keyof T, value: string | undefined): void {
+  if (value) {
+    (target as Record<keyof T, string>)[key] = unescapeText(value);
+  }
+}
+
+function compact<T extends Record<string, string | undefined>>(values: T): Partial<T> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value)) as Partial<T>;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
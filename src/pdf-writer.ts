@@ -0,0 +1,395 @@
+import zlib from 'zlib';
+import type { BitMatrix } from 'qrcode';
+import { QRStyle } from './types.js';
+import {
+  computeLayout,
+  computeSheetLayout,
+  hasCustomEyes,
+  traceEyeBalls,
+  traceEyeFrames,
+  traceModules,
+  traceRoundedRect,
+  PathSink,
+  SymbolLayout,
+} from './qr-shapes.js';
+import { LOGO_PADDING } from './logo-planner.js';
+
+/**
+ * Physical page sizes in PDF points (1/72 inch)
+ */
+export const PDF_PAGE_SIZES: Record<string, [number, number]> = {
+  A4: [595.28, 841.89],
+  A5: [419.53, 595.28],
+  letter: [612, 792],
+  legal: [612, 1008],
+};
+
+export interface PDFRenderOptions {
+  size: number;
+  margin: number;
+  pageSize?: string;
+  foregroundColor?: string;
+  backgroundColor?: string;
+  title?: string;
+}
+
+/**
+ * Decoded raster image: 8-bit RGB samples and a matching alpha channel,
+ * row by row from the top
+ */
+export interface PDFImage {
+  width: number;
+  height: number;
+  rgb: Buffer;
+  alpha: Buffer;
+}
+
+export interface StyledPDFRenderOptions extends PDFRenderOptions {
+  /** Logo pixels, already decoded from the logo file */
+  logo?: PDFImage;
+}
+
+/**
+ * Extra page resources: one gradient shading (/Sh1) and one image with a
+ * soft mask (/Im1)
+ */
+interface PageResources {
+  shading?: string;
+  image?: PDFImage;
+}
+
+/**
+ * Collects path commands as PDF path operators, moving the symbol to its
+ * place on the page and flipping y, since PDF user space starts at the
+ * bottom-left corner
+ */
+class PDFPathBuilder implements PathSink {
+  private commands: string[] = [];
+
+  constructor(private offsetX: number, private top: number) {}
+
+  moveTo(x: number, y: number): void {
+    this.commands.push(`${this.point(x, y)} m`);
+  }
+
+  lineTo(x: number, y: number): void {
+    this.commands.push(`${this.point(x, y)} l`);
+  }
+
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void {
+    this.commands.push(`${this.point(cp1x, cp1y)} ${this.point(cp2x, cp2y)} ${this.point(x, y)} c`);
+  }
+
+  closePath(): void {
+    this.commands.push('h');
+  }
+
+  toString(): string {
+    return this.commands.join('\n');
+  }
+
+  private point(x: number, y: number): string {
+    return `${num(this.offsetX + x)} ${num(this.top - y)}`;
+  }
+}
+
+/**
+ * Render a QR module matrix as a vector PDF document.
+ *
+ * The symbol is drawn as filled rectangles (one per horizontal run of dark
+ * modules), so the artwork stays sharp at any print resolution. With the
+ * default `fit` page size the page is exactly `size` points square; named
+ * page sizes centre the symbol on the page.
+ */
+export function renderQRToPDF(modules: BitMatrix, options: PDFRenderOptions): Buffer {
+  const symbolSize = options.size;
+  const [pageWidth, pageHeight] = PDF_PAGE_SIZES[options.pageSize || ''] || [symbolSize, symbolSize];
+  const offsetX = (pageWidth - symbolSize) / 2;
+  const offsetY = (pageHeight - symbolSize) / 2;
+
+  const ops: string[] = [];
+  ops.push(`${pdfColor(options.backgroundColor || '#ffffff')} rg`);
+  ops.push(`${num(offsetX)} ${num(offsetY)} ${num(symbolSize)} ${num(symbolSize)} re f`);
+  ops.push(`${pdfColor(options.foregroundColor || '#000000')} rg`);
+  drawSymbol(ops, modules, offsetX, offsetY, symbolSize, options.margin);
+
+  return renderPage(ops, pageWidth, pageHeight, options.title || 'QR Code');
+}
+
+/**
+ * Render a QR module matrix as a vector PDF document honouring the styling
+ * options, traced with the same geometry as the canvas and SVG renderers:
+ * dot shape, custom eyes, solid or gradient fill, rounded frame, border and
+ * the logo.
+ */
+export function renderStyledPDF(
+  modules: BitMatrix,
+  style: Partial<QRStyle>,
+  options: StyledPDFRenderOptions
+): Buffer {
+  const { size } = options;
+  const [pageWidth, pageHeight] = PDF_PAGE_SIZES[options.pageSize || ''] || [size, size];
+  const offsetX = (pageWidth - size) / 2;
+  const top = (pageHeight + size) / 2;
+  const builder = () => new PDFPathBuilder(offsetX, top);
+
+  const borderWidth = style.borderWidth || 0;
+  const layout = computeLayout(modules.size, size, options.margin, borderWidth);
+  const radius = Math.min(style.cornerRadius || 0, size / 2);
+  const background = style.backgroundColor || '#ffffff';
+  const resources: PageResources = {};
+
+  // Rounded outer frame: everything outside it stays unpainted
+  const frame = builder();
+  traceRoundedRect(frame, 0, 0, size, size, radius);
+  const ops: string[] = ['q', `${frame}`, 'W n', `${pdfColor(background)} rg`, `${frame}`, 'f'];
+
+  if (borderWidth > 0) {
+    const border = builder();
+    traceRoundedRect(
+      border,
+      borderWidth / 2,
+      borderWidth / 2,
+      size - borderWidth,
+      size - borderWidth,
+      Math.max(0, radius - borderWidth / 2)
+    );
+    ops.push(`${num(borderWidth)} w`, `${pdfColor(style.borderColor || '#000000')} RG`, `${border}`, 'S');
+  }
+
+  // A gradient is painted as a shading through the clip of the shape
+  const gradient = Boolean(style.gradientStart && style.gradientEnd);
+  if (gradient) {
+    resources.shading = gradientShading(style, layout, offsetX, top);
+  }
+  const paint = (path: PDFPathBuilder, color: string | undefined, evenOdd = false) => {
+    if (color || !gradient) {
+      ops.push(`${pdfColor(color || style.foregroundColor || '#000000')} rg`, `${path}`, evenOdd ? 'f*' : 'f');
+    } else {
+      ops.push('q', `${path}`, evenOdd ? 'W* n' : 'W n', '/Sh1 sh', 'Q');
+    }
+  };
+
+  const customEyes = hasCustomEyes(style);
+  const dots = builder();
+  traceModules(dots, modules, layout, style.dotStyle, customEyes);
+  paint(dots, undefined);
+
+  if (customEyes) {
+    const frames = builder();
+    traceEyeFrames(frames, layout, style.eyeFrameShape);
+    paint(frames, style.eyeFrameColor, true);
+
+    const balls = builder();
+    traceEyeBalls(balls, layout, style.eyeBallShape);
+    paint(balls, style.eyeBallColor || style.eyeFrameColor);
+  }
+
+  if (options.logo) {
+    const logoSize = size * (style.logoSize || 0.2);
+    const x = offsetX + (size - logoSize) / 2;
+    const y = top - (size + logoSize) / 2;
+    ops.push(
+      `${pdfColor(background)} rg`,
+      `${num(x - LOGO_PADDING)} ${num(y - LOGO_PADDING)} ` +
+      `${num(logoSize + LOGO_PADDING * 2)} ${num(logoSize + LOGO_PADDING * 2)} re f`,
+      `q ${num(logoSize)} 0 0 ${num(logoSize)} ${num(x)} ${num(y)} cm /Im1 Do Q`
+    );
+    resources.image = options.logo;
+  }
+
+  ops.push('Q');
+  return renderPage(ops, pageWidth, pageHeight, options.title || 'QR Code', resources);
+}
+
+/**
+ * Render symbols of the same size on one page sized to fit them, laid out
+ * like the SVG sheet, with each caption centred below its symbol
+ */
+export function renderQRSheetToPDF(symbols: BitMatrix[], captions: string[], options: PDFRenderOptions): Buffer {
+  const sheet = computeSheetLayout(symbols.length, options.size);
+
+  const ops: string[] = [];
+  ops.push(`${pdfColor(options.backgroundColor || '#ffffff')} rg`);
+  ops.push(`0 0 ${num(sheet.width)} ${num(sheet.height)} re f`);
+  ops.push(`${pdfColor(options.foregroundColor || '#000000')} rg`);
+
+  symbols.forEach((modules, index) => {
+    // Cells are laid out from the top, PDF user space starts at the bottom
+    const x = sheet.cells[index].x;
+    const y = sheet.height - sheet.cells[index].y - options.size;
+    drawSymbol(ops, modules, x, y, options.size, options.margin);
+
+    const caption = pdfString(captions[index] || '');
+    // Helvetica digits and spaces are about half an em wide
+    const width = caption.length * sheet.captionSize * 0.5;
+    ops.push(
+      `BT /F1 ${sheet.captionSize} Tf ${num(x + (options.size - width) / 2)} ` +
+      `${num(y - sheet.captionSize * 1.4)} Td (${caption}) Tj ET`
+    );
+  });
+
+  return renderPage(ops, sheet.width, sheet.height, options.title || 'QR Code Set');
+}
+
+/**
+ * Fill one rectangle per horizontal run of dark modules, for a symbol whose
+ * bottom-left corner (including the quiet zone) is at `x`, `y`
+ */
+function drawSymbol(ops: string[], modules: BitMatrix, x: number, y: number, size: number, margin: number): void {
+  const count = modules.size;
+  const moduleSize = size / (count + margin * 2);
+
+  for (let row = 0; row < count; row++) {
+    let col = 0;
+    while (col < count) {
+      if (!modules.get(row, col)) {
+        col++;
+        continue;
+      }
+      const start = col;
+      while (col < count && modules.get(row, col)) col++;
+
+      // PDF user space starts at the bottom-left corner, so flip rows
+      ops.push(
+        `${num(x + (start + margin) * moduleSize)} ${num(y + size - (row + margin + 1) * moduleSize)} ` +
+        `${num((col - start) * moduleSize)} ${num(moduleSize)} re`
+      );
+    }
+  }
+  ops.push('f');
+}
+
+/**
+ * Axial shading from the top-left to the bottom-right corner of the
+ * modules, or radial from their centre, matching the canvas gradient
+ */
+function gradientShading(style: Partial<QRStyle>, layout: SymbolLayout, offsetX: number, top: number): string {
+  const start = layout.origin;
+  const end = layout.origin + layout.moduleCount * layout.moduleSize;
+  const center = (start + end) / 2;
+  const coords = style.gradientType === 'radial'
+    ? [offsetX + center, top - center, 0, offsetX + center, top - center, (end - start) / Math.SQRT2]
+    : [offsetX + start, top - start, offsetX + end, top - end];
+
+  return `<< /ShadingType ${style.gradientType === 'radial' ? 3 : 2} /ColorSpace /DeviceRGB ` +
+    `/Coords [${coords.map(num).join(' ')}] /Extend [true true] ` +
+    `/Function << /FunctionType 2 /Domain [0 1] /C0 [${pdfColor(style.gradientStart!)}] ` +
+    `/C1 [${pdfColor(style.gradientEnd!)}] /N 1 >> >>`;
+}
+
+/**
+ * Single-page document around a content stream. Helvetica is available as
+ * /F1 without embedding, being one of the standard fonts. Shadings and
+ * images follow the font, before the document information.
+ */
+function renderPage(
+  ops: string[],
+  pageWidth: number,
+  pageHeight: number,
+  title: string,
+  resources: PageResources = {}
+): Buffer {
+  const content = zlib.deflateSync(Buffer.from(ops.join('\n'), 'latin1'));
+
+  const extra: Buffer[] = [];
+  let pageResources = '/Font << /F1 5 0 R >>';
+  if (resources.shading) {
+    extra.push(Buffer.from(resources.shading));
+    pageResources += ` /Shading << /Sh1 ${5 + extra.length} 0 R >>`;
+  }
+  if (resources.image) {
+    const { width, height, rgb, alpha } = resources.image;
+    const image = 6 + extra.length;
+    pageResources += ` /XObject << /Im1 ${image} 0 R >>`;
+    extra.push(
+      imageObject(`/Width ${width} /Height ${height} /ColorSpace /DeviceRGB /SMask ${image + 1} 0 R`, rgb),
+      imageObject(`/Width ${width} /Height ${height} /ColorSpace /DeviceGray`, alpha)
+    );
+  }
+
+  const objects: Buffer[] = [
+    Buffer.from('<< /Type /Catalog /Pages 2 0 R >>'),
+    Buffer.from('<< /Type /Pages /Kids [3 0 R] /Count 1 >>'),
+    Buffer.from(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(pageWidth)} ${num(pageHeight)}] ` +
+      `/Contents 4 0 R /Resources << ${pageResources} >> >>`
+    ),
+    Buffer.concat([
+      Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`),
+      content,
+      Buffer.from('\nendstream'),
+    ]),
+    Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'),
+    ...extra,
+    Buffer.from(
+      `<< /Producer (mcp-server-qrcode-enhanced) /Title (${pdfString(title)}) ` +
+      `/CreationDate (${pdfDate(new Date())}) >>`
+    ),
+  ];
+
+  return serializePDF(objects);
+}
+
+function imageObject(dictionary: string, samples: Buffer): Buffer {
+  const data = zlib.deflateSync(samples);
+  return Buffer.concat([
+    Buffer.from(
+      `<< /Type /XObject /Subtype /Image ${dictionary} /BitsPerComponent 8 ` +
+      `/Length ${data.length} /Filter /FlateDecode >>\nstream\n`
+    ),
+    data,
+    Buffer.from('\nendstream'),
+  ]);
+}
+
+function serializePDF(objects: Buffer[]): Buffer {
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  const offsets: number[] = [];
+  let position = chunks[0].length;
+
+  objects.forEach((body, index) => {
+    offsets.push(position);
+    const chunk = Buffer.concat([
+      Buffer.from(`${index + 1} 0 obj\n`),
+      body,
+      Buffer.from('\nendobj\n'),
+    ]);
+    chunks.push(chunk);
+    position += chunk.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>`,
+    'startxref',
+    String(position),
+    '%%EOF',
+  ].join('\n');
+  chunks.push(Buffer.from(xref + '\n'));
+
+  return Buffer.concat(chunks);
+}
+
+function pdfColor(hex: string): string {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+    .map(channel => num(channel / 255))
+    .join(' ');
+}
+
+function pdfString(text: string): string {
+  return text.replace(/[\\()]/g, match => `\\${match}`).replace(/[^\x20-\x7e]/g, '?');
+}
+
+function pdfDate(date: Date): string {
+  return 'D:' + date.toISOString().replace(/[-:T]/g, '').split('.')[0] + 'Z';
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(3)).toString();
+}
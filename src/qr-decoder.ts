@@ -0,0 +1,373 @@
+import jsQR from 'jsqr';
+import type { QRCode as JsQRCode } from 'jsqr';
+import { DecodedQRCode, QRLocation, QRPoint as Point } from './types.js';
+
+// Upper bound on symbols reported from one image
+const MAX_CODES = 64;
+
+// Masks are grown by this factor around their centre to also cover the quiet zone
+const MASK_GROWTH = 1.2;
+
+// Tile grids tried when whole-image detection stops finding new symbols
+const TILE_GRIDS = [2, 3, 4, 6, 8];
+
+// Time allowed for tile scanning per image; noisy photos make every tile slow
+const TILE_SCAN_BUDGET_MS = 15000;
+
+// Always pass options explicitly: jsQR 1.4 writes provided options into its
+// shared defaults, so one call with 'dontInvert' would leak into the next.
+const JSQR_OPTIONS = { inversionAttempts: 'attemptBoth' } as const;
+
+// Smallest tile worth scanning: a version 1 symbol at two pixels per module
+const MIN_TILE_SIZE = 58;
+
+const ECL_BY_BITS: Record<number, string> = { 0: 'M', 1: 'L', 2: 'H', 3: 'Q' };
+
+// All 32 valid format information words, indexed by (ecl bits << 3 | mask)
+const FORMAT_WORDS = Array.from({ length: 32 }, (_, data) => {
+  let remainder = data << 10;
+  for (let bit = 14; bit >= 10; bit--) {
+    if (remainder & (1 << bit)) remainder ^= 0x537 << (bit - 10);
+  }
+  return ((data << 10) | remainder) ^ 0x5412;
+});
+
+/**
+ * Decode the most prominent QR code in an RGBA image
+ */
+export function decodeSingle(data: Uint8ClampedArray, width: number, height: number): DecodedQRCode | null {
+  const code = jsQR(data, width, height, JSQR_OPTIONS);
+  return code ? describeCode(code, data, width, height) : null;
+}
+
+/**
+ * Find every QR code in an RGBA image. Each decoded symbol is painted over
+ * so the next pass can find the following one; when the whole image yields
+ * nothing more, progressively smaller overlapping tiles are scanned to pick
+ * up symbols that whole-image detection overlooks (busy sheets confuse the
+ * finder pattern search, and small codes fall below its scale).
+ */
+export function decodeAll(
+  source: Uint8ClampedArray,
+  width: number,
+  height: number,
+  deadline: number = Date.now() + TILE_SCAN_BUDGET_MS
+): DecodedQRCode[] {
+  const data = new Uint8ClampedArray(source);
+  const codes: DecodedQRCode[] = [];
+
+  // Record a symbol and paint it out; false when nothing new was learned
+  const accept = (code: DecodedQRCode): boolean => {
+    maskRegion(data, width, height, code.location);
+    if (codes.some(existing => isSameSymbol(existing, code))) {
+      return false;
+    }
+    codes.push(code);
+    return true;
+  };
+
+  let progress = true;
+  while (progress && codes.length < MAX_CODES) {
+    // A symbol found again was not fully painted out; the tiles may still
+    // hold others
+    const found = jsQR(data, width, height, JSQR_OPTIONS);
+    if (found && accept(describeCode(found, source, width, height))) continue;
+
+    progress = false;
+    for (const tile of tiles(width, height)) {
+      if (Date.now() > deadline) break;
+      while (codes.length < MAX_CODES) {
+        const pixels = cropPixels(data, width, tile.left, tile.top, tile.width, tile.height);
+        const inTile = jsQR(pixels, tile.width, tile.height, JSQR_OPTIONS);
+        if (!inTile || !accept(describeCode(offsetCode(inTile, tile.left, tile.top), source, width, height))) {
+          break;
+        }
+        progress = true;
+      }
+    }
+  }
+
+  return codes;
+}
+
+/**
+ * Overlapping tiles for each grid size. Tiles span two grid steps and start
+ * every half step, so a symbol smaller than a step fits whole in several of
+ * them, at least one of which usually excludes its neighbours.
+ */
+function tiles(width: number, height: number): Array<{ left: number; top: number; width: number; height: number }> {
+  const result = [];
+  for (const grid of TILE_GRIDS) {
+    const stepX = Math.floor(width / (grid + 1));
+    const stepY = Math.floor(height / (grid + 1));
+    if (stepX * 2 < MIN_TILE_SIZE || stepY * 2 < MIN_TILE_SIZE) break;
+
+    for (let top = 0; top + stepY * 2 <= height; top += Math.ceil(stepY / 2)) {
+      for (let left = 0; left + stepX * 2 <= width; left += Math.ceil(stepX / 2)) {
+        result.push({ left, top, width: stepX * 2, height: stepY * 2 });
+      }
+    }
+  }
+  return result;
+}
+
+function describeCode(
+  code: JsQRCode,
+  data: Uint8ClampedArray,
+  width: number,
+  height: number
+): DecodedQRCode {
+  const { topLeftCorner, topRightCorner, bottomRightCorner, bottomLeftCorner } = code.location;
+  const location = { topLeftCorner, topRightCorner, bottomRightCorner, bottomLeftCorner };
+  const format = readFormatInfo(data, width, height, location, code.version);
+
+  return {
+    content: code.data,
+    version: code.version,
+    errorCorrectionLevel: format?.errorCorrectionLevel,
+    maskPattern: format?.maskPattern,
+    modules: 17 + code.version * 4,
+    location,
+  };
+}
+
+/**
+ * Read the error correction level and mask pattern from the format
+ * information modules, picking the valid word closest to both copies.
+ */
+export function readFormatInfo(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  location: QRLocation,
+  version: number
+): { errorCorrectionLevel: string; maskPattern: number } | undefined {
+  const sampler = createSampler(data, width, height, location, version);
+  const size = sampler.dimension;
+
+  let first = 0;
+  let second = 0;
+  for (let i = 0; i < 15; i++) {
+    const [row1, col1] = i < 6 ? [i, 8] : i < 8 ? [i + 1, 8] : i === 8 ? [8, 7] : [8, 14 - i];
+    const [row2, col2] = i < 8 ? [8, size - 1 - i] : [size - 15 + i, 8];
+    if (sampler.isDark(row1, col1)) first |= 1 << i;
+    if (sampler.isDark(row2, col2)) second |= 1 << i;
+  }
+
+  let best = -1;
+  let bestDistance = Infinity;
+  FORMAT_WORDS.forEach((word, index) => {
+    const distance = Math.min(bitCount(word ^ first), bitCount(word ^ second));
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  });
+
+  // Format words are at least 7 bits apart, so more than 3 errors is a guess
+  if (best < 0 || bestDistance > 3) {
+    return undefined;
+  }
+
+  return {
+    errorCorrectionLevel: ECL_BY_BITS[best >> 3],
+    maskPattern: best & 7,
+  };
+}
+
+export interface ModuleSampler {
+  dimension: number;
+  /** Image position of a point in module coordinates (module corners at integers) */
+  point(row: number, col: number): Point;
+  /** Image position of the centre of a module */
+  center(row: number, col: number): Point;
+  /** Luminance (0-255) at an image position, clamped to the image */
+  luminanceAt(point: Point): number;
+  /** Luminance (0-255) at the centre of a module */
+  luminance(row: number, col: number): number;
+  isDark(row: number, col: number): boolean;
+  threshold: number;
+  /** Light modules on a dark background */
+  inverted: boolean;
+}
+
+/**
+ * Map module coordinates onto the image through the perspective transform
+ * defined by the symbol's four corners, with a dark/light threshold taken
+ * from the top-left finder pattern.
+ */
+export function createSampler(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  location: QRLocation,
+  version: number
+): ModuleSampler {
+  const dimension = 17 + version * 4;
+  const transform = squareToQuad(
+    location.topLeftCorner,
+    location.topRightCorner,
+    location.bottomRightCorner,
+    location.bottomLeftCorner
+  );
+
+  const point = (row: number, col: number): Point => transform(col / dimension, row / dimension);
+  const center = (row: number, col: number): Point => point(row + 0.5, col + 0.5);
+
+  const luminanceAt = (position: Point): number => {
+    const x = Math.min(width - 1, Math.max(0, Math.round(position.x)));
+    const y = Math.min(height - 1, Math.max(0, Math.round(position.y)));
+    const offset = (y * width + x) * 4;
+    return 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+  };
+  const luminance = (row: number, col: number): number => luminanceAt(center(row, col));
+
+  // Finder centre (3x3) is dark, the ring at distance 1 is light
+  const dark = average([[2, 2], [2, 3], [2, 4], [3, 2], [3, 3], [3, 4], [4, 2], [4, 3], [4, 4]]
+    .map(([row, col]) => luminance(row, col)));
+  const light = average([[1, 1], [1, 3], [1, 5], [3, 1], [3, 5], [5, 1], [5, 3], [5, 5]]
+    .map(([row, col]) => luminance(row, col)));
+  const threshold = (dark + light) / 2;
+  const inverted = dark > light;
+
+  return {
+    dimension,
+    point,
+    center,
+    luminanceAt,
+    luminance,
+    threshold,
+    inverted,
+    isDark: (row, col) => (luminance(row, col) < threshold) !== inverted,
+  };
+}
+
+/**
+ * Perspective transform taking the unit square onto a quadrilateral
+ */
+export function squareToQuad(p0: Point, p1: Point, p2: Point, p3: Point): (u: number, v: number) => Point {
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+
+  let a11: number, a12: number, a13: number, a21: number, a22: number, a23: number;
+  if (dx3 === 0 && dy3 === 0) {
+    a11 = p1.x - p0.x;
+    a21 = p2.x - p1.x;
+    a12 = p1.y - p0.y;
+    a22 = p2.y - p1.y;
+    a13 = 0;
+    a23 = 0;
+  } else {
+    const dx1 = p1.x - p2.x;
+    const dx2 = p3.x - p2.x;
+    const dy1 = p1.y - p2.y;
+    const dy2 = p3.y - p2.y;
+    const denominator = dx1 * dy2 - dx2 * dy1;
+    a13 = (dx3 * dy2 - dx2 * dy3) / denominator;
+    a23 = (dx1 * dy3 - dx3 * dy1) / denominator;
+    a11 = p1.x - p0.x + a13 * p1.x;
+    a21 = p3.x - p0.x + a23 * p3.x;
+    a12 = p1.y - p0.y + a13 * p1.y;
+    a22 = p3.y - p0.y + a23 * p3.y;
+  }
+
+  return (u, v) => {
+    const w = a13 * u + a23 * v + 1;
+    return {
+      x: (a11 * u + a21 * v + p0.x) / w,
+      y: (a12 * u + a22 * v + p0.y) / w,
+    };
+  };
+}
+
+/**
+ * Paint a found symbol (grown to include its quiet zone) white
+ */
+function maskRegion(data: Uint8ClampedArray, width: number, height: number, location: QRLocation): void {
+  const corners = [
+    location.topLeftCorner,
+    location.topRightCorner,
+    location.bottomRightCorner,
+    location.bottomLeftCorner,
+  ];
+  const cx = average(corners.map(p => p.x));
+  const cy = average(corners.map(p => p.y));
+  const polygon = corners.map(p => ({ x: cx + (p.x - cx) * MASK_GROWTH, y: cy + (p.y - cy) * MASK_GROWTH }));
+
+  const minX = Math.max(0, Math.floor(Math.min(...polygon.map(p => p.x))));
+  const maxX = Math.min(width - 1, Math.ceil(Math.max(...polygon.map(p => p.x))));
+  const minY = Math.max(0, Math.floor(Math.min(...polygon.map(p => p.y))));
+  const maxY = Math.min(height - 1, Math.ceil(Math.max(...polygon.map(p => p.y))));
+
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      if (!insidePolygon(polygon, x, y)) continue;
+      const offset = (y * width + x) * 4;
+      data[offset] = data[offset + 1] = data[offset + 2] = data[offset + 3] = 255;
+    }
+  }
+}
+
+function insidePolygon(polygon: Point[], x: number, y: number): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function cropPixels(
+  data: Uint8ClampedArray,
+  width: number,
+  left: number,
+  top: number,
+  cropWidth: number,
+  cropHeight: number
+): Uint8ClampedArray {
+  const out = new Uint8ClampedArray(cropWidth * cropHeight * 4);
+  for (let y = 0; y < cropHeight; y++) {
+    const start = ((top + y) * width + left) * 4;
+    out.set(data.subarray(start, start + cropWidth * 4), y * cropWidth * 4);
+  }
+  return out;
+}
+
+function offsetCode(code: JsQRCode, dx: number, dy: number): JsQRCode {
+  const shift = (point: Point) => ({ x: point.x + dx, y: point.y + dy });
+  const location = Object.fromEntries(
+    Object.entries(code.location).map(([key, point]) => [key, point && shift(point)])
+  ) as JsQRCode['location'];
+  return { ...code, location };
+}
+
+function isSameSymbol(a: DecodedQRCode, b: DecodedQRCode): boolean {
+  if (a.content !== b.content) return false;
+  const centre = (code: DecodedQRCode) => ({
+    x: (code.location.topLeftCorner.x + code.location.bottomRightCorner.x) / 2,
+    y: (code.location.topLeftCorner.y + code.location.bottomRightCorner.y) / 2,
+  });
+  const ca = centre(a);
+  const cb = centre(b);
+  const span = Math.hypot(
+    a.location.topRightCorner.x - a.location.topLeftCorner.x,
+    a.location.topRightCorner.y - a.location.topLeftCorner.y
+  );
+  return Math.hypot(ca.x - cb.x, ca.y - cb.y) < span / 2;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function bitCount(value: number): number {
+  let count = 0;
+  while (value) {
+    count += value & 1;
+    value >>>= 1;
+  }
+  return count;
+}
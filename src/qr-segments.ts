@@ -0,0 +1,240 @@
+import type { QRCodeOptions, QRCodeSegment } from 'qrcode';
+import toSJIS from 'qrcode/helper/to-sjis.js';
+import type { ErrorCorrectionLevel, QRSegment } from './types.js';
+
+type SegmentMode = QRSegment['mode'];
+
+const MODES: SegmentMode[] = ['numeric', 'alphanumeric', 'byte', 'kanji'];
+
+// Character count indicator length for versions 1-9, 10-26 and 27-40
+const COUNT_BITS: Record<SegmentMode, [number, number, number]> = {
+  numeric: [10, 12, 14],
+  alphanumeric: [9, 11, 13],
+  byte: [8, 16, 16],
+  kanji: [8, 10, 12],
+};
+
+// Mode indicators of the four data modes
+const MODE_INDICATORS: Record<SegmentMode, number> = { numeric: 1, alphanumeric: 2, byte: 4, kanji: 8 };
+
+const VERSION_BANDS: Array<[number, number]> = [[1, 9], [10, 26], [27, 40]];
+
+const ALPHANUMERIC = /^[0-9A-Z $%*+\-./:]$/;
+
+/** Alphanumeric mode characters, in the order of their values */
+export const ALPHANUMERIC_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+/**
+ * Bits a segment takes in a symbol of the given version, including the mode
+ * indicator and character count
+ */
+export function segmentBits(segment: QRSegment, version: number): number {
+  const length = segmentLength(segment);
+  const header = 4 + COUNT_BITS[segment.mode][versionBand(version)];
+  switch (segment.mode) {
+    case 'numeric':
+      return header + Math.floor(length / 3) * 10 + [0, 4, 7][length % 3];
+    case 'alphanumeric':
+      return header + Math.floor(length / 2) * 11 + (length % 2) * 6;
+    case 'kanji':
+      return header + length * 13;
+    default:
+      return header + length * 8;
+  }
+}
+
+/**
+ * Value of the character count field: bytes in byte mode, characters otherwise
+ */
+export function segmentLength(segment: QRSegment): number {
+  return segment.mode === 'byte' ? Buffer.byteLength(segment.data, 'utf8') : Array.from(segment.data).length;
+}
+
+/**
+ * Split content into the segments that encode it in the fewest bits for
+ * symbols of the given version. The count fields only change size at
+ * versions 10 and 27, so the result holds for the whole band.
+ */
+export function splitSegments(content: string, version: number): QRSegment[] {
+  const chars = Array.from(content);
+  if (chars.length === 0) return [];
+
+  const band = versionBand(version);
+  // Costs are kept in sixths of a bit so numeric (10/3) and alphanumeric
+  // (11/2) characters stay integral
+  const headCosts = MODES.map(mode => (4 + COUNT_BITS[mode][band]) * 6);
+  const choices: SegmentMode[][] = [];
+  let costs = headCosts.slice();
+
+  for (const char of chars) {
+    // State m: the next character continues a segment in mode m.
+    // Staying in a mode pays for the character in that mode...
+    const encoded = costs.map((cost, m) => cost + characterCost(char, MODES[m]));
+    const next = encoded.slice();
+    const from = MODES.slice();
+
+    // ...switching ends the segment on a whole bit and pays the new header
+    for (let to = 0; to < MODES.length; to++) {
+      for (let m = 0; m < MODES.length; m++) {
+        const switched = Math.ceil(encoded[m] / 6) * 6 + headCosts[to];
+        if (m !== to && switched < next[to]) {
+          next[to] = switched;
+          from[to] = MODES[m];
+        }
+      }
+    }
+
+    // from[m]: mode the character was encoded in to reach state m
+    choices.push(from);
+    costs = next;
+  }
+
+  // Walk back from the cheapest final state to recover each character's mode
+  let state = costs.indexOf(Math.min(...costs));
+  const modes: SegmentMode[] = new Array(chars.length);
+  for (let i = chars.length - 1; i >= 0; i--) {
+    modes[i] = choices[i][state];
+    state = MODES.indexOf(modes[i]);
+  }
+
+  const segments: QRSegment[] = [];
+  chars.forEach((char, i) => {
+    const last = segments[segments.length - 1];
+    if (last && last.mode === modes[i]) {
+      last.data += char;
+    } else {
+      segments.push({ mode: modes[i], data: char });
+    }
+  });
+  return segments;
+}
+
+/**
+ * Segments in the form the qrcode encoder takes
+ */
+export function toEncoderSegments(segments: QRSegment[]): QRCodeSegment[] {
+  return segments.map(segment => segment.mode === 'byte'
+    ? { mode: 'byte', data: Buffer.from(segment.data, 'utf8') }
+    : { mode: segment.mode, data: segment.data } as QRCodeSegment);
+}
+
+/**
+ * Encoder input and options for plain content or explicit segments.
+ * Kanji segments need the Shift JIS table; the encoder keeps it for every
+ * later symbol once given, so it is only handed over when required.
+ */
+export function encoderInput(
+  content: string | QRSegment[],
+  errorCorrectionLevel: ErrorCorrectionLevel
+): { input: string | QRCodeSegment[]; options: QRCodeOptions } {
+  if (typeof content === 'string') {
+    return { input: content, options: { errorCorrectionLevel } };
+  }
+  return {
+    input: toEncoderSegments(content),
+    options: content.some(segment => segment.mode === 'kanji')
+      ? { errorCorrectionLevel, toSJISFunc: toSJIS }
+      : { errorCorrectionLevel },
+  };
+}
+
+/**
+ * The text a list of segments spells out
+ */
+export function joinSegments(segments: QRSegment[]): string {
+  return segments.map(segment => segment.data).join('');
+}
+
+/**
+ * Reject a segment that cannot hold its data in its mode
+ */
+export function findInvalidSegment(segments: QRSegment[]): QRSegment | undefined {
+  return segments.find(segment =>
+    !MODES.includes(segment.mode) ||
+    typeof segment.data !== 'string' ||
+    segment.data.length === 0 ||
+    Array.from(segment.data).some(char => !Number.isFinite(characterCost(char, segment.mode)))
+  );
+}
+
+export function versionBand(version: number): number {
+  return VERSION_BANDS.findIndex(([first, last]) => version >= first && version <= last);
+}
+
+function characterCost(char: string, mode: SegmentMode): number {
+  switch (mode) {
+    case 'numeric':
+      return char >= '0' && char <= '9' ? 20 : Infinity;
+    case 'alphanumeric':
+      return ALPHANUMERIC.test(char) ? 33 : Infinity;
+    case 'kanji':
+      return isKanji(char) ? 78 : Infinity;
+    default:
+      return Buffer.byteLength(char, 'utf8') * 48;
+  }
+}
+
+function isKanji(char: string): boolean {
+  if (char.length !== 1) return false;
+  const code = toSJIS(char);
+  return code !== undefined && ((code >= 0x8140 && code <= 0x9ffc) || (code >= 0xe040 && code <= 0xebbf));
+}
+
+/**
+ * Append the bits of one segment (mode indicator, count and data) to a
+ * bit stream, for symbols that are assembled outside the qrcode encoder
+ */
+export function writeSegment(bits: number[], segment: QRSegment, version: number): void {
+  appendBits(bits, MODE_INDICATORS[segment.mode], 4);
+  appendBits(bits, segmentLength(segment), COUNT_BITS[segment.mode][versionBand(version)]);
+
+  switch (segment.mode) {
+    case 'numeric':
+      for (let i = 0; i < segment.data.length; i += 3) {
+        const group = segment.data.slice(i, i + 3);
+        appendBits(bits, Number(group), [0, 4, 7, 10][group.length]);
+      }
+      break;
+    case 'alphanumeric':
+      for (let i = 0; i < segment.data.length; i += 2) {
+        const first = ALPHANUMERIC_CHARSET.indexOf(segment.data[i]);
+        if (i + 1 < segment.data.length) {
+          appendBits(bits, first * 45 + ALPHANUMERIC_CHARSET.indexOf(segment.data[i + 1]), 11);
+        } else {
+          appendBits(bits, first, 6);
+        }
+      }
+      break;
+    case 'kanji':
+      for (const char of segment.data) {
+        const code = toSJIS(char)!;
+        const offset = code - (code <= 0x9ffc ? 0x8140 : 0xc140);
+        appendBits(bits, (offset >> 8) * 0xc0 + (offset & 0xff), 13);
+      }
+      break;
+    default:
+      for (const byte of Buffer.from(segment.data, 'utf8')) {
+        appendBits(bits, byte, 8);
+      }
+  }
+}
+
+/**
+ * Bytes a segment stands for: UTF-8 for byte mode, Shift JIS for kanji and
+ * the characters themselves otherwise
+ */
+export function segmentBytes(segment: QRSegment): number[] {
+  if (segment.mode !== 'kanji') {
+    return Array.from(Buffer.from(segment.data, 'utf8'));
+  }
+  return Array.from(segment.data).flatMap(char => {
+    const code = toSJIS(char)!;
+    return [code >> 8, code & 0xff];
+  });
+}
+
+export function appendBits(bits: number[], value: number, length: number): void {
+  for (let i = length - 1; i >= 0; i--) {
+    bits.push((value >>> i) & 1);
+  }
+}
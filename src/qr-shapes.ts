@@ -0,0 +1,295 @@
+import type { BitMatrix } from 'qrcode';
+import { QRStyle } from './types.js';
+
+/**
+ * Minimal path-building surface shared by the node-canvas 2D context and
+ * the SVG path builder, so every renderer traces identical geometry.
+ */
+export interface PathSink {
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void;
+  closePath(): void;
+}
+
+/**
+ * Pixel geometry of a rendered symbol
+ */
+export interface SymbolLayout {
+  size: number;
+  moduleCount: number;
+  moduleSize: number;
+  /** Pixel offset of module (0, 0) from the top-left of the image */
+  origin: number;
+  borderWidth: number;
+}
+
+/**
+ * Corner radii in top-left, top-right, bottom-right, bottom-left order
+ */
+export type CornerRadii = [number, number, number, number];
+
+export type EyeShape = NonNullable<QRStyle['eyeFrameShape']>;
+
+type FinderCorner = 'topLeft' | 'topRight' | 'bottomLeft';
+
+// Control point distance for approximating a quarter circle with a cubic Bézier
+const KAPPA = 0.5522847498;
+
+const FINDER_SIZE = 7;
+
+/**
+ * Lay out a symbol inside a square image. The border sits outside the quiet
+ * zone so that it never eats into the margin scanners rely on.
+ */
+export function computeLayout(
+  moduleCount: number,
+  size: number,
+  margin: number,
+  borderWidth: number = 0
+): SymbolLayout {
+  const inner = size - borderWidth * 2;
+  const moduleSize = inner / (moduleCount + margin * 2);
+
+  return {
+    size,
+    moduleCount,
+    moduleSize,
+    origin: borderWidth + margin * moduleSize,
+    borderWidth,
+  };
+}
+
+/**
+ * Geometry of a sheet of equally sized symbols, each with a caption below
+ */
+export interface SheetLayout {
+  width: number;
+  height: number;
+  /** Top-left corner of each symbol, in reading order */
+  cells: Array<{ x: number; y: number }>;
+  captionSize: number;
+}
+
+/**
+ * Lay out `count` symbols of `size` pixels in a near-square grid. The gap
+ * between symbols keeps their quiet zones apart when the sheet is scanned
+ * as one image.
+ */
+export function computeSheetLayout(count: number, size: number): SheetLayout {
+  const columns = Math.ceil(Math.sqrt(count));
+  const rows = Math.ceil(count / columns);
+  const gap = Math.round(size / 8);
+  const captionSize = Math.max(10, Math.round(size / 12));
+  const cellHeight = size + captionSize * 2;
+
+  return {
+    width: columns * size + (columns + 1) * gap,
+    height: rows * cellHeight + (rows + 1) * gap,
+    cells: Array.from({ length: count }, (_, index) => ({
+      x: gap + (index % columns) * (size + gap),
+      y: gap + Math.floor(index / columns) * (cellHeight + gap),
+    })),
+    captionSize,
+  };
+}
+
+/**
+ * Whether a module belongs to one of the three 7x7 finder patterns
+ */
+export function isFinderModule(row: number, col: number, moduleCount: number): boolean {
+  const top = row < FINDER_SIZE;
+  const left = col < FINDER_SIZE;
+  const bottom = row >= moduleCount - FINDER_SIZE;
+  const right = col >= moduleCount - FINDER_SIZE;
+  return (top && left) || (top && right) || (bottom && left);
+}
+
+/**
+ * Whether the style asks for finder patterns to be drawn separately
+ */
+export function hasCustomEyes(style: Partial<QRStyle>): boolean {
+  return Boolean(style.eyeFrameShape || style.eyeBallShape || style.eyeFrameColor || style.eyeBallColor);
+}
+
+/**
+ * Trace every dark module of the matrix using the requested dot style.
+ * Function patterns (finder, timing, alignment and format information) are
+ * always traced as plain squares so detection keeps working regardless of
+ * the data module shape. With `skipFinders` the finder patterns are left
+ * out entirely so they can be drawn as styled eyes.
+ */
+export function traceModules(
+  sink: PathSink,
+  modules: BitMatrix,
+  layout: SymbolLayout,
+  dotStyle: QRStyle['dotStyle'] = 'square',
+  skipFinders: boolean = false
+): void {
+  const { moduleCount, moduleSize, origin } = layout;
+  const isDrawn = (row: number, col: number) =>
+    modules.get(row, col) && !(skipFinders && isFinderModule(row, col, moduleCount));
+  const isSquare = (row: number, col: number) =>
+    modules.isReserved(row, col) || (dotStyle !== 'round' && dotStyle !== 'diamond');
+
+  for (let row = 0; row < moduleCount; row++) {
+    const y = origin + row * moduleSize;
+    let col = 0;
+
+    while (col < moduleCount) {
+      if (!isDrawn(row, col)) {
+        col++;
+        continue;
+      }
+
+      const x = origin + col * moduleSize;
+
+      if (isSquare(row, col)) {
+        // Merge horizontal runs of square modules into a single rectangle
+        const start = col;
+        while (col < moduleCount && isDrawn(row, col) && isSquare(row, col)) col++;
+        traceRect(sink, x, y, (col - start) * moduleSize, moduleSize);
+        continue;
+      }
+
+      if (dotStyle === 'round') {
+        traceCircle(sink, x + moduleSize / 2, y + moduleSize / 2, moduleSize / 2);
+      } else {
+        traceDiamond(sink, x, y, moduleSize);
+      }
+      col++;
+    }
+  }
+}
+
+/**
+ * Trace the 7x7 outer rings of the three finder patterns. Each ring is an
+ * outer and an inner outline, so it must be filled with the even-odd rule.
+ */
+export function traceEyeFrames(sink: PathSink, layout: SymbolLayout, shape: EyeShape = 'square'): void {
+  const { moduleSize } = layout;
+
+  for (const eye of finderOrigins(layout)) {
+    traceEyeShape(sink, eye.x, eye.y, moduleSize * 7, shape, eye.corner);
+    traceEyeShape(sink, eye.x + moduleSize, eye.y + moduleSize, moduleSize * 5, shape, eye.corner);
+  }
+}
+
+/**
+ * Trace the 3x3 centres of the three finder patterns
+ */
+export function traceEyeBalls(sink: PathSink, layout: SymbolLayout, shape: EyeShape = 'square'): void {
+  const { moduleSize } = layout;
+
+  for (const eye of finderOrigins(layout)) {
+    traceEyeShape(sink, eye.x + moduleSize * 2, eye.y + moduleSize * 2, moduleSize * 3, shape, eye.corner);
+  }
+}
+
+function finderOrigins(layout: SymbolLayout): Array<{ x: number; y: number; corner: FinderCorner }> {
+  const { origin, moduleSize, moduleCount } = layout;
+  const far = origin + (moduleCount - FINDER_SIZE) * moduleSize;
+
+  return [
+    { x: origin, y: origin, corner: 'topLeft' },
+    { x: far, y: origin, corner: 'topRight' },
+    { x: origin, y: far, corner: 'bottomLeft' },
+  ];
+}
+
+function traceEyeShape(
+  sink: PathSink,
+  x: number,
+  y: number,
+  size: number,
+  shape: EyeShape,
+  corner: FinderCorner
+): void {
+  switch (shape) {
+    case 'circle':
+      traceCircle(sink, x + size / 2, y + size / 2, size / 2);
+      break;
+    case 'rounded':
+      traceRoundedRect(sink, x, y, size, size, size * 0.25);
+      break;
+    case 'leaf': {
+      // Round the outward and inward corners so every leaf points at the centre
+      const r = size / 2;
+      const radii: CornerRadii = corner === 'topLeft' ? [r, 0, r, 0] : [0, r, 0, r];
+      traceRoundedRect(sink, x, y, size, size, radii);
+      break;
+    }
+    case 'square':
+    default:
+      traceRect(sink, x, y, size, size);
+      break;
+  }
+}
+
+export function traceRect(sink: PathSink, x: number, y: number, width: number, height: number): void {
+  sink.moveTo(x, y);
+  sink.lineTo(x + width, y);
+  sink.lineTo(x + width, y + height);
+  sink.lineTo(x, y + height);
+  sink.closePath();
+}
+
+export function traceRoundedRect(
+  sink: PathSink,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius: number | CornerRadii
+): void {
+  const limit = Math.min(width, height) / 2;
+  const [tl, tr, br, bl] = (typeof radius === 'number' ? [radius, radius, radius, radius] : radius)
+    .map(r => Math.max(0, Math.min(r, limit)));
+
+  if (tl + tr + br + bl === 0) {
+    traceRect(sink, x, y, width, height);
+    return;
+  }
+
+  sink.moveTo(x + tl, y);
+  sink.lineTo(x + width - tr, y);
+  if (tr > 0) {
+    sink.bezierCurveTo(x + width - tr + tr * KAPPA, y, x + width, y + tr - tr * KAPPA, x + width, y + tr);
+  }
+  sink.lineTo(x + width, y + height - br);
+  if (br > 0) {
+    sink.bezierCurveTo(
+      x + width, y + height - br + br * KAPPA,
+      x + width - br + br * KAPPA, y + height,
+      x + width - br, y + height
+    );
+  }
+  sink.lineTo(x + bl, y + height);
+  if (bl > 0) {
+    sink.bezierCurveTo(x + bl - bl * KAPPA, y + height, x, y + height - bl + bl * KAPPA, x, y + height - bl);
+  }
+  sink.lineTo(x, y + tl);
+  if (tl > 0) {
+    sink.bezierCurveTo(x, y + tl - tl * KAPPA, x + tl - tl * KAPPA, y, x + tl, y);
+  }
+  sink.closePath();
+}
+
+export function traceCircle(sink: PathSink, cx: number, cy: number, radius: number): void {
+  const k = radius * KAPPA;
+  sink.moveTo(cx + radius, cy);
+  sink.bezierCurveTo(cx + radius, cy + k, cx + k, cy + radius, cx, cy + radius);
+  sink.bezierCurveTo(cx - k, cy + radius, cx - radius, cy + k, cx - radius, cy);
+  sink.bezierCurveTo(cx - radius, cy - k, cx - k, cy - radius, cx, cy - radius);
+  sink.bezierCurveTo(cx + k, cy - radius, cx + radius, cy - k, cx + radius, cy);
+  sink.closePath();
+}
+
+export function traceDiamond(sink: PathSink, x: number, y: number, size: number): void {
+  const half = size / 2;
+  sink.moveTo(x + half, y);
+  sink.lineTo(x + size, y + half);
+  sink.lineTo(x + half, y + size);
+  sink.lineTo(x, y + half);
+  sink.closePath();
+}
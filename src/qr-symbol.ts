@@ -0,0 +1,379 @@
+import QRCode from 'qrcode';
+import type { BitMatrix } from 'qrcode';
+import { dataCapacityBits } from './capacity-planner.js';
+import type { ErrorCorrectionLevel } from './types.js';
+import { rsDecode, rsEncode } from './reed-solomon.js';
+import { ALPHANUMERIC_CHARSET, appendBits } from './qr-segments.js';
+
+// Error correction blocks of versions 1-40 (ISO/IEC 18004 table 9)
+const BLOCK_COUNTS: Record<ErrorCorrectionLevel, number[]> = {
+  L: [
+    1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8,
+    8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25,
+  ],
+  M: [
+    1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16,
+    17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+  ],
+  Q: [
+    1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20,
+    23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68,
+  ],
+  H: [
+    1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25,
+    25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81,
+  ],
+};
+
+const MASKS: Array<(row: number, col: number) => boolean> = [
+  (row, col) => (row + col) % 2 === 0,
+  row => row % 2 === 0,
+  (_, col) => col % 3 === 0,
+  (row, col) => (row + col) % 3 === 0,
+  (row, col) => (Math.floor(row / 2) + Math.floor(col / 3)) % 2 === 0,
+  (row, col) => ((row * col) % 2) + ((row * col) % 3) === 0,
+  (row, col) => (((row * col) % 2) + ((row * col) % 3)) % 2 === 0,
+  (row, col) => (((row + col) % 2) + ((row * col) % 3)) % 2 === 0,
+];
+
+const PAD_BYTES = [0xec, 0x11];
+
+export interface StructuredAppendHeader {
+  /** Position of the symbol in its set, from 0 */
+  position: number;
+  /** Symbols in the set */
+  total: number;
+  /** XOR of every data byte of the whole set */
+  parity: number;
+}
+
+export interface SymbolData {
+  text: string;
+  /** Data bytes, as the parity of a Structured Append set counts them */
+  bytes: number[];
+  structuredAppend?: StructuredAppendHeader;
+}
+
+/**
+ * Build a symbol from a ready bit stream (mode indicators included). The
+ * qrcode encoder supplies the function patterns; data placement, error
+ * correction and mask selection happen here, for streams it cannot express.
+ */
+export function encodeSymbol(stream: number[], version: number, errorCorrectionLevel: ErrorCorrectionLevel): BitMatrix {
+  const codewords = interleave(toDataCodewords(stream, version, errorCorrectionLevel), version, errorCorrectionLevel);
+
+  let best: BitMatrix | undefined;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const { modules } = QRCode.create('0', {
+      version,
+      errorCorrectionLevel,
+      maskPattern: mask as QRCode.QRCodeMaskPattern,
+    });
+    placeCodewords(modules, codewords, mask);
+
+    const score = penalty(modules);
+    if (score < bestPenalty) {
+      best = modules;
+      bestPenalty = score;
+    }
+  }
+  return best!;
+}
+
+/**
+ * Read the data codewords of a symbol, correcting errors block by block.
+ * Returns undefined when a block cannot be corrected.
+ */
+export function readSymbolData(
+  isDark: (row: number, col: number) => boolean,
+  version: number,
+  errorCorrectionLevel: ErrorCorrectionLevel,
+  maskPattern: number
+): Uint8Array | undefined {
+  const { modules } = QRCode.create('0', { version, errorCorrectionLevel });
+  const codewords: number[] = [];
+  let current = 0;
+  let count = 0;
+
+  forEachDataModule(modules.size, (row, col) => modules.isReserved(row, col) === 1, (row, col) => {
+    current = (current << 1) | (Number(isDark(row, col)) ^ Number(MASKS[maskPattern](row, col)));
+    if (++count % 8 === 0) {
+      codewords.push(current);
+      current = 0;
+    }
+  });
+
+  const blocks = deinterleave(codewords, version, errorCorrectionLevel);
+  const data: number[] = [];
+  for (const block of blocks) {
+    if (rsDecode(block.codewords, block.codewords.length - block.dataCount) < 0) {
+      return undefined;
+    }
+    data.push(...block.codewords.subarray(0, block.dataCount));
+  }
+  return Uint8Array.from(data);
+}
+
+/**
+ * Interpret the data codewords of a symbol: Structured Append header,
+ * numeric, alphanumeric, byte and kanji segments, ECI designators
+ */
+export function parseSymbolData(data: Uint8Array, version: number): SymbolData {
+  const band = version < 10 ? 0 : version < 27 ? 1 : 2;
+  const result: SymbolData = { text: '', bytes: [] };
+  let offset = 0;
+
+  const available = () => data.length * 8 - offset;
+  const read = (length: number): number => {
+    if (length > available()) throw new Error('Symbol data ends inside a segment');
+    let value = 0;
+    for (let i = 0; i < length; i++, offset++) {
+      value = (value << 1) | ((data[offset >> 3] >> (7 - (offset & 7))) & 1);
+    }
+    return value;
+  };
+
+  while (available() >= 4) {
+    const mode = read(4);
+    if (mode === 0) break;
+
+    switch (mode) {
+      case 3:
+        result.structuredAppend = { position: read(4), total: read(4) + 1, parity: read(8) };
+        break;
+      case 7: {
+        // ECI designator: 1, 2 or 3 bytes; the content stays UTF-8 or Latin-1
+        const first = read(8);
+        if ((first & 0xc0) === 0x80) read(8);
+        else if ((first & 0xe0) === 0xc0) read(16);
+        break;
+      }
+      case 1: {
+        let count = read([10, 12, 14][band]);
+        let digits = '';
+        for (; count >= 3; count -= 3) digits += String(read(10)).padStart(3, '0');
+        if (count === 2) digits += String(read(7)).padStart(2, '0');
+        if (count === 1) digits += String(read(4));
+        result.text += digits;
+        result.bytes.push(...Buffer.from(digits, 'latin1'));
+        break;
+      }
+      case 2: {
+        let count = read([9, 11, 13][band]);
+        let chars = '';
+        for (; count >= 2; count -= 2) {
+          const pair = read(11);
+          chars += ALPHANUMERIC_CHARSET[Math.floor(pair / 45)] + ALPHANUMERIC_CHARSET[pair % 45];
+        }
+        if (count === 1) chars += ALPHANUMERIC_CHARSET[read(6)];
+        result.text += chars;
+        result.bytes.push(...Buffer.from(chars, 'latin1'));
+        break;
+      }
+      case 4: {
+        const count = read([8, 16, 16][band]);
+        const bytes = Array.from({ length: count }, () => read(8));
+        result.text += decodeBytes(bytes);
+        result.bytes.push(...bytes);
+        break;
+      }
+      case 8: {
+        const count = read([8, 10, 12][band]);
+        const bytes: number[] = [];
+        for (let i = 0; i < count; i++) {
+          const value = read(13);
+          const code = Math.floor(value / 0xc0) * 0x100 + (value % 0xc0);
+          const sjis = code + (code < 0x1f00 ? 0x8140 : 0xc140);
+          bytes.push(sjis >> 8, sjis & 0xff);
+        }
+        result.text += new TextDecoder('shift_jis').decode(Uint8Array.from(bytes));
+        result.bytes.push(...bytes);
+        break;
+      }
+      default:
+        throw new Error(`Unsupported segment mode ${mode}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Terminate and pad a bit stream to the symbol's data codewords
+ */
+function toDataCodewords(stream: number[], version: number, errorCorrectionLevel: ErrorCorrectionLevel): Uint8Array {
+  const capacity = dataCapacityBits(version, errorCorrectionLevel);
+  if (stream.length > capacity) {
+    throw new Error(`Data needs ${stream.length} bits but version ${version}-${errorCorrectionLevel} holds ${capacity}`);
+  }
+
+  const bits = stream.slice();
+  appendBits(bits, 0, Math.min(4, capacity - bits.length));
+  appendBits(bits, 0, (8 - (bits.length % 8)) % 8);
+
+  const codewords = new Uint8Array(capacity / 8);
+  for (let i = 0; i < bits.length; i++) {
+    codewords[i >> 3] |= bits[i] << (7 - (i & 7));
+  }
+  for (let i = bits.length / 8, pad = 0; i < codewords.length; i++, pad++) {
+    codewords[i] = PAD_BYTES[pad % 2];
+  }
+  return codewords;
+}
+
+/**
+ * Split data into blocks, add error correction and interleave
+ */
+function interleave(data: Uint8Array, version: number, errorCorrectionLevel: ErrorCorrectionLevel): number[] {
+  const { blocks, ecCount } = blockLayout(version, errorCorrectionLevel);
+  const dataBlocks: Uint8Array[] = [];
+  let offset = 0;
+  for (const dataCount of blocks) {
+    dataBlocks.push(data.subarray(offset, offset + dataCount));
+    offset += dataCount;
+  }
+  const ecBlocks = dataBlocks.map(block => rsEncode(block, ecCount));
+
+  const result: number[] = [];
+  const longest = Math.max(...blocks);
+  for (let i = 0; i < longest; i++) {
+    for (const block of dataBlocks) {
+      if (i < block.length) result.push(block[i]);
+    }
+  }
+  for (let i = 0; i < ecCount; i++) {
+    for (const block of ecBlocks) result.push(block[i]);
+  }
+  return result;
+}
+
+function deinterleave(
+  codewords: number[],
+  version: number,
+  errorCorrectionLevel: ErrorCorrectionLevel
+): Array<{ codewords: Uint8Array; dataCount: number }> {
+  const { blocks, ecCount } = blockLayout(version, errorCorrectionLevel);
+  const result = blocks.map(dataCount => ({ codewords: new Uint8Array(dataCount + ecCount), dataCount }));
+
+  let index = 0;
+  const longest = Math.max(...blocks);
+  for (let i = 0; i < longest; i++) {
+    for (const block of result) {
+      if (i < block.dataCount) block.codewords[i] = codewords[index++];
+    }
+  }
+  for (let i = 0; i < ecCount; i++) {
+    for (const block of result) block.codewords[block.dataCount + i] = codewords[index++];
+  }
+  return result;
+}
+
+/**
+ * Data codewords per block (shorter blocks first) and error correction
+ * codewords per block
+ */
+function blockLayout(version: number, errorCorrectionLevel: ErrorCorrectionLevel): { blocks: number[]; ecCount: number } {
+  // Modules left for data once finder, timing, alignment, format and
+  // version information are placed
+  let dataModules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    dataModules -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) dataModules -= 36;
+  }
+  const totalCodewords = Math.floor(dataModules / 8);
+
+  const blockCount = BLOCK_COUNTS[errorCorrectionLevel][version - 1];
+  const dataCodewords = dataCapacityBits(version, errorCorrectionLevel) / 8;
+  const ecCount = (totalCodewords - dataCodewords) / blockCount;
+  const longBlocks = dataCodewords % blockCount;
+  const shortData = Math.floor(dataCodewords / blockCount);
+
+  return {
+    blocks: Array.from({ length: blockCount }, (_, i) => shortData + (i >= blockCount - longBlocks ? 1 : 0)),
+    ecCount,
+  };
+}
+
+function placeCodewords(modules: BitMatrix, codewords: number[], mask: number): void {
+  let index = 0;
+  forEachDataModule(modules.size, (row, col) => modules.isReserved(row, col) === 1, (row, col) => {
+    const bit = index < codewords.length * 8 ? (codewords[index >> 3] >> (7 - (index & 7))) & 1 : 0;
+    index++;
+    modules.set(row, col, bit ^ Number(MASKS[mask](row, col)), false);
+  });
+}
+
+/**
+ * Visit data modules in placement order: two-column strips from the right,
+ * alternately upwards and downwards, skipping the vertical timing pattern
+ */
+function forEachDataModule(
+  size: number,
+  isReserved: (row: number, col: number) => boolean,
+  visit: (row: number, col: number) => void
+): void {
+  let upward = true;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let step = 0; step < size; step++) {
+      const row = upward ? size - 1 - step : step;
+      for (const col of [right, right - 1]) {
+        if (!isReserved(row, col)) visit(row, col);
+      }
+    }
+    upward = !upward;
+  }
+}
+
+/**
+ * Mask penalty score (ISO/IEC 18004 7.8.3): runs, 2x2 blocks, finder-like
+ * patterns and dark/light balance
+ */
+function penalty(modules: BitMatrix): number {
+  const size = modules.size;
+  let score = 0;
+  let dark = 0;
+
+  for (let i = 0; i < size; i++) {
+    for (const get of [(j: number) => modules.get(i, j), (j: number) => modules.get(j, i)]) {
+      let run = 1;
+      let pattern = 0;
+      for (let j = 0; j < size; j++) {
+        const value = get(j);
+        if (j > 0) {
+          if (value === get(j - 1)) {
+            run++;
+          } else {
+            if (run >= 5) score += run - 2;
+            run = 1;
+          }
+        }
+        pattern = ((pattern << 1) | value) & 0x7ff;
+        if (j >= 10 && (pattern === 0x5d0 || pattern === 0x05d)) score += 40;
+      }
+      if (run >= 5) score += run - 2;
+    }
+
+    for (let j = 0; j < size; j++) {
+      dark += modules.get(i, j);
+      if (i < size - 1 && j < size - 1) {
+        const value = modules.get(i, j);
+        if (value === modules.get(i, j + 1) && value === modules.get(i + 1, j) && value === modules.get(i + 1, j + 1)) {
+          score += 3;
+        }
+      }
+    }
+  }
+
+  return score + Math.floor(Math.abs((dark * 100) / (size * size) - 50) / 5) * 10;
+}
+
+function decodeBytes(bytes: number[]): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(Uint8Array.from(bytes));
+  } catch {
+    return Buffer.from(bytes).toString('latin1');
+  }
+}
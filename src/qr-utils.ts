@@ -1,26 +1,73 @@
 import QRCode from 'qrcode';
-import QRCodeSVG from 'qrcode-svg';
-import jsQR from 'jsqr';
-import Jimp from 'jimp';
 import sharp from 'sharp';
-import { createCanvas, loadImage } from 'canvas';
+import { createCanvas, loadImage, Canvas, CanvasRenderingContext2D, CanvasGradient } from 'canvas';
 import fs from 'fs-extra';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
+import mime from 'mime-types';
+import { renderQRSheetToPDF, renderQRToPDF, renderStyledPDF, PDFImage, PDF_PAGE_SIZES } from './pdf-writer.js';
+import {
+  computeLayout,
+  hasCustomEyes,
+  traceEyeBalls,
+  traceEyeFrames,
+  traceModules,
+  traceRoundedRect,
+  SymbolLayout,
+} from './qr-shapes.js';
+import { renderStyledSVG, renderSVGSheet } from './svg-renderer.js';
+import { planLogo, LogoPlan, LOGO_PADDING } from './logo-planner.js';
+import { measureLevel } from './capacity-planner.js';
+import { encoderInput, findInvalidSegment, joinSegments } from './qr-segments.js';
+import { QRResourceStore, QRResource } from './resource-store.js';
+import { decodeSingle } from './qr-decoder.js';
+import { decodeImage, loadFrame, DecodeMode, ImageInput } from './decode-pipeline.js';
+import { measureQuality } from './quality-analyzer.js';
+import { encodeAPNG, encodeGIF } from './animated-image.js';
+import { crc32 } from './checksums.js';
+import { assembleFountain, encodeFountain, fountainBlockSize } from './fountain.js';
+import { assembleStructuredAppend, planStructuredAppend, StructuredAppendOptions } from './structured-append.js';
+import { parsePayload } from './payload-parser.js';
+import { buildEMVMerchantPayload } from './emv-merchant.js';
+import { buildCryptoPaymentURI } from './crypto-payment.js';
+import { fitContactCard } from './contact-card.js';
+import { buildCalendarEvent } from './calendar-event.js';
+import { buildWiFiPayload } from './wifi-payload.js';
+import { buildGS1DigitalLink } from './gs1-digital-link.js';
+import { buildEmailPayload, buildGeoPayload, buildMapLink, buildPhonePayload, buildSMSPayload } from './uri-payloads.js';
 import {
   QRConfig,
   QRStyle,
   QRGenerationResult,
   QRAnalysisResult,
+  DecodedQRCode,
+  StructuredAppendResult,
+  AnimatedTransferResult,
+  AnimatedTransferDecodeResult,
   VCard,
   WiFi,
   Event,
+  EPCPayment,
+  EMVMerchant,
+  CryptoPayment,
+  SMSPayload,
+  EmailPayload,
+  PhonePayload,
+  GeoPayload,
+  MapLink,
+  GS1DigitalLink,
   QRGenerationError,
   QRAnalysisError,
   QRValidationError,
   QRTemplate,
 } from './types.js';
 
+// EPC069-12 caps the payload, whatever the QR version could hold
+const EPC_MAX_BYTES = 331;
+
+// Logos are embedded in PDFs at no more than this many pixels a side
+const LOGO_PDF_RESOLUTION = 512;
+
 export class QRCodeEnhanced {
   private statistics = {
     totalGenerated: 0,
@@ -35,6 +82,7 @@ export class QRCodeEnhanced {
   };
 
   private templates: Map<string, QRTemplate> = new Map();
+  private resources = new QRResourceStore();
 
   constructor() {
     this.initializeDefaultTemplates();
@@ -51,12 +99,11 @@ export class QRCodeEnhanced {
     const startTime = Date.now();
     
     try {
-      this.validateContent(content);
+      this.validateContent(content, config);
       
       const finalConfig = { ...config } as QRConfig;
-      const outputPath = this.generateOutputPath(finalConfig.format || 'png');
-      
-      await fs.ensureDir(path.dirname(outputPath));
+      const id = uuidv4();
+      const outputPath = this.generateOutputPath(id, finalConfig.format || 'png');
       
       let result: QRGenerationResult;
       
@@ -64,12 +111,19 @@ export class QRCodeEnhanced {
         case 'svg':
           result = await this.generateSVG(content, finalConfig, outputPath);
           break;
+        case 'pdf':
+          result = await this.generatePDF(content, finalConfig, outputPath);
+          break;
         case 'png':
+        case 'jpeg':
+        case 'webp':
         default:
-          result = await this.generatePNG(content, finalConfig, outputPath);
+          result = await this.generateRaster(content, finalConfig, outputPath);
           break;
       }
       
+      result.id = id;
+      this.resources.add(result, content, finalConfig);
       this.updateStatistics(result, Date.now() - startTime);
       return result;
       
@@ -92,33 +146,74 @@ export class QRCodeEnhanced {
     const startTime = Date.now();
     
     try {
-      this.validateContent(content);
+      this.validateContent(content, config);
       
       const finalStyle = { ...style } as QRStyle;
       const finalConfig = { ...config } as QRConfig;
-      const outputPath = this.generateOutputPath(finalConfig.format || 'png');
+      const id = uuidv4();
+      const outputPath = this.generateOutputPath(id, finalConfig.format || 'png');
       
-      await fs.ensureDir(path.dirname(outputPath));
+      const logoPlan = finalStyle.logoPath
+        ? await this.planLogoPlacement(content, finalStyle, finalConfig)
+        : undefined;
+      if (logoPlan) {
+        finalConfig.errorCorrectionLevel = logoPlan.errorCorrectionLevel;
+        finalStyle.logoSize = logoPlan.logoSize;
+      }
       
-      // Generate base QR code
-      const baseQR = await QRCode.toDataURL(content, {
-        width: finalConfig.size,
-        margin: finalConfig.margin,
-        errorCorrectionLevel: finalConfig.errorCorrectionLevel,
-        color: {
-          dark: finalStyle.foregroundColor,
-          light: finalStyle.backgroundColor,
-        },
-      });
+      let styledResult: QRGenerationResult;
       
-      // Apply styling enhancements
-      const styledResult = await this.applyAdvancedStyling(
-        baseQR,
-        finalStyle,
-        finalConfig,
-        outputPath
-      );
+      switch (finalConfig.format) {
+        case 'svg':
+          styledResult = await this.generateSVG(content, finalConfig, outputPath, finalStyle);
+          break;
+        case 'pdf':
+          styledResult = await this.generatePDF(content, finalConfig, outputPath, finalStyle);
+          break;
+        default:
+          // Render modules with the requested styling
+          styledResult = await this.applyAdvancedStyling(
+            content,
+            finalStyle,
+            finalConfig,
+            outputPath
+          );
+          break;
+      }
+      
+      if (logoPlan) {
+        styledResult.logo = {
+          requestedSize: style.logoSize || 0.2,
+          appliedSize: logoPlan.logoSize,
+          coveredModules: logoPlan.coveredModules,
+          budgetModules: logoPlan.budgetModules,
+          errorCorrectionLevel: logoPlan.errorCorrectionLevel,
+          escalated: logoPlan.escalated,
+          shrunk: logoPlan.shrunk,
+        };
+      }
       
+      // Round-trip the rendered image through the decoder. PDFs are checked
+      // on a raster of the same artwork, traced from the same geometry.
+      const verifyMode = finalStyle.verifyScan || 'report';
+      if (verifyMode !== 'off') {
+        const image = finalConfig.format === 'pdf'
+          ? (await this.drawStyledSymbol(content, finalStyle, finalConfig)).toBuffer('image/png')
+          : styledResult.data!;
+        styledResult.verification = await this.verifyScan(image, content);
+        if (verifyMode === 'strict' && !styledResult.verification.passed) {
+          if (styledResult.filePath) {
+            await fs.remove(styledResult.filePath);
+          }
+          throw new QRGenerationError(
+            `Scan verification failed: ${styledResult.verification.error}`,
+            { verification: styledResult.verification }
+          );
+        }
+      }
+      
+      styledResult.id = id;
+      this.resources.add(styledResult, content, finalConfig, finalStyle);
       this.updateStatistics(styledResult, Date.now() - startTime);
       return styledResult;
       
@@ -131,18 +226,21 @@ export class QRCodeEnhanced {
   }
 
   /**
-   * Generate QR code for vCard contact information
+   * Generate QR code for vCard (or MECARD) contact information. Optional
+   * fields are left out, and listed in `droppedFields`, when the card
+   * would not fit at the error correction level.
    */
   async generateVCard(vcard: VCard, config: Partial<QRConfig> = {}): Promise<QRGenerationResult> {
-    const vcardContent = this.buildVCardContent(vcard);
-    return this.generateBasic(vcardContent, config);
+    const card = fitContactCard(vcard, config.errorCorrectionLevel || 'M');
+    const result = await this.generateBasic(card.content, config);
+    return card.droppedFields.length > 0 ? { ...result, droppedFields: card.droppedFields } : result;
   }
 
   /**
    * Generate QR code for WiFi network credentials
    */
   async generateWiFi(wifi: WiFi, config: Partial<QRConfig> = {}): Promise<QRGenerationResult> {
-    const wifiContent = this.buildWiFiContent(wifi);
+    const wifiContent = buildWiFiPayload(wifi);
     return this.generateBasic(wifiContent, config);
   }
 
@@ -150,64 +248,400 @@ export class QRCodeEnhanced {
    * Generate QR code for calendar event
    */
   async generateEvent(event: Event, config: Partial<QRConfig> = {}): Promise<QRGenerationResult> {
-    const eventContent = this.buildEventContent(event);
+    const eventContent = buildCalendarEvent(event);
     return this.generateBasic(eventContent, config);
   }
 
   /**
-   * Decode QR code from image file
+   * Generate QR code that opens a prefilled text message
+   */
+  async generateSMS(sms: SMSPayload, config: Partial<QRConfig> = {}): Promise<QRGenerationResult> {
+    return this.generateBasic(buildSMSPayload(sms), config);
+  }
+
+  /**
+   * Generate QR code that opens a prefilled e-mail
+   */
+  async generateEmail(email: EmailPayload, config: Partial<QRConfig> = {}): Promise<QRGenerationResult> {
+    return this.generateBasic(buildEmailPayload(email), config);
+  }
+
+  /**
+   * Generate QR code that dials a phone number
    */
-  async decodeFromImage(imagePath: string): Promise<QRAnalysisResult> {
+  async generatePhone(phone: PhonePayload, config: Partial<QRConfig> = {}): Promise<QRGenerationResult> {
+    return this.generateBasic(buildPhonePayload(phone), config);
+  }
+
+  /**
+   * Generate QR code for a geographic location (geo: URI)
+   */
+  async generateGeo(geo: GeoPayload, config: Partial<QRConfig> = {}): Promise<QRGenerationResult> {
+    return this.generateBasic(buildGeoPayload(geo), config);
+  }
+
+  /**
+   * Generate QR code for a Google Maps, Apple Maps or OpenStreetMap link
+   */
+  async generateMapLink(link: MapLink, config: Partial<QRConfig> = {}): Promise<QRGenerationResult> {
+    return this.generateBasic(buildMapLink(link), config);
+  }
+
+  /**
+   * Generate a GS1 Digital Link QR code for product packaging
+   */
+  async generateGS1DigitalLink(link: GS1DigitalLink, config: Partial<QRConfig> = {}): Promise<QRGenerationResult> {
+    return this.generateBasic(buildGS1DigitalLink(link), config);
+  }
+
+  /**
+   * Generate an EPC069-12 SEPA credit transfer QR code ("GiroCode"). The
+   * standard fixes error correction level M.
+   */
+  async generatePaymentEPC(payment: EPCPayment, config: Partial<QRConfig> = {}): Promise<QRGenerationResult> {
+    const epcContent = this.buildEPCContent(payment);
+    const bytes = Buffer.byteLength(epcContent, 'utf8');
+    if (bytes > EPC_MAX_BYTES) {
+      throw new QRValidationError(
+        `EPC payment payload is ${bytes} bytes; the standard allows at most ${EPC_MAX_BYTES}. Shorten the remittance text or beneficiary information`
+      );
+    }
+    return this.generateBasic(epcContent, { ...config, errorCorrectionLevel: 'M' });
+  }
+
+  /**
+   * Generate an EMVCo merchant-presented payment QR code, the format behind
+   * PIX, PromptPay, PayNow and other regional schemes
+   */
+  async generatePaymentEMV(merchant: EMVMerchant, config: Partial<QRConfig> = {}): Promise<QRGenerationResult> {
+    const emvContent = buildEMVMerchantPayload(merchant);
+    return this.generateBasic(emvContent, config);
+  }
+
+  /**
+   * Generate a cryptocurrency payment QR code (BIP 21 or EIP-681 URI)
+   */
+  async generateCryptoPayment(payment: CryptoPayment, config: Partial<QRConfig> = {}): Promise<QRGenerationResult> {
+    const paymentURI = buildCryptoPaymentURI(payment);
+    return this.generateBasic(paymentURI, config);
+  }
+
+  /**
+   * Split content over a Structured Append set of up to 16 linked symbols,
+   * for content that does not fit in one. Each symbol is written to its
+   * own file, and a sheet shows the whole set in reading order.
+   */
+  async generateStructuredAppend(
+    content: string,
+    options: Omit<StructuredAppendOptions, 'errorCorrectionLevel'> = {},
+    style: Partial<QRStyle> = {},
+    config: Partial<QRConfig> = {}
+  ): Promise<StructuredAppendResult> {
+    const startTime = Date.now();
+
     try {
-      if (!await fs.pathExists(imagePath)) {
-        throw new QRAnalysisError(`Image file not found: ${imagePath}`);
+      if (!content || content.trim().length === 0) {
+        throw new QRValidationError('Content cannot be empty');
       }
+      this.validatePageSize(config);
 
-      // Load image and convert to ImageData format
-      const image = await Jimp.read(imagePath);
-      const { width, height } = image.bitmap;
-      const imageData = {
-        data: new Uint8ClampedArray(image.bitmap.data),
-        width,
-        height,
-      };
+      const plan = planStructuredAppend(content, { ...options, errorCorrectionLevel: config.errorCorrectionLevel });
+      const finalConfig = { ...config, errorCorrectionLevel: plan.errorCorrectionLevel } as QRConfig;
+      // Logos would eat into the error correction of every symbol
+      const finalStyle = { ...style, logoPath: undefined } as QRStyle;
+      const renderOptions = { size: finalConfig.size || 300, margin: finalConfig.margin ?? 1 };
+      const total = plan.symbols.length;
 
-      // Decode QR code
-      const code = jsQR(imageData.data, width, height);
-      
-      if (!code) {
-        return {
-          success: false,
-          error: 'No QR code found in image',
-        };
+      const symbols: StructuredAppendResult['symbols'] = [];
+      for (const symbol of plan.symbols) {
+        const id = uuidv4();
+        const result = await this.renderSetOutput(
+          symbol.content,
+          () => renderStyledSVG(symbol.modules, finalStyle, renderOptions),
+          () => renderQRToPDF(symbol.modules, {
+            ...renderOptions,
+            pageSize: finalConfig.pageSize,
+            foregroundColor: finalStyle.foregroundColor,
+            backgroundColor: finalStyle.backgroundColor,
+            title: `QR Code ${symbol.position + 1} of ${total}`,
+          }),
+          finalConfig,
+          this.generateOutputPath(id, finalConfig.format || 'png')
+        );
+        result.id = id;
+        this.resources.add(result, symbol.content, finalConfig, finalStyle);
+        this.updateStatistics(result, Date.now() - startTime);
+        symbols.push({ ...result, position: symbol.position, content: symbol.content });
       }
 
+      const modules = plan.symbols.map(symbol => symbol.modules);
+      const captions = plan.symbols.map(symbol => `${symbol.position + 1} / ${total}`);
+      const sheetId = uuidv4();
+      const sheet = await this.renderSetOutput(
+        content,
+        () => renderSVGSheet(modules, captions, finalStyle, renderOptions),
+        () => renderQRSheetToPDF(modules, captions, {
+          ...renderOptions,
+          foregroundColor: finalStyle.foregroundColor,
+          backgroundColor: finalStyle.backgroundColor,
+        }),
+        finalConfig,
+        this.generateOutputPath(`${sheetId}-sheet`, finalConfig.format || 'png')
+      );
+      sheet.id = sheetId;
+      this.resources.add(sheet, content, finalConfig, finalStyle);
+
       return {
         success: true,
-        content: code.data,
-        format: 'text',
+        version: plan.version,
+        errorCorrectionLevel: plan.errorCorrectionLevel,
+        parity: plan.parity,
+        symbols,
+        sheet,
+      };
+
+    } catch (error) {
+      throw new QRGenerationError(
+        `Failed to generate Structured Append set: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { options, config }
+      );
+    }
+  }
+
+  /**
+   * Encode data of any kind as an animated GIF or APNG of QR frames for
+   * air-gapped transfer. The frames are fountain coded, so a receiver can
+   * join the loop at any point and rebuild the data from any large enough
+   * subset of frames.
+   */
+  async generateAnimatedTransfer(
+    data: Buffer,
+    options: { format?: 'gif' | 'apng'; version?: number; redundancy?: number; frameDelay?: number } = {},
+    style: Partial<QRStyle> = {},
+    config: Partial<QRConfig> = {}
+  ): Promise<AnimatedTransferResult> {
+    const startTime = Date.now();
+
+    try {
+      const version = options.version || 10;
+      const errorCorrectionLevel = config.errorCorrectionLevel || 'M';
+      const blockSize = fountainBlockSize(version, errorCorrectionLevel);
+      if (blockSize === 0) {
+        throw new QRValidationError(
+          `Version ${version} at error correction level ${errorCorrectionLevel} is too small for transfer frames`
+        );
+      }
+
+      const contents = encodeFountain(data, { blockSize, redundancy: options.redundancy });
+      const symbols = contents.map(content =>
+        QRCode.create([{ data: content, mode: 'alphanumeric' }], { version, errorCorrectionLevel }).modules
+      );
+
+      const margin = config.margin ?? 1;
+      const span = symbols[0].size + margin * 2;
+      const scale = Math.max(1, Math.floor((config.size || 400) / span));
+      const animation = {
+        width: span * scale,
+        height: span * scale,
+        palette: [style.backgroundColor || '#ffffff', style.foregroundColor || '#000000'],
+        frames: symbols.map(modules => this.rasterizeModules(modules, margin, scale)),
+        delay: options.frameDelay || 250,
+      };
+
+      const format = options.format || 'gif';
+      const buffer = format === 'apng' ? encodeAPNG(animation) : encodeGIF(animation);
+      const id = uuidv4();
+      const filePath = await this.saveOutput(
+        this.generateOutputPath(id, format === 'apng' ? 'png' : 'gif'),
+        buffer,
+        config
+      );
+      const description = `Animated transfer of ${data.length} bytes in ${contents.length} frames`;
+
+      const result: AnimatedTransferResult = {
+        success: true,
+        id,
+        filePath,
+        data: buffer,
+        format,
+        size: buffer.length,
+        contentType: format === 'apng' ? 'image/apng' : 'image/gif',
         metadata: {
-          version: code.version,
-          errorCorrectionLevel: code.errorCorrectionLevel,
-          maskPattern: code.maskPattern,
-          modules: code.modules,
+          generatedAt: new Date().toISOString(),
+          originalContent: description,
+          estimatedSize: buffer.length,
+        },
+        transfer: {
+          id: crc32(data),
+          bytes: data.length,
+          blocks: Math.ceil(data.length / blockSize),
+          blockSize,
+          frames: contents.length,
+          version,
+          errorCorrectionLevel,
         },
       };
+      this.resources.add(result, description, config, style);
+      this.updateStatistics(result, Date.now() - startTime);
+      return result;
+
+    } catch (error) {
+      throw new QRGenerationError(
+        `Failed to generate animated transfer: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { options, bytes: data.length }
+      );
+    }
+  }
+
+  /**
+   * Rebuild data sent with `generateAnimatedTransfer` from animated images,
+   * still frames, or a mix of both. Frames may be missing, repeated or out
+   * of order as long as enough distinct ones are read.
+   */
+  async decodeAnimatedTransfer(images: ImageInput[], outputPath?: string): Promise<AnimatedTransferDecodeResult> {
+    try {
+      const contents: string[] = [];
+      let framesScanned = 0;
+      for (const input of images) {
+        if (typeof input === 'string' && !await fs.pathExists(input)) {
+          throw new QRAnalysisError(`Image file not found: ${input}`);
+        }
+        const outcome = await decodeImage(input, 'single', { everyFrame: true });
+        framesScanned += outcome.frames;
+        contents.push(...outcome.codes.map(code => code.content));
+      }
+
+      const transfers = assembleFountain(contents);
+      const complete = transfers.find(transfer => transfer.complete);
+      if (!complete) {
+        const [partial] = transfers;
+        return {
+          success: false,
+          framesScanned,
+          transfers,
+          error: partial
+            ? partial.error || `Recovered ${partial.recovered} of ${partial.blocks} blocks from ${partial.framesReceived} frames; scan more frames`
+            : 'No animated transfer frames found',
+        };
+      }
+
+      const data = Buffer.from(complete.data!);
+      if (outputPath) {
+        await fs.ensureDir(path.dirname(outputPath));
+        await fs.writeFile(outputPath, data);
+      }
+      return { success: true, framesScanned, transfers, data, filePath: outputPath };
+
+    } catch (error) {
+      throw new QRAnalysisError(
+        `Failed to decode animated transfer: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Decode QR code from an image file or image bytes (any format sharp
+   * reads, including SVG and multi-frame GIF/TIFF), retrying with
+   * preprocessing passes (rescaling, contrast normalisation, thresholding,
+   * sharpening, rotation) when the raw pixels do not decode. In mode 'all'
+   * every symbol in the image is reported in `codes`, and the top-level
+   * fields describe the first.
+   *
+   * Several images are decoded as one: Structured Append symbols found
+   * across them (or all on one sheet) are put back together, and a
+   * complete set becomes the top-level content.
+   */
+  async decodeFromImage(
+    image: ImageInput | ImageInput[],
+    options: { mode?: DecodeMode } = {}
+  ): Promise<QRAnalysisResult> {
+    const images = Array.isArray(image) ? image : [image];
+    try {
+      for (const input of images) {
+        if (typeof input === 'string' && !await fs.pathExists(input)) {
+          throw new QRAnalysisError(`Image file not found: ${input}`);
+        }
+      }
+
+      const mode = options.mode || 'single';
+      const codes: DecodedQRCode[] = [];
+      const attempted = new Set<string>();
+      let pass: string | undefined;
+      let timedOut = false;
+      for (const [index, input] of images.entries()) {
+        const outcome = await decodeImage(input, mode);
+        outcome.attempted.forEach(name => attempted.add(name));
+        pass = pass || outcome.pass;
+        timedOut = timedOut || !!outcome.timedOut;
+        codes.push(...outcome.codes.map(code => (images.length > 1 ? { ...code, image: index } : code)));
+      }
+
+      const listCodes = mode === 'all' || images.length > 1;
+      if (codes.length === 0) {
+        return {
+          ...this.toAnalysisResult(codes, listCodes),
+          error: `No QR code found in image (tried: ${Array.from(attempted).join(', ')}${timedOut ? '; stopped at the time limit' : ''})`,
+          ...(timedOut ? { timedOut } : {}),
+        };
+      }
+
+      return { ...this.toAnalysisResult(codes, listCodes), pass, ...(timedOut ? { timedOut } : {}) };
 
     } catch (error) {
       throw new QRAnalysisError(
         `Failed to decode QR code: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        { imagePath }
+        { imagePath: Array.isArray(image) ? image.filter(input => typeof input === 'string') : typeof image === 'string' ? image : undefined }
       );
     }
   }
 
+  /**
+   * Decode a QR code from RGBA pixel data as-is, without preprocessing
+   */
+  private decodePixels(data: Uint8ClampedArray, width: number, height: number): QRAnalysisResult {
+    const code = decodeSingle(data, width, height);
+    return this.toAnalysisResult(code ? [code] : [], false);
+  }
+
+  private toAnalysisResult(codes: DecodedQRCode[], listCodes: boolean): QRAnalysisResult {
+    if (codes.length === 0) {
+      return {
+        success: false,
+        error: 'No QR code found in image',
+        ...(listCodes ? { codes } : {}),
+      };
+    }
+
+    const parsed = codes.map(code => ({ ...code, payload: parsePayload(code.content) }));
+    const [code] = parsed;
+    const sets = assembleStructuredAppend(codes);
+    // A complete Structured Append set stands for its joined content
+    const content = sets.find(set => set.complete)?.content ?? code.content;
+    const payload = content === code.content ? code.payload : parsePayload(content);
+    return {
+      success: true,
+      content,
+      format: payload.type,
+      payload,
+      metadata: {
+        version: code.version,
+        errorCorrectionLevel: code.errorCorrectionLevel,
+        maskPattern: code.maskPattern,
+        modules: code.modules,
+      },
+      location: code.location,
+      frame: code.frame,
+      ...(listCodes ? { codes: parsed } : {}),
+      ...(sets.length > 0 ? { structuredAppend: sets } : {}),
+    };
+  }
+
   /**
    * Analyze QR code quality and provide recommendations
    */
-  async analyzeQuality(imagePath: string): Promise<QRAnalysisResult> {
+  async analyzeQuality(image: ImageInput): Promise<QRAnalysisResult> {
     try {
-      const decodeResult = await this.decodeFromImage(imagePath);
+      const decodeResult = await this.decodeFromImage(image);
       
       if (!decodeResult.success) {
         return {
@@ -220,12 +654,22 @@ export class QRCodeEnhanced {
         };
       }
 
-      // Analyze image properties for quality assessment
-      const image = await sharp(imagePath);
-      const metadata = await image.metadata();
-      const stats = await image.stats();
-      
-      const quality = this.assessQuality(metadata, stats, decodeResult.content!);
+      // Measure the symbol on the pixels as supplied, not the preprocessed ones
+      const pixels = await loadFrame(image, decodeResult.frame);
+      const quality = measureQuality(pixels, {
+        content: decodeResult.content!,
+        version: decodeResult.metadata!.version,
+        errorCorrectionLevel: decodeResult.metadata!.errorCorrectionLevel,
+        maskPattern: decodeResult.metadata!.maskPattern,
+        modules: decodeResult.metadata!.modules,
+        location: decodeResult.location!,
+      });
+
+      if (decodeResult.pass !== 'original') {
+        quality.recommendations.unshift(
+          `Only decoded after ${decodeResult.pass} preprocessing; scanners without it are likely to fail`
+        );
+      }
       
       return {
         ...decodeResult,
@@ -235,7 +679,7 @@ export class QRCodeEnhanced {
     } catch (error) {
       throw new QRAnalysisError(
         `Failed to analyze QR code quality: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        { imagePath }
+        { imagePath: typeof image === 'string' ? image : undefined }
       );
     }
   }
@@ -278,6 +722,31 @@ export class QRCodeEnhanced {
     return result;
   }
 
+  /**
+   * List generated QR codes still held as resources
+   */
+  listResources(): QRResource[] {
+    return this.resources.list();
+  }
+
+  /**
+   * Look up a generated QR code by id
+   */
+  getResource(id: string): QRResource | undefined {
+    return this.resources.get(id);
+  }
+
+  /**
+   * Forget a generated QR code, optionally deleting its file as well
+   */
+  async removeResource(id: string, deleteFile: boolean = false): Promise<QRResource | undefined> {
+    const resource = this.resources.remove(id);
+    if (resource?.filePath && deleteFile) {
+      await fs.remove(resource.filePath);
+    }
+    return resource;
+  }
+
   /**
    * Get generation statistics
    */
@@ -295,42 +764,162 @@ export class QRCodeEnhanced {
 
   // Private helper methods
 
-  private validateContent(content: string): void {
+  private validateContent(content: string, config: Partial<QRConfig> = {}): void {
     if (!content || content.trim().length === 0) {
       throw new QRValidationError('Content cannot be empty');
     }
     
-    if (content.length > 4296) {
-      throw new QRValidationError('Content exceeds maximum length of 4296 characters');
+    if (config.segments) {
+      if (joinSegments(config.segments) !== content) {
+        throw new QRValidationError('Segments must spell out the content exactly');
+      }
+      const invalid = findInvalidSegment(config.segments);
+      if (invalid) {
+        throw new QRValidationError(`Segment "${invalid.data}" cannot be encoded in ${invalid.mode} mode`, { segment: invalid });
+      }
+    }
+    
+    const errorCorrectionLevel = config.errorCorrectionLevel || 'M';
+    const capacity = measureLevel(config.segments || content, errorCorrectionLevel);
+    if (!capacity.fits) {
+      throw new QRValidationError(
+        `Content is ${Math.ceil(capacity.overflowBits! / 8)} bytes over the largest QR code (version 40) ` +
+        `at error correction level ${errorCorrectionLevel}; split it over a Structured Append set instead`,
+        { errorCorrectionLevel, overflowBits: capacity.overflowBits }
+      );
+    }
+    this.validatePageSize(config);
+  }
+
+  /**
+   * A code larger than its named PDF page would be cropped, quiet zone and all
+   */
+  private validatePageSize(config: Partial<QRConfig>): void {
+    const page = config.format === 'pdf' && config.pageSize ? PDF_PAGE_SIZES[config.pageSize] : undefined;
+    const size = config.size || 300;
+    if (page && size > Math.min(...page)) {
+      throw new QRValidationError(
+        `Size ${size} does not fit on a ${config.pageSize} page; use a size of at most ` +
+        `${Math.floor(Math.min(...page))} or pageSize "fit"`,
+        { size, pageSize: config.pageSize }
+      );
+    }
+  }
+
+  /**
+   * Write generated output to disk unless the caller opted out with
+   * `saveToFile: false`. Returns the path written, if any.
+   */
+  private async saveOutput(
+    outputPath: string,
+    data: Buffer | string,
+    config: Partial<QRConfig>
+  ): Promise<string | undefined> {
+    if (config.saveToFile === false) {
+      return undefined;
     }
+    await fs.ensureDir(path.dirname(outputPath));
+    await fs.writeFile(outputPath, data);
+    return outputPath;
+  }
+
+  /**
+   * Build the symbol from the content, or from the exact segments the
+   * caller asked for
+   */
+  private createSymbol(content: string, config: QRConfig): QRCode.QRCode {
+    const { input, options } = encoderInput(config.segments || content, config.errorCorrectionLevel || 'M');
+    return QRCode.create(input, options);
   }
 
-  private generateOutputPath(format: string): string {
+  /**
+   * Write one image of a Structured Append set in the configured format;
+   * raster output is rasterised from the SVG rendering
+   */
+  private async renderSetOutput(
+    content: string,
+    renderSVG: () => string,
+    renderPDF: () => Buffer,
+    config: QRConfig,
+    outputPath: string
+  ): Promise<QRGenerationResult> {
+    let output: { buffer: Buffer | string; format: string; contentType: string };
+    switch (config.format) {
+      case 'svg':
+        output = { buffer: renderSVG(), format: 'svg', contentType: 'image/svg+xml' };
+        break;
+      case 'pdf':
+        output = { buffer: renderPDF(), format: 'pdf', contentType: 'application/pdf' };
+        break;
+      default:
+        output = await this.encodeRaster(await sharp(Buffer.from(renderSVG())).png().toBuffer(), config);
+        break;
+    }
+
+    const filePath = await this.saveOutput(outputPath, output.buffer, config);
+
+    return {
+      success: true,
+      filePath,
+      data: output.buffer,
+      format: output.format,
+      size: output.buffer.length,
+      contentType: output.contentType,
+      metadata: {
+        generatedAt: new Date().toISOString(),
+        originalContent: content,
+        estimatedSize: output.buffer.length,
+      },
+    };
+  }
+
+  /**
+   * One palette index per pixel: 1 for dark modules, 0 for light modules
+   * and the quiet zone
+   */
+  private rasterizeModules(modules: QRCode.BitMatrix, margin: number, scale: number): Uint8Array {
+    const side = (modules.size + margin * 2) * scale;
+    const pixels = new Uint8Array(side * side);
+    for (let row = 0; row < modules.size; row++) {
+      for (let col = 0; col < modules.size; col++) {
+        if (!modules.get(row, col)) continue;
+        for (let y = 0; y < scale; y++) {
+          const start = ((row + margin) * scale + y) * side + (col + margin) * scale;
+          pixels.fill(1, start, start + scale);
+        }
+      }
+    }
+    return pixels;
+  }
+
+  private generateOutputPath(id: string, format: string): string {
     const outputDir = process.env.QR_OUTPUT_DIR || './qr-codes';
-    const filename = `qr-${uuidv4()}.${format}`;
+    const filename = `qr-${id}.${format}`;
     return path.join(outputDir, filename);
   }
 
-  private async generatePNG(
+  private async generateRaster(
     content: string,
     config: QRConfig,
     outputPath: string
   ): Promise<QRGenerationResult> {
-    const buffer = await QRCode.toBuffer(content, {
+    const { input, options } = encoderInput(config.segments || content, config.errorCorrectionLevel || 'M');
+    const pngBuffer = await QRCode.toBuffer(input, {
+      ...options,
       width: config.size,
       margin: config.margin,
-      errorCorrectionLevel: config.errorCorrectionLevel,
     });
 
-    await fs.writeFile(outputPath, buffer);
+    const { buffer, format, contentType } = await this.encodeRaster(pngBuffer, config);
+    const filePath = await this.saveOutput(outputPath, buffer, config);
 
     return {
       success: true,
-      filePath: outputPath,
+      filePath,
       data: buffer,
-      format: 'png',
+      format,
       size: buffer.length,
-      contentType: 'image/png',
+      contentType,
       metadata: {
         generatedAt: new Date().toISOString(),
         originalContent: content,
@@ -339,27 +928,65 @@ export class QRCodeEnhanced {
     };
   }
 
+  /**
+   * Re-encode a rendered PNG into the requested raster format.
+   * Lossy encoders are tuned to keep module edges sharp: full-resolution
+   * chroma for JPEG and smart subsampling for WebP.
+   */
+  private async encodeRaster(
+    pngBuffer: Buffer,
+    config: QRConfig
+  ): Promise<{ buffer: Buffer; format: string; contentType: string }> {
+    switch (config.format) {
+      case 'jpeg':
+        return {
+          buffer: await sharp(pngBuffer)
+            .flatten({ background: '#ffffff' })
+            .jpeg({
+              quality: config.quality ?? 92,
+              chromaSubsampling: config.chromaSubsampling ?? '4:4:4',
+              mozjpeg: true,
+            })
+            .toBuffer(),
+          format: 'jpeg',
+          contentType: 'image/jpeg',
+        };
+      case 'webp':
+        return {
+          buffer: await sharp(pngBuffer)
+            .webp({
+              quality: config.quality ?? 90,
+              lossless: config.quality === 100,
+              smartSubsample: true,
+            })
+            .toBuffer(),
+          format: 'webp',
+          contentType: 'image/webp',
+        };
+      default:
+        return { buffer: pngBuffer, format: 'png', contentType: 'image/png' };
+    }
+  }
+
   private async generateSVG(
     content: string,
     config: QRConfig,
-    outputPath: string
+    outputPath: string,
+    style: Partial<QRStyle> = {}
   ): Promise<QRGenerationResult> {
-    const qrSvg = new QRCodeSVG({
-      content,
-      width: config.size,
-      height: config.size,
-      padding: config.margin * 10,
-      color: '#000000',
-      background: '#ffffff',
-      ecl: config.errorCorrectionLevel,
+    const qr = this.createSymbol(content, config);
+
+    const svgString = renderStyledSVG(qr.modules, style, {
+      size: config.size || 300,
+      margin: config.margin ?? 1,
+      logoDataUri: style.logoPath ? await this.loadLogoDataUri(style.logoPath) : undefined,
     });
 
-    const svgString = qrSvg.svg();
-    await fs.writeFile(outputPath, svgString);
+    const filePath = await this.saveOutput(outputPath, svgString, config);
 
     return {
       success: true,
-      filePath: outputPath,
+      filePath,
       data: svgString,
       format: 'svg',
       size: svgString.length,
@@ -372,148 +999,286 @@ export class QRCodeEnhanced {
     };
   }
 
+  private async generatePDF(
+    content: string,
+    config: QRConfig,
+    outputPath: string,
+    style?: Partial<QRStyle>
+  ): Promise<QRGenerationResult> {
+    const qr = this.createSymbol(content, config);
+    const options = {
+      size: config.size || 300,
+      margin: config.margin ?? 1,
+      pageSize: config.pageSize,
+    };
+
+    const buffer = style
+      ? renderStyledPDF(qr.modules, style, {
+        ...options,
+        logo: style.logoPath ? await this.loadLogoPixels(style.logoPath) : undefined,
+      })
+      : renderQRToPDF(qr.modules, options);
+
+    const filePath = await this.saveOutput(outputPath, buffer, config);
+
+    return {
+      success: true,
+      filePath,
+      data: buffer,
+      format: 'pdf',
+      size: buffer.length,
+      contentType: 'application/pdf',
+      metadata: {
+        generatedAt: new Date().toISOString(),
+        originalContent: content,
+        estimatedSize: buffer.length,
+      },
+    };
+  }
+
   private async applyAdvancedStyling(
-    baseQR: string,
+    content: string,
     style: QRStyle,
     config: QRConfig,
     outputPath: string
   ): Promise<QRGenerationResult> {
-    // For now, return the base QR with basic styling
-    // In a full implementation, this would apply gradients, logos, custom shapes, etc.
-    const canvas = createCanvas(config.size || 300, config.size || 300);
-    const ctx = canvas.getContext('2d');
-    
-    // Load base QR image
-    const img = await loadImage(baseQR);
-    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-    
-    // Apply logo if specified
-    if (style.logoPath && await fs.pathExists(style.logoPath)) {
-      try {
-        const logo = await loadImage(style.logoPath);
-        const logoSize = canvas.width * (style.logoSize || 0.2);
-        const x = (canvas.width - logoSize) / 2;
-        const y = (canvas.height - logoSize) / 2;
-        
-        // Draw logo background
-        ctx.fillStyle = style.backgroundColor || '#ffffff';
-        ctx.fillRect(x - 5, y - 5, logoSize + 10, logoSize + 10);
-        
-        // Draw logo
-        ctx.drawImage(logo, x, y, logoSize, logoSize);
-      } catch (error) {
-        console.warn('Failed to apply logo:', error);
-      }
-    }
-    
-    const buffer = canvas.toBuffer('image/png');
-    await fs.writeFile(outputPath, buffer);
+    const canvas = await this.drawStyledSymbol(content, style, config);
+    const { buffer, format, contentType } = await this.encodeRaster(
+      canvas.toBuffer('image/png'),
+      config
+    );
+    const filePath = await this.saveOutput(outputPath, buffer, config);
     
     return {
       success: true,
-      filePath: outputPath,
+      filePath,
       data: buffer,
-      format: 'png',
+      format,
       size: buffer.length,
-      contentType: 'image/png',
+      contentType,
       metadata: {
         generatedAt: new Date().toISOString(),
-        originalContent: 'styled content',
+        originalContent: content,
         estimatedSize: buffer.length,
       },
     };
   }
 
-  private buildVCardContent(vcard: VCard): string {
-    let content = 'BEGIN:VCARD\nVERSION:3.0\n';
-    content += `FN:${vcard.firstName} ${vcard.lastName}\n`;
-    content += `N:${vcard.lastName};${vcard.firstName};;;\n`;
+  /**
+   * Draw the styled symbol on a canvas the size of the output image
+   */
+  private async drawStyledSymbol(
+    content: string,
+    style: QRStyle,
+    config: QRConfig
+  ): Promise<Canvas> {
+    const qr = this.createSymbol(content, config);
+    const size = config.size || 300;
+    const borderWidth = style.borderWidth || 0;
+    const layout = computeLayout(qr.modules.size, size, config.margin ?? 1, borderWidth);
+    const radius = Math.min(style.cornerRadius || 0, size / 2);
+
+    const canvas = createCanvas(size, size);
+    const ctx = canvas.getContext('2d');
     
-    if (vcard.organization) {
-      content += `ORG:${vcard.organization}\n`;
-    }
-    if (vcard.title) {
-      content += `TITLE:${vcard.title}\n`;
-    }
-    if (vcard.phone) {
-      content += `TEL:${vcard.phone}\n`;
-    }
-    if (vcard.email) {
-      content += `EMAIL:${vcard.email}\n`;
+    // Rounded outer frame: everything outside it stays transparent
+    ctx.beginPath();
+    traceRoundedRect(ctx, 0, 0, size, size, radius);
+    ctx.clip();
+    ctx.fillStyle = style.backgroundColor || '#ffffff';
+    ctx.fillRect(0, 0, size, size);
+    
+    if (borderWidth > 0) {
+      ctx.beginPath();
+      traceRoundedRect(
+        ctx,
+        borderWidth / 2,
+        borderWidth / 2,
+        size - borderWidth,
+        size - borderWidth,
+        Math.max(0, radius - borderWidth / 2)
+      );
+      ctx.lineWidth = borderWidth;
+      ctx.strokeStyle = style.borderColor || '#000000';
+      ctx.stroke();
     }
-    if (vcard.website) {
-      content += `URL:${vcard.website}\n`;
+    
+    // Draw every dark module as a single path so shapes share one fill
+    const moduleFill = this.createModuleFill(ctx, style, layout);
+    const customEyes = hasCustomEyes(style);
+    ctx.beginPath();
+    traceModules(ctx, qr.modules, layout, style.dotStyle, customEyes);
+    ctx.fillStyle = moduleFill;
+    ctx.fill();
+    
+    // Finder patterns drawn as styled eyes
+    if (customEyes) {
+      ctx.beginPath();
+      traceEyeFrames(ctx, layout, style.eyeFrameShape);
+      ctx.fillStyle = style.eyeFrameColor || moduleFill;
+      ctx.fill('evenodd');
+      
+      ctx.beginPath();
+      traceEyeBalls(ctx, layout, style.eyeBallShape);
+      ctx.fillStyle = style.eyeBallColor || style.eyeFrameColor || moduleFill;
+      ctx.fill();
     }
-    if (vcard.address) {
-      const addr = vcard.address;
-      content += `ADR:;;${addr.street || ''};${addr.city || ''};${addr.state || ''};${addr.zip || ''};${addr.country || ''}\n`;
+    
+    // Apply logo if specified
+    if (style.logoPath) {
+      const logo = await loadImage(await fs.readFile(style.logoPath));
+      const logoSize = canvas.width * (style.logoSize || 0.2);
+      const x = (canvas.width - logoSize) / 2;
+      const y = (canvas.height - logoSize) / 2;
+      
+      // Draw logo background
+      ctx.fillStyle = style.backgroundColor || '#ffffff';
+      ctx.fillRect(x - LOGO_PADDING, y - LOGO_PADDING, logoSize + LOGO_PADDING * 2, logoSize + LOGO_PADDING * 2);
+      
+      // Draw logo
+      ctx.drawImage(logo, x, y, logoSize, logoSize);
     }
     
-    content += 'END:VCARD';
-    return content;
+    return canvas;
   }
 
-  private buildWiFiContent(wifi: WiFi): string {
-    return `WIFI:T:${wifi.security};S:${wifi.ssid};P:${wifi.password || ''};H:${wifi.hidden ? 'true' : 'false'};;`;
-  }
+  /**
+   * Pick the error correction level and logo size so the logo stays within
+   * the symbol's recovery budget
+   */
+  private async planLogoPlacement(
+    content: string,
+    style: QRStyle,
+    config: QRConfig
+  ): Promise<LogoPlan> {
+    if (!await fs.pathExists(style.logoPath!)) {
+      throw new QRValidationError(`Logo file not found: ${style.logoPath}`);
+    }
 
-  private buildEventContent(event: Event): string {
-    let content = 'BEGIN:VEVENT\n';
-    content += `SUMMARY:${event.title}\n`;
-    content += `DTSTART:${this.formatDateForEvent(event.startDate, event.allDay)}\n`;
-    
-    if (event.endDate) {
-      content += `DTEND:${this.formatDateForEvent(event.endDate, event.allDay)}\n`;
+    const plan = planLogo({
+      content: config.segments || content,
+      size: config.size || 300,
+      margin: config.margin ?? 1,
+      borderWidth: style.borderWidth || 0,
+      logoSize: style.logoSize || 0.2,
+      errorCorrectionLevel: config.errorCorrectionLevel || 'M',
+    });
+
+    if (!plan) {
+      throw new QRGenerationError(
+        'Logo covers too much of the code to stay scannable at any error correction level the content fits',
+        { logoPath: style.logoPath, logoSize: style.logoSize }
+      );
     }
-    if (event.description) {
-      content += `DESCRIPTION:${event.description}\n`;
+    return plan;
+  }
+
+  /**
+   * Decode a rendered result and compare it with the encoded content
+   */
+  private async verifyScan(
+    image: Buffer | string,
+    content: string
+  ): Promise<NonNullable<QRGenerationResult['verification']>> {
+    const input = typeof image === 'string' ? Buffer.from(image) : image;
+    const { data, info } = await sharp(input)
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const decoded = this.decodePixels(new Uint8ClampedArray(data), info.width, info.height);
+
+    if (!decoded.success) {
+      return { passed: false, error: decoded.error };
     }
-    if (event.location) {
-      content += `LOCATION:${event.location}\n`;
+    if (decoded.content !== content) {
+      return {
+        passed: false,
+        decodedContent: decoded.content,
+        error: 'Decoded content does not match the encoded content',
+      };
     }
-    
-    content += 'END:VEVENT';
-    return content;
+    return { passed: true, decodedContent: decoded.content };
   }
 
-  private formatDateForEvent(dateStr: string, allDay: boolean): string {
-    const date = new Date(dateStr);
-    if (allDay) {
-      return date.toISOString().split('T')[0].replace(/-/g, '');
-    }
-    return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+  /**
+   * Read a logo file into a data URI for embedding in SVG output
+   */
+  private async loadLogoDataUri(logoPath: string): Promise<string> {
+    const mimeType = mime.lookup(logoPath) || 'image/png';
+    const data = await fs.readFile(logoPath);
+    return `data:${mimeType};base64,${data.toString('base64')}`;
   }
 
-  private assessQuality(metadata: any, stats: any, content: string): any {
-    let score = 100;
-    const recommendations: string[] = [];
-    
-    // Check image size
-    if (metadata.width < 200 || metadata.height < 200) {
-      score -= 20;
-      recommendations.push('Increase image resolution for better readability');
-    }
-    
-    // Check contrast (simplified)
-    const contrast = stats.channels?.[0]?.max - stats.channels?.[0]?.min;
-    if (contrast < 128) {
-      score -= 30;
-      recommendations.push('Improve contrast between foreground and background');
+  /**
+   * Decode a logo file into RGB and alpha samples for embedding in PDF
+   * output, at its own resolution up to LOGO_PDF_RESOLUTION
+   */
+  private async loadLogoPixels(logoPath: string): Promise<PDFImage> {
+    const logo = await loadImage(await fs.readFile(logoPath));
+    // Stretched to a square, as in raster output
+    const side = Math.max(1, Math.min(LOGO_PDF_RESOLUTION, Math.max(logo.width, logo.height)));
+    const canvas = createCanvas(side, side);
+    canvas.getContext('2d').drawImage(logo, 0, 0, side, side);
+    const pixels = canvas.getContext('2d').getImageData(0, 0, side, side).data;
+
+    const rgb = Buffer.alloc(side * side * 3);
+    const alpha = Buffer.alloc(side * side);
+    for (let i = 0; i < side * side; i++) {
+      rgb[i * 3] = pixels[i * 4];
+      rgb[i * 3 + 1] = pixels[i * 4 + 1];
+      rgb[i * 3 + 2] = pixels[i * 4 + 2];
+      alpha[i] = pixels[i * 4 + 3];
     }
-    
-    // Check content length
-    if (content.length > 1000) {
-      score -= 10;
-      recommendations.push('Consider reducing content length for better reliability');
+    return { width: side, height: side, rgb, alpha };
+  }
+
+  /**
+   * Module fill: a solid foreground color, or a gradient spanning the symbol
+   * when both gradient stops are set
+   */
+  private createModuleFill(
+    ctx: CanvasRenderingContext2D,
+    style: QRStyle,
+    layout: SymbolLayout
+  ): string | CanvasGradient {
+    if (!style.gradientStart || !style.gradientEnd) {
+      return style.foregroundColor || '#000000';
     }
-    
-    let readability: 'excellent' | 'good' | 'fair' | 'poor';
-    if (score >= 90) readability = 'excellent';
-    else if (score >= 70) readability = 'good';
-    else if (score >= 50) readability = 'fair';
-    else readability = 'poor';
-    
-    return { score: Math.max(0, score), readability, recommendations };
+
+    const start = layout.origin;
+    const end = layout.origin + layout.moduleCount * layout.moduleSize;
+    const center = (start + end) / 2;
+    const gradient = style.gradientType === 'radial'
+      ? ctx.createRadialGradient(center, center, 0, center, center, (end - start) / Math.SQRT2)
+      : ctx.createLinearGradient(start, start, end, end);
+
+    gradient.addColorStop(0, style.gradientStart);
+    gradient.addColorStop(1, style.gradientEnd);
+    return gradient;
+  }
+
+  /**
+   * Twelve fixed lines in UTF-8 (character set 1); trailing empty lines are
+   * left out as the standard allows
+   */
+  private buildEPCContent(payment: EPCPayment): string {
+    const lines = [
+      'BCD',
+      payment.version,
+      '1',
+      payment.identification,
+      payment.bic || '',
+      payment.name,
+      payment.iban,
+      payment.amount !== undefined ? `EUR${payment.amount.toFixed(2)}` : '',
+      payment.purpose || '',
+      payment.reference || '',
+      payment.remittanceText || '',
+      payment.information || '',
+    ];
+    while (lines[lines.length - 1] === '') lines.pop();
+    return lines.join('\n');
   }
 
   private updateStatistics(result: QRGenerationResult, generationTime: number): void {
@@ -0,0 +1,367 @@
+import QRCode from 'qrcode';
+import type { BitMatrix, QRCodeErrorCorrectionLevel } from 'qrcode';
+import { createSampler, ModuleSampler } from './qr-decoder.js';
+import { ECL_RECOVERY } from './logo-planner.js';
+import type { RGBAImage } from './decode-pipeline.js';
+import {
+  DecodedQRCode,
+  ErrorCorrectionLevel,
+  QRPoint,
+  QRQualityReport,
+  QualityMeasurement,
+  QualityRating,
+} from './types.js';
+
+// ISO/IEC 18004 asks for a 4-module quiet zone on every side
+const REQUIRED_QUIET_ZONE = 4;
+
+// Camera scanners need a few pixels per module to resolve the grid
+const MIN_MODULE_PIXELS = 4;
+
+const RATING_SCORES: Record<QualityRating, number> = {
+  excellent: 100,
+  good: 85,
+  fair: 60,
+  poor: 25,
+};
+
+const FINDER_RUNS = [1, 1, 3, 1, 1];
+
+// Samples per module when scanning across a finder pattern
+const FINDER_SCAN_RESOLUTION = 20;
+
+/**
+ * Measure how scannable a decoded symbol is from the pixels it was
+ * decoded from: module size, quiet zone, contrast, the share of modules
+ * that sample wrong, and finder pattern distortion.
+ */
+export function measureQuality(image: RGBAImage, code: DecodedQRCode): QRQualityReport {
+  const sampler = createSampler(image.data, image.width, image.height, code.location, code.version);
+
+  const measurements = [
+    measureModuleSize(code, sampler.dimension),
+    measureQuietZone(image, sampler),
+    ...measureModules(code, sampler),
+    measureFinderDistortion(image, code, sampler),
+  ];
+
+  const score = Math.round(
+    measurements.reduce((sum, measurement) => sum + RATING_SCORES[measurement.rating], 0) / measurements.length
+  );
+  const recommendations = measurements
+    .filter(measurement => measurement.rating === 'fair' || measurement.rating === 'poor')
+    .map(measurement => measurement.recommendation);
+
+  return {
+    score,
+    readability: score >= 90 ? 'excellent' : score >= 70 ? 'good' : score >= 50 ? 'fair' : 'poor',
+    recommendations: recommendations.length > 0
+      ? recommendations
+      : ['All measurements are within recommended limits'],
+    measurements,
+  };
+}
+
+function measureModuleSize(code: DecodedQRCode, dimension: number): QualityMeasurement {
+  const { topLeftCorner, topRightCorner, bottomRightCorner, bottomLeftCorner } = code.location;
+  const sides = [
+    distance(topLeftCorner, topRightCorner),
+    distance(topRightCorner, bottomRightCorner),
+    distance(bottomRightCorner, bottomLeftCorner),
+    distance(bottomLeftCorner, topLeftCorner),
+  ];
+  const value = round(Math.min(...sides) / dimension);
+  const rating: QualityRating = value >= 6 ? 'excellent' : value >= MIN_MODULE_PIXELS ? 'good' : value >= 2 ? 'fair' : 'poor';
+  const minimumSize = Math.ceil(MIN_MODULE_PIXELS * (dimension + REQUIRED_QUIET_ZONE * 2));
+
+  return {
+    name: 'moduleSize',
+    value,
+    unit: 'px',
+    target: `>= ${MIN_MODULE_PIXELS} px per module`,
+    rating,
+    recommendation: value >= MIN_MODULE_PIXELS
+      ? `Modules are ${value} px wide, enough for camera scanning`
+      : `Modules are only ${value} px wide; render the ${dimension}x${dimension} symbol at ` +
+        `${minimumSize} px or more (${MIN_MODULE_PIXELS} px per module including the quiet zone)`,
+  };
+}
+
+/**
+ * Walk outward from each edge of the symbol, one module at a time, until a
+ * dark module or the edge of the image is reached
+ */
+function measureQuietZone(image: RGBAImage, sampler: ModuleSampler): QualityMeasurement {
+  const { dimension } = sampler;
+  const far = dimension - 1;
+  const sides: Array<{ side: string; module: (step: number, along: number) => [number, number] }> = [
+    { side: 'top', module: (step, along) => [-step, along] },
+    { side: 'right', module: (step, along) => [along, far + step] },
+    { side: 'bottom', module: (step, along) => [far + step, along] },
+    { side: 'left', module: (step, along) => [along, -step] },
+  ];
+
+  const widths = sides.map(({ side, module }) => {
+    let clear = 0;
+    for (let step = 1; step <= REQUIRED_QUIET_ZONE; step++) {
+      const blocked = Array.from({ length: dimension }, (_, along) => module(step, along)).some(([row, col]) => {
+        const point = sampler.center(row, col);
+        const outside = point.x < 0 || point.y < 0 || point.x >= image.width || point.y >= image.height;
+        return outside || sampler.isDark(row, col);
+      });
+      if (blocked) break;
+      clear = step;
+    }
+    return { side, clear };
+  });
+
+  const narrowest = widths.reduce((min, width) => (width.clear < min.clear ? width : min));
+  const value = narrowest.clear;
+  const rating: QualityRating = value >= REQUIRED_QUIET_ZONE ? 'excellent' : value >= 2 ? 'fair' : 'poor';
+
+  return {
+    name: 'quietZone',
+    value,
+    unit: 'modules',
+    target: `>= ${REQUIRED_QUIET_ZONE} modules on every side`,
+    rating,
+    recommendation: value >= REQUIRED_QUIET_ZONE
+      ? `Quiet zone of at least ${REQUIRED_QUIET_ZONE} modules on every side`
+      : `Quiet zone is ${value} module${value === 1 ? '' : 's'} on the ${narrowest.side}; keep ` +
+        `${REQUIRED_QUIET_ZONE} modules of clear space around the code (margin: ${REQUIRED_QUIET_ZONE})`,
+  };
+}
+
+/**
+ * Compare every sampled module against the symbol re-encoded from the
+ * decoded content. Another encoder may have split the content into
+ * different segments, in which case only the function patterns (finder,
+ * timing, alignment, format and version information) can be compared.
+ */
+function measureModules(code: DecodedQRCode, sampler: ModuleSampler): QualityMeasurement[] {
+  const level = code.errorCorrectionLevel as ErrorCorrectionLevel | undefined;
+  const options = {
+    version: code.version,
+    errorCorrectionLevel: level as QRCodeErrorCorrectionLevel,
+    maskPattern: code.maskPattern as QRCode.QRCodeMaskPattern,
+  };
+  const reference = level && code.maskPattern !== undefined ? tryCreate(code.content, options) : undefined;
+  const functionReference = level && code.maskPattern !== undefined ? tryCreate('0', options) : undefined;
+
+  let functionModules = 0;
+  let functionErrors = 0;
+  let dataModules = 0;
+  let dataErrors = 0;
+
+  for (let row = 0; row < sampler.dimension; row++) {
+    for (let col = 0; col < sampler.dimension; col++) {
+      const sampled = sampler.isDark(row, col);
+      if (functionReference?.isReserved(row, col)) {
+        functionModules++;
+        if (Boolean(functionReference.get(row, col)) !== sampled) functionErrors++;
+      } else if (reference) {
+        dataModules++;
+        if (Boolean(reference.get(row, col)) !== sampled) dataErrors++;
+      }
+    }
+  }
+
+  // A data error rate this high cannot decode, so the re-encoded layout must differ
+  const dataComparable = dataModules > 0 && dataErrors / dataModules < 0.2;
+
+  // Split module luminances by their true colour where it is known
+  const dark: number[] = [];
+  const light: number[] = [];
+  for (let row = 0; row < sampler.dimension; row++) {
+    for (let col = 0; col < sampler.dimension; col++) {
+      const expected = functionReference?.isReserved(row, col)
+        ? functionReference.get(row, col)
+        : dataComparable ? reference!.get(row, col) : sampler.isDark(row, col);
+      (expected ? dark : light).push(sampler.luminance(row, col));
+    }
+  }
+
+  const measurements = [measureContrast(dark, light, sampler.inverted)];
+
+  if (!level || !functionReference) {
+    measurements.push({
+      name: 'moduleErrors',
+      value: 100,
+      unit: '%',
+      target: 'format information readable',
+      rating: 'poor',
+      recommendation: 'The format information could not be read; the symbol only decoded thanks to redundancy. ' +
+        'Check the area next to the finder patterns for damage or overlapping graphics',
+    });
+    return measurements;
+  }
+
+  const errors = functionErrors + (dataComparable ? dataErrors : 0);
+  const total = functionModules + (dataComparable ? dataModules : 0);
+  const value = round((errors / total) * 100);
+  const budget = ECL_RECOVERY[level] * 100;
+  const rating: QualityRating = value === 0 ? 'excellent' : value <= budget / 4 ? 'good' : value <= budget / 2 ? 'fair' : 'poor';
+  const basis = dataComparable ? 'modules' : 'function pattern modules';
+
+  measurements.push({
+    name: 'moduleErrors',
+    value,
+    unit: '%',
+    target: `<= ${round(budget / 4)}% (a quarter of level ${level}'s ~${budget}% recovery)`,
+    rating,
+    recommendation: rating === 'excellent' || rating === 'good'
+      ? `${value}% of ${basis} sample wrong, well within level ${level}'s recovery budget`
+      : `${value}% of ${basis} sample wrong, using up level ${level}'s ~${budget}% recovery budget; ` +
+        'improve focus, print sharpness or lighting, or raise the error correction level',
+  });
+
+  return measurements;
+}
+
+/**
+ * Symbol contrast as defined for print quality grading (ISO/IEC 15415):
+ * the luminance gap between light and dark modules as a share of full scale
+ */
+function measureContrast(dark: number[], light: number[], inverted: boolean): QualityMeasurement {
+  const value = dark.length && light.length ? round((Math.abs(mean(light) - mean(dark)) / 255) * 100) : 0;
+  const rating: QualityRating = value >= 70 ? 'excellent' : value >= 55 ? 'good' : value >= 40 ? 'fair' : 'poor';
+
+  let recommendation = rating === 'excellent' || rating === 'good'
+    ? `Symbol contrast of ${value}% between dark and light modules`
+    : `Symbol contrast is only ${value}%; use darker modules on a lighter background (70% or more)`;
+  if (inverted) {
+    recommendation += '. The code is inverted (light modules on dark), which not every scanner supports';
+  }
+
+  return {
+    name: 'contrast',
+    value,
+    unit: '%',
+    target: '>= 70% symbol contrast, dark modules on light',
+    rating: inverted && rating === 'excellent' ? 'good' : rating,
+    recommendation,
+  };
+}
+
+/**
+ * Scan across the middle of each finder pattern, horizontally and
+ * vertically, and compare the run lengths with the 1:1:3:1:1 ratio.
+ * Perspective skew is measured from the corner angles of the symbol.
+ */
+function measureFinderDistortion(image: RGBAImage, code: DecodedQRCode, sampler: ModuleSampler): QualityMeasurement {
+  const far = sampler.dimension - 7;
+  const finders = [[0, 0], [0, far], [far, 0]];
+
+  let deviation = 0;
+  for (const [top, left] of finders) {
+    for (const horizontal of [true, false]) {
+      const runs = finderRuns(image, sampler, top, left, horizontal);
+      if (!runs) {
+        deviation = 1;
+        continue;
+      }
+      const total = runs.reduce((sum, run) => sum + run, 0);
+      runs.forEach((run, index) => {
+        const expected = FINDER_RUNS[index];
+        deviation = Math.max(deviation, Math.abs((run / total) * 7 - expected) / expected);
+      });
+    }
+  }
+
+  const value = round(deviation * 100);
+  const skew = round(maxCornerSkew(code));
+  const rating: QualityRating = value <= 15 ? 'excellent' : value <= 30 ? 'good' : value <= 50 ? 'fair' : 'poor';
+
+  let recommendation = rating === 'excellent' || rating === 'good'
+    ? `Finder patterns are within ${value}% of the 1:1:3:1:1 ratio`
+    : `Finder patterns deviate ${value}% from the 1:1:3:1:1 ratio; keep the eyes square and solid, ` +
+      'and avoid logos or graphics touching them';
+  if (skew > 10) {
+    recommendation += `. The symbol is skewed by ${skew}°; capture or print it flat and face-on`;
+  }
+
+  return {
+    name: 'finderDistortion',
+    value,
+    unit: '%',
+    target: '<= 30% deviation from 1:1:3:1:1',
+    rating: skew > 20 && rating !== 'poor' ? 'fair' : rating,
+    recommendation,
+  };
+}
+
+/**
+ * Dark/light run lengths (in samples) across the centre line of a finder
+ * pattern, or undefined if it does not show five runs
+ */
+function finderRuns(
+  image: RGBAImage,
+  sampler: ModuleSampler,
+  top: number,
+  left: number,
+  horizontal: boolean
+): number[] | undefined {
+  const samples: boolean[] = [];
+  // From the separator on one side to the separator on the other
+  for (let i = 0; i <= 8 * FINDER_SCAN_RESOLUTION; i++) {
+    const offset = -0.5 + i / FINDER_SCAN_RESOLUTION;
+    const point = horizontal ? sampler.point(top + 3.5, left + offset) : sampler.point(top + offset, left + 3.5);
+    if (point.x < 0 || point.y < 0 || point.x >= image.width || point.y >= image.height) continue;
+    samples.push((sampler.luminanceAt(point) < sampler.threshold) !== sampler.inverted);
+  }
+
+  const first = samples.indexOf(true);
+  const last = samples.lastIndexOf(true);
+  if (first < 0) return undefined;
+
+  const runs: number[] = [];
+  let current = samples[first];
+  let length = 0;
+  for (let i = first; i <= last; i++) {
+    if (samples[i] === current) {
+      length++;
+    } else {
+      runs.push(length);
+      current = samples[i];
+      length = 1;
+    }
+  }
+  runs.push(length);
+
+  return runs.length === FINDER_RUNS.length ? runs : undefined;
+}
+
+function maxCornerSkew(code: DecodedQRCode): number {
+  const { topLeftCorner, topRightCorner, bottomRightCorner, bottomLeftCorner } = code.location;
+  const corners = [topLeftCorner, topRightCorner, bottomRightCorner, bottomLeftCorner];
+  return Math.max(...corners.map((corner, index) => {
+    const previous = corners[(index + 3) % 4];
+    const next = corners[(index + 1) % 4];
+    const a = Math.atan2(previous.y - corner.y, previous.x - corner.x);
+    const b = Math.atan2(next.y - corner.y, next.x - corner.x);
+    let angle = Math.abs(a - b) * (180 / Math.PI);
+    if (angle > 180) angle = 360 - angle;
+    return Math.abs(angle - 90);
+  }));
+}
+
+function tryCreate(content: string, options: QRCode.QRCodeOptions): BitMatrix | undefined {
+  try {
+    const symbol = QRCode.create(content, options);
+    return symbol.version === options.version ? symbol.modules : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function distance(a: QRPoint, b: QRPoint): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
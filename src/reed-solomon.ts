@@ -0,0 +1,162 @@
+// Reed-Solomon coding over GF(256) with the QR code field polynomial
+// x^8 + x^4 + x^3 + x^2 + 1 and generator roots α^0..α^(n-1)
+
+const EXP = new Uint8Array(512);
+const LOG = new Uint8Array(256);
+
+for (let i = 0, value = 1; i < 255; i++) {
+  EXP[i] = value;
+  LOG[value] = i;
+  value <<= 1;
+  if (value & 0x100) value ^= 0x11d;
+}
+for (let i = 255; i < 512; i++) {
+  EXP[i] = EXP[i - 255];
+}
+
+const generators = new Map<number, Uint8Array>();
+
+/**
+ * Error correction codewords for a block of data codewords
+ */
+export function rsEncode(data: Uint8Array, ecCount: number): Uint8Array {
+  const generator = generatorPolynomial(ecCount);
+  const remainder = new Uint8Array(ecCount);
+
+  for (const byte of data) {
+    const factor = byte ^ remainder[0];
+    remainder.copyWithin(0, 1);
+    remainder[ecCount - 1] = 0;
+    for (let i = 0; i < ecCount; i++) {
+      remainder[i] ^= multiply(generator[i + 1], factor);
+    }
+  }
+  return remainder;
+}
+
+/**
+ * Correct a block (data followed by error correction codewords) in place.
+ * Returns the number of corrected codewords, or -1 when the block has more
+ * errors than the code can correct.
+ */
+export function rsDecode(block: Uint8Array, ecCount: number): number {
+  const syndromes = new Uint8Array(ecCount);
+  let clean = true;
+  for (let i = 0; i < ecCount; i++) {
+    syndromes[i] = evaluate(block, EXP[i]);
+    if (syndromes[i] !== 0) clean = false;
+  }
+  if (clean) return 0;
+
+  // Berlekamp-Massey: error locator polynomial, lowest degree first
+  let locator = [1];
+  let previous = [1];
+  let length = 0;
+  let shift = 1;
+  let previousDiscrepancy = 1;
+  for (let n = 0; n < ecCount; n++) {
+    let discrepancy = syndromes[n];
+    for (let i = 1; i <= length; i++) {
+      discrepancy ^= multiply(locator[i] || 0, syndromes[n - i]);
+    }
+    if (discrepancy === 0) {
+      shift++;
+      continue;
+    }
+
+    const scale = divide(discrepancy, previousDiscrepancy);
+    const next = locator.slice();
+    for (let i = 0; i < previous.length; i++) {
+      next[i + shift] = (next[i + shift] || 0) ^ multiply(scale, previous[i]);
+    }
+    if (2 * length <= n) {
+      previous = locator;
+      previousDiscrepancy = discrepancy;
+      length = n + 1 - length;
+      shift = 1;
+    } else {
+      shift++;
+    }
+    locator = next;
+  }
+  while (locator.length > 1 && locator[locator.length - 1] === 0) locator.pop();
+
+  const errorCount = locator.length - 1;
+  if (errorCount * 2 > ecCount) return -1;
+
+  // Chien search: position p (from the end) is in error when Λ(α^-p) = 0
+  const positions: number[] = [];
+  for (let p = 0; p < block.length; p++) {
+    let sum = 0;
+    for (let i = 0; i < locator.length; i++) {
+      sum ^= multiply(locator[i], EXP[(255 - ((p * i) % 255)) % 255]);
+    }
+    if (sum === 0) positions.push(p);
+  }
+  if (positions.length !== errorCount) return -1;
+
+  // Forney: error values from the evaluator Ω = S·Λ mod x^ecCount
+  const evaluator = new Array(ecCount).fill(0);
+  for (let i = 0; i < ecCount; i++) {
+    for (let j = 0; j <= i && j < locator.length; j++) {
+      evaluator[i] ^= multiply(syndromes[i - j], locator[j]);
+    }
+  }
+  for (const p of positions) {
+    const inverse = EXP[(255 - p) % 255];
+    let numerator = 0;
+    for (let i = 0; i < ecCount; i++) {
+      numerator ^= multiply(evaluator[i], power(inverse, i));
+    }
+    let denominator = 0;
+    for (let i = 1; i < locator.length; i += 2) {
+      denominator ^= multiply(locator[i], power(inverse, i - 1));
+    }
+    if (denominator === 0) return -1;
+    block[block.length - 1 - p] ^= multiply(EXP[p % 255], divide(numerator, denominator));
+  }
+
+  for (let i = 0; i < ecCount; i++) {
+    if (evaluate(block, EXP[i]) !== 0) return -1;
+  }
+  return errorCount;
+}
+
+function generatorPolynomial(degree: number): Uint8Array {
+  let generator = generators.get(degree);
+  if (generator) return generator;
+
+  // Highest degree first: (x - α^0)(x - α^1)...
+  generator = new Uint8Array(degree + 1);
+  generator[0] = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = i + 1; j > 0; j--) {
+      generator[j] ^= multiply(generator[j - 1], EXP[i]);
+    }
+  }
+  generators.set(degree, generator);
+  return generator;
+}
+
+/**
+ * Evaluate a polynomial given highest degree first (codeword order)
+ */
+function evaluate(polynomial: Uint8Array, x: number): number {
+  let result = 0;
+  for (const coefficient of polynomial) {
+    result = multiply(result, x) ^ coefficient;
+  }
+  return result;
+}
+
+function multiply(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function divide(a: number, b: number): number {
+  return a === 0 ? 0 : EXP[(LOG[a] + 255 - LOG[b]) % 255];
+}
+
+function power(a: number, exponent: number): number {
+  return exponent === 0 ? 1 : a === 0 ? 0 : EXP[(LOG[a] * exponent) % 255];
+}
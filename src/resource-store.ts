@@ -0,0 +1,95 @@
+import { QRConfig, QRGenerationResult, QRStyle } from './types.js';
+
+export const RESOURCE_SCHEME = 'qr://';
+
+const MAX_RESOURCES = 500;
+
+export interface QRResource {
+  id: string;
+  uri: string;
+  name: string;
+  format: string;
+  mimeType: string;
+  data: Buffer;
+  filePath?: string;
+  content: string;
+  config: Partial<QRConfig>;
+  style?: Partial<QRStyle>;
+  createdAt: string;
+}
+
+/**
+ * In-memory registry of generated QR codes, addressable as `qr://<id>`
+ * (the image itself) and `qr://<id>/metadata` (JSON description).
+ * The oldest entries are evicted once the store is full.
+ */
+export class QRResourceStore {
+  private resources: Map<string, QRResource> = new Map();
+
+  add(
+    result: QRGenerationResult,
+    content: string,
+    config: Partial<QRConfig>,
+    style?: Partial<QRStyle>
+  ): QRResource | undefined {
+    if (!result.id || result.data === undefined) {
+      return undefined;
+    }
+
+    const resource: QRResource = {
+      id: result.id,
+      uri: `${RESOURCE_SCHEME}${result.id}`,
+      name: `QR code (${result.format}): ${summarize(content)}`,
+      format: result.format,
+      mimeType: result.contentType,
+      data: Buffer.from(result.data),
+      filePath: result.filePath,
+      content,
+      config,
+      style,
+      createdAt: result.metadata?.generatedAt || new Date().toISOString(),
+    };
+
+    this.resources.set(resource.id, resource);
+
+    if (this.resources.size > MAX_RESOURCES) {
+      const oldest = this.resources.keys().next().value as string;
+      this.resources.delete(oldest);
+    }
+
+    return resource;
+  }
+
+  get(id: string): QRResource | undefined {
+    return this.resources.get(id);
+  }
+
+  list(): QRResource[] {
+    return Array.from(this.resources.values());
+  }
+
+  remove(id: string): QRResource | undefined {
+    const resource = this.resources.get(id);
+    this.resources.delete(id);
+    return resource;
+  }
+
+  /**
+   * Split a `qr://<id>` or `qr://<id>/metadata` URI into its parts
+   */
+  static parseUri(uri: string): { id: string; metadata: boolean } | undefined {
+    if (!uri.startsWith(RESOURCE_SCHEME)) {
+      return undefined;
+    }
+    const [id, part, ...rest] = uri.slice(RESOURCE_SCHEME.length).split('/');
+    if (!id || rest.length > 0 || (part !== undefined && part !== 'metadata')) {
+      return undefined;
+    }
+    return { id, metadata: part === 'metadata' };
+  }
+}
+
+function summarize(content: string): string {
+  const singleLine = content.replace(/\s+/g, ' ').trim();
+  return singleLine.length > 40 ? `${singleLine.slice(0, 37)}...` : singleLine;
+}
@@ -0,0 +1,185 @@
+import type { BitMatrix } from 'qrcode';
+import { dataCapacityBits } from './capacity-planner.js';
+import { encodeSymbol } from './qr-symbol.js';
+import { appendBits, segmentBits, segmentBytes, splitSegments, writeSegment } from './qr-segments.js';
+import { DecodedQRCode, ErrorCorrectionLevel, QRSegment, QRValidationError, StructuredAppendSet } from './types.js';
+
+export const MAX_SYMBOLS = 16;
+
+// Mode indicator, position, total and parity in front of each symbol's data
+const HEADER_BITS = 20;
+
+export interface StructuredAppendOptions {
+  errorCorrectionLevel?: ErrorCorrectionLevel;
+  /** Exact number of symbols; by default as few as fit `maxVersion` */
+  symbols?: number;
+  /** Largest version a symbol may use (default 40) */
+  maxVersion?: number;
+}
+
+export interface StructuredAppendSymbol {
+  /** Position in the set, from 0 */
+  position: number;
+  content: string;
+  segments: QRSegment[];
+  modules: BitMatrix;
+}
+
+export interface StructuredAppendPlan {
+  symbols: StructuredAppendSymbol[];
+  /** Version shared by every symbol of the set */
+  version: number;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  /** XOR of every data byte of the content */
+  parity: number;
+}
+
+/**
+ * Split content over up to 16 linked symbols (Structured Append). Chunks
+ * break between characters and get their own optimal segments; all
+ * symbols share the smallest version that holds the largest chunk.
+ */
+export function planStructuredAppend(content: string, options: StructuredAppendOptions = {}): StructuredAppendPlan {
+  const level = options.errorCorrectionLevel || 'M';
+  const maxVersion = Math.min(40, Math.max(1, options.maxVersion || 40));
+  const chars = Array.from(content);
+  if (chars.length === 0) {
+    throw new QRValidationError('Content cannot be empty');
+  }
+
+  let chunks = options.symbols ? evenChunks(chars, options.symbols) : greedyChunks(chars, maxVersion, level);
+  if (!chunks || chunks.length > MAX_SYMBOLS) {
+    throw new QRValidationError(
+      `Content does not fit in ${MAX_SYMBOLS} symbols of version ${maxVersion} at error correction level ${level}`,
+      { maxVersion, errorCorrectionLevel: level }
+    );
+  }
+  if (chunks.length > chars.length) {
+    throw new QRValidationError(`Content of ${chars.length} characters cannot be split into ${chunks.length} symbols`);
+  }
+
+  // Spread the content evenly so no symbol is much larger than the others,
+  // unless uneven content makes the greedy split smaller
+  let version = versionFor(chunks, maxVersion, level);
+  if (!options.symbols) {
+    const even = evenChunks(chars, chunks.length);
+    const evenVersion = even && versionFor(even, maxVersion, level);
+    if (even && evenVersion && (!version || evenVersion <= version)) {
+      chunks = even;
+      version = evenVersion;
+    }
+  }
+  if (!version) {
+    throw new QRValidationError(
+      `Content does not fit in ${chunks.length} symbols of version ${maxVersion} at error correction level ${level}`,
+      { symbols: chunks.length, maxVersion, errorCorrectionLevel: level }
+    );
+  }
+
+  const segments = chunks.map(chunk => splitSegments(chunk, version!));
+  const parity = segments.flat().flatMap(segmentBytes).reduce((value, byte) => value ^ byte, 0);
+
+  return {
+    symbols: segments.map((symbolSegments, position) => {
+      const stream: number[] = [];
+      appendBits(stream, 3, 4);
+      appendBits(stream, position, 4);
+      appendBits(stream, segments.length - 1, 4);
+      appendBits(stream, parity, 8);
+      symbolSegments.forEach(segment => writeSegment(stream, segment, version!));
+
+      return {
+        position,
+        content: chunks[position],
+        segments: symbolSegments,
+        modules: encodeSymbol(stream, version!, level),
+      };
+    }),
+    version,
+    errorCorrectionLevel: level,
+    parity,
+  };
+}
+
+/**
+ * Group decoded Structured Append symbols into their sets and join the
+ * content of each set in position order. A set is complete when every
+ * position is present and the parity matches.
+ */
+export function assembleStructuredAppend(codes: DecodedQRCode[]): StructuredAppendSet[] {
+  const sets = new Map<string, DecodedQRCode[]>();
+  for (const code of codes) {
+    if (!code.structuredAppend) continue;
+    const key = `${code.structuredAppend.total}:${code.structuredAppend.parity}`;
+    sets.set(key, [...(sets.get(key) || []), code]);
+  }
+
+  return Array.from(sets.values()).map(members => {
+    const { total, parity } = members[0].structuredAppend!;
+    const byPosition = new Map<number, DecodedQRCode>();
+    members.forEach(code => byPosition.set(code.structuredAppend!.position, code));
+
+    const positions = Array.from({ length: total }, (_, position) => position);
+    const missing = positions.filter(position => !byPosition.has(position));
+    const found = positions.filter(position => byPosition.has(position));
+    const dataParity = found.reduce((value, position) => value ^ byPosition.get(position)!.structuredAppend!.dataParity, 0);
+    const parityValid = missing.length === 0 && dataParity === parity;
+
+    return {
+      total,
+      parity,
+      found,
+      missing,
+      parityValid,
+      complete: parityValid,
+      content: missing.length === 0 ? found.map(position => byPosition.get(position)!.content).join('') : undefined,
+    };
+  });
+}
+
+/**
+ * Chunks filling each symbol of `version` in turn
+ */
+function greedyChunks(chars: string[], version: number, level: ErrorCorrectionLevel): string[] | undefined {
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < chars.length) {
+    // Longest prefix that fits, by binary search over its length
+    let low = 0;
+    let high = chars.length - start;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (fits(chars.slice(start, start + middle).join(''), version, level)) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    if (low === 0 || chunks.length === MAX_SYMBOLS) return undefined;
+    chunks.push(chars.slice(start, start + low).join(''));
+    start += low;
+  }
+  return chunks;
+}
+
+function evenChunks(chars: string[], count: number): string[] | undefined {
+  if (count < 1 || count > MAX_SYMBOLS || count > chars.length) return undefined;
+  return Array.from({ length: count }, (_, i) =>
+    chars.slice(Math.floor((i * chars.length) / count), Math.floor(((i + 1) * chars.length) / count)).join('')
+  );
+}
+
+/**
+ * Smallest version up to `maxVersion` that holds every chunk
+ */
+function versionFor(chunks: string[], maxVersion: number, level: ErrorCorrectionLevel): number | undefined {
+  for (let version = 1; version <= maxVersion; version++) {
+    if (chunks.every(chunk => fits(chunk, version, level))) return version;
+  }
+  return undefined;
+}
+
+function fits(chunk: string, version: number, level: ErrorCorrectionLevel): boolean {
+  const bits = splitSegments(chunk, version).reduce((total, segment) => total + segmentBits(segment, version), 0);
+  return HEADER_BITS + bits <= dataCapacityBits(version, level);
+}
@@ -0,0 +1,234 @@
+import type { BitMatrix } from 'qrcode';
+import { QRStyle } from './types.js';
+import {
+  computeLayout,
+  computeSheetLayout,
+  hasCustomEyes,
+  traceEyeBalls,
+  traceEyeFrames,
+  traceModules,
+  traceRoundedRect,
+  PathSink,
+  SymbolLayout,
+} from './qr-shapes.js';
+import { LOGO_PADDING } from './logo-planner.js';
+
+export interface SVGRenderOptions {
+  size: number;
+  margin: number;
+  /** Logo as a data URI, already read from disk */
+  logoDataUri?: string;
+}
+
+/**
+ * Collects path commands as compact SVG path data. Everything after the
+ * initial move of a subpath is emitted relative to the current point,
+ * which keeps the coordinates short.
+ */
+export class SVGPathBuilder implements PathSink {
+  private commands: string[] = [];
+  private x = 0;
+  private y = 0;
+
+  moveTo(x: number, y: number): void {
+    this.commands.push(`M${fmt(x)} ${fmt(y)}`);
+    this.x = x;
+    this.y = y;
+  }
+
+  lineTo(x: number, y: number): void {
+    if (y === this.y) {
+      this.commands.push(`h${fmt(x - this.x)}`);
+    } else if (x === this.x) {
+      this.commands.push(`v${fmt(y - this.y)}`);
+    } else {
+      this.commands.push(`l${fmt(x - this.x)} ${fmt(y - this.y)}`);
+    }
+    this.x = x;
+    this.y = y;
+  }
+
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void {
+    const dx = this.x;
+    const dy = this.y;
+    this.commands.push(
+      `c${fmt(cp1x - dx)} ${fmt(cp1y - dy)} ${fmt(cp2x - dx)} ${fmt(cp2y - dy)} ${fmt(x - dx)} ${fmt(y - dy)}`
+    );
+    this.x = x;
+    this.y = y;
+  }
+
+  closePath(): void {
+    this.commands.push('z');
+  }
+
+  toString(): string {
+    return this.commands.join('');
+  }
+}
+
+/**
+ * Render a QR module matrix as a standalone SVG document honouring the
+ * styling options: dot shape, solid or gradient fill, rounded frame,
+ * border and an embedded logo.
+ */
+export function renderStyledSVG(
+  modules: BitMatrix,
+  style: Partial<QRStyle>,
+  options: SVGRenderOptions
+): string {
+  const { size } = options;
+  const { defs, body } = renderSymbol(modules, style, options);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+    `width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">`,
+    `<defs>${defs.join('')}</defs>`,
+    `<g clip-path="url(#qr-frame)">`,
+    ...body,
+    '</g>',
+    '</svg>',
+  ].join('\n');
+}
+
+/**
+ * Render symbols of the same size side by side on one SVG sheet, each with
+ * its caption centred below it
+ */
+export function renderSVGSheet(
+  symbols: BitMatrix[],
+  captions: string[],
+  style: Partial<QRStyle>,
+  options: SVGRenderOptions
+): string {
+  const sheet = computeSheetLayout(symbols.length, options.size);
+  const background = style.backgroundColor || '#ffffff';
+  // Every symbol has the same version, so the frame and gradient are shared
+  let defs: string[] = [];
+  const groups = symbols.map((modules, index) => {
+    const { x, y } = sheet.cells[index];
+    const symbol = renderSymbol(modules, style, options);
+    defs = symbol.defs;
+    return [
+      `<g transform="translate(${fmt(x)} ${fmt(y)})">`,
+      `<g clip-path="url(#qr-frame)">`,
+      ...symbol.body,
+      '</g>',
+      `<text x="${fmt(options.size / 2)}" y="${fmt(options.size + sheet.captionSize * 1.4)}" ` +
+      `font-family="sans-serif" font-size="${sheet.captionSize}" text-anchor="middle" ` +
+      `fill="${style.foregroundColor || '#000000'}">${escapeXml(captions[index] || '')}</text>`,
+      '</g>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+    `width="${sheet.width}" height="${sheet.height}" viewBox="0 0 ${sheet.width} ${sheet.height}">`,
+    `<defs>${defs.join('')}</defs>`,
+    `<rect width="${sheet.width}" height="${sheet.height}" fill="${background}"/>`,
+    ...groups,
+    '</svg>',
+  ].join('\n');
+}
+
+/**
+ * Definitions and drawing elements of one symbol, in its own coordinates
+ */
+function renderSymbol(
+  modules: BitMatrix,
+  style: Partial<QRStyle>,
+  options: SVGRenderOptions
+): { defs: string[]; body: string[] } {
+  const { size } = options;
+  const borderWidth = style.borderWidth || 0;
+  const layout = computeLayout(modules.size, size, options.margin, borderWidth);
+  const radius = Math.min(style.cornerRadius || 0, size / 2);
+  const background = style.backgroundColor || '#ffffff';
+
+  const defs: string[] = [];
+  const body: string[] = [];
+
+  const frame = new SVGPathBuilder();
+  traceRoundedRect(frame, 0, 0, size, size, radius);
+  defs.push(`<clipPath id="qr-frame"><path d="${frame}"/></clipPath>`);
+  body.push(`<path d="${frame}" fill="${background}"/>`);
+
+  if (borderWidth > 0) {
+    const border = new SVGPathBuilder();
+    traceRoundedRect(
+      border,
+      borderWidth / 2,
+      borderWidth / 2,
+      size - borderWidth,
+      size - borderWidth,
+      Math.max(0, radius - borderWidth / 2)
+    );
+    body.push(
+      `<path d="${border}" fill="none" stroke="${style.borderColor || '#000000'}" ` +
+      `stroke-width="${fmt(borderWidth)}"/>`
+    );
+  }
+
+  let fill = style.foregroundColor || '#000000';
+  if (style.gradientStart && style.gradientEnd) {
+    defs.push(gradientDef('qr-fill', style, layout));
+    fill = 'url(#qr-fill)';
+  }
+
+  const customEyes = hasCustomEyes(style);
+  const dots = new SVGPathBuilder();
+  traceModules(dots, modules, layout, style.dotStyle, customEyes);
+  body.push(`<path d="${dots}" fill="${fill}"/>`);
+
+  if (customEyes) {
+    const frames = new SVGPathBuilder();
+    traceEyeFrames(frames, layout, style.eyeFrameShape);
+    body.push(`<path d="${frames}" fill="${style.eyeFrameColor || fill}" fill-rule="evenodd"/>`);
+
+    const balls = new SVGPathBuilder();
+    traceEyeBalls(balls, layout, style.eyeBallShape);
+    body.push(`<path d="${balls}" fill="${style.eyeBallColor || style.eyeFrameColor || fill}"/>`);
+  }
+
+  if (options.logoDataUri) {
+    const logoSize = size * (style.logoSize || 0.2);
+    const offset = (size - logoSize) / 2;
+    body.push(
+      `<rect x="${fmt(offset - LOGO_PADDING)}" y="${fmt(offset - LOGO_PADDING)}" ` +
+      `width="${fmt(logoSize + LOGO_PADDING * 2)}" height="${fmt(logoSize + LOGO_PADDING * 2)}" ` +
+      `fill="${background}"/>`
+    );
+    body.push(
+      `<image x="${fmt(offset)}" y="${fmt(offset)}" width="${fmt(logoSize)}" height="${fmt(logoSize)}" ` +
+      `preserveAspectRatio="xMidYMid meet" xlink:href="${options.logoDataUri}"/>`
+    );
+  }
+
+  return { defs, body };
+}
+
+function gradientDef(id: string, style: Partial<QRStyle>, layout: SymbolLayout): string {
+  const start = layout.origin;
+  const end = layout.origin + layout.moduleCount * layout.moduleSize;
+  const center = (start + end) / 2;
+  const stops =
+    `<stop offset="0" stop-color="${style.gradientStart}"/>` +
+    `<stop offset="1" stop-color="${style.gradientEnd}"/>`;
+
+  if (style.gradientType === 'radial') {
+    return `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${fmt(center)}" cy="${fmt(center)}" ` +
+      `r="${fmt((end - start) / Math.SQRT2)}">${stops}</radialGradient>`;
+  }
+  return `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${fmt(start)}" y1="${fmt(start)}" ` +
+    `x2="${fmt(end)}" y2="${fmt(end)}">${stops}</linearGradient>`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' })[char]!);
+}
+
+function fmt(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
@@ -0,0 +1,318 @@
+import type { RGBAImage } from './decode-pipeline.js';
+import { createSampler, readFormatInfo } from './qr-decoder.js';
+import { parseSymbolData, readSymbolData, SymbolData } from './qr-symbol.js';
+import type { ErrorCorrectionLevel, QRLocation, QRPoint as Point } from './types.js';
+
+// Window (share of the shorter side) and offset of the local-mean binarisation
+const THRESHOLD_WINDOW = 1 / 8;
+const THRESHOLD_OFFSET = 0.1;
+
+// Tolerance of the 1:1:3:1:1 finder pattern, as a share of one module
+const FINDER_VARIANCE = 0.5;
+
+// Finder pattern groups whose legs differ more than this are not one symbol
+const MAX_LEG_RATIO = 1.25;
+const MAX_MODULE_RATIO = 1.5;
+
+// Only the most often confirmed finder patterns are paired up
+const MAX_FINDERS = 60;
+
+interface Finder {
+  x: number;
+  y: number;
+  moduleSize: number;
+  hits: number;
+}
+
+export interface RawSymbol {
+  data: SymbolData;
+  version: number;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  maskPattern: number;
+  location: QRLocation;
+}
+
+/**
+ * Locate symbols by their finder patterns and read them module by module,
+ * without interpreting the data the way jsQR does. This reads symbols jsQR
+ * rejects, such as those in a Structured Append set. Candidates left when
+ * `deadline` passes are skipped.
+ */
+export function readSymbols(image: RGBAImage, deadline: number = Infinity): RawSymbol[] {
+  const binary = binarize(image);
+  const finders = findFinders(binary, image.width, image.height);
+  const used = new Set<Finder>();
+  const symbols: RawSymbol[] = [];
+
+  for (const [topLeft, topRight, bottomLeft] of groupFinders(finders)) {
+    if (Date.now() > deadline) break;
+    if (used.has(topLeft) || used.has(topRight) || used.has(bottomLeft)) continue;
+
+    const symbol = readAt(image, topLeft, topRight, bottomLeft);
+    if (symbol) {
+      symbols.push(symbol);
+      used.add(topLeft).add(topRight).add(bottomLeft);
+    }
+  }
+  return symbols;
+}
+
+/**
+ * Try the versions that fit the finder spacing and read the first one whose
+ * format information and error correction agree
+ */
+function readAt(image: RGBAImage, topLeft: Finder, topRight: Finder, bottomLeft: Finder): RawSymbol | undefined {
+  const moduleSize = (topLeft.moduleSize + topRight.moduleSize + bottomLeft.moduleSize) / 3;
+  const span = (distance(topLeft, topRight) + distance(topLeft, bottomLeft)) / 2 / moduleSize + 7;
+  const estimate = Math.round((span - 17) / 4);
+
+  for (const version of [estimate, estimate - 1, estimate + 1, estimate - 2, estimate + 2]) {
+    if (version < 1 || version > 40) continue;
+
+    const location = locate(topLeft, topRight, bottomLeft, 17 + version * 4);
+    const format = readFormatInfo(image.data, image.width, image.height, location, version);
+    if (!format) continue;
+
+    const errorCorrectionLevel = format.errorCorrectionLevel as ErrorCorrectionLevel;
+    const sampler = createSampler(image.data, image.width, image.height, location, version);
+    const bytes = readSymbolData(sampler.isDark, version, errorCorrectionLevel, format.maskPattern);
+    if (!bytes) continue;
+
+    try {
+      return {
+        data: parseSymbolData(bytes, version),
+        version,
+        errorCorrectionLevel,
+        maskPattern: format.maskPattern,
+        location,
+      };
+    } catch {
+      continue;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Corners of the symbol from its finder centres, which sit 3.5 modules in
+ * from the edges
+ */
+function locate(topLeft: Point, topRight: Point, bottomLeft: Point, dimension: number): QRLocation {
+  const right = { x: (topRight.x - topLeft.x) / (dimension - 7), y: (topRight.y - topLeft.y) / (dimension - 7) };
+  const down = { x: (bottomLeft.x - topLeft.x) / (dimension - 7), y: (bottomLeft.y - topLeft.y) / (dimension - 7) };
+  const at = (col: number, row: number): Point => ({
+    x: topLeft.x + (col - 3.5) * right.x + (row - 3.5) * down.x,
+    y: topLeft.y + (col - 3.5) * right.y + (row - 3.5) * down.y,
+  });
+
+  return {
+    topLeftCorner: at(0, 0),
+    topRightCorner: at(dimension, 0),
+    bottomRightCorner: at(dimension, dimension),
+    bottomLeftCorner: at(0, dimension),
+  };
+}
+
+/**
+ * Dark (1) / light (0) per pixel against the mean of its neighbourhood
+ */
+function binarize(image: RGBAImage): Uint8Array {
+  const { data, width, height } = image;
+  const half = Math.max(7, Math.floor((Math.min(width, height) * THRESHOLD_WINDOW) / 2));
+
+  const integral = new Float64Array((width + 1) * (height + 1));
+  const luminance = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      const value = 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+      luminance[y * width + x] = value;
+      rowSum += value;
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const binary = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+        - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+      const mean = sum / ((x1 - x0) * (y1 - y0));
+      binary[y * width + x] = luminance[y * width + x] < mean * (1 - THRESHOLD_OFFSET) ? 1 : 0;
+    }
+  }
+  return binary;
+}
+
+/**
+ * Scan every row for the 1:1:3:1:1 run pattern, confirm it vertically and
+ * merge the hits of each finder pattern
+ */
+function findFinders(binary: Uint8Array, width: number, height: number): Finder[] {
+  const finders: Finder[] = [];
+
+  for (let y = 0; y < height; y++) {
+    const runs: number[] = [];
+    const starts: number[] = [];
+    for (let x = 0; x < width; x++) {
+      const value = binary[y * width + x];
+      if (x === 0 || value !== binary[y * width + x - 1]) {
+        runs.push(0);
+        starts.push(x);
+      }
+      runs[runs.length - 1]++;
+    }
+
+    // Runs alternate, so dark runs are every other one from the first dark run
+    for (let i = binary[y * width] ? 2 : 3; i + 2 < runs.length; i += 2) {
+      const pattern = runs.slice(i - 2, i + 3);
+      if (!isFinderPattern(pattern)) continue;
+
+      const x = starts[i] + runs[i] / 2;
+      const vertical = crossCheck(binary, width, height, Math.floor(x), y, 0, 1);
+      if (!vertical) continue;
+      const horizontal = crossCheck(binary, width, height, Math.floor(x), Math.floor(vertical.center), 1, 0);
+      if (!horizontal) continue;
+
+      const total = pattern.reduce((sum, run) => sum + run, 0);
+      if (Math.abs(vertical.total - total) * 5 > total * 2) continue;
+
+      addFinder(finders, {
+        x: horizontal.center,
+        y: vertical.center,
+        moduleSize: (total + vertical.total) / 14,
+        hits: 1,
+      });
+    }
+  }
+
+  return finders
+    .filter(finder => finder.hits >= 2)
+    .sort((a, b) => b.hits - a.hits)
+    .slice(0, MAX_FINDERS);
+}
+
+function isFinderPattern(runs: number[]): boolean {
+  const total = runs.reduce((sum, run) => sum + run, 0);
+  if (total < 7) return false;
+  const unit = total / 7;
+  const variance = unit * FINDER_VARIANCE;
+  return Math.abs(unit - runs[0]) < variance
+    && Math.abs(unit - runs[1]) < variance
+    && Math.abs(3 * unit - runs[2]) < 3 * variance
+    && Math.abs(unit - runs[3]) < variance
+    && Math.abs(unit - runs[4]) < variance;
+}
+
+/**
+ * Walk out from a point in the finder centre along one axis and check the
+ * runs form the finder pattern; returns the refined centre and total width
+ */
+function crossCheck(
+  binary: Uint8Array,
+  width: number,
+  height: number,
+  x: number,
+  y: number,
+  dx: number,
+  dy: number
+): { center: number; total: number } | undefined {
+  const limit = dx ? width : height;
+  const start = dx ? x : y;
+  const at = (position: number) => (dx ? binary[y * width + position] : binary[position * width + x]);
+  if (!at(start)) return undefined;
+
+  // Runs on each side: dark centre half, light ring, dark ring
+  const counts = [0, 0, 0, 0, 0];
+  let position = start;
+  for (const [index, value] of [[2, 1], [1, 0], [0, 1]] as const) {
+    while (position >= 0 && at(position) === value) {
+      counts[index]++;
+      position--;
+    }
+  }
+  const first = position + 1;
+  position = start + 1;
+  for (const [index, value] of [[2, 1], [3, 0], [4, 1]] as const) {
+    while (position < limit && at(position) === value) {
+      counts[index]++;
+      position++;
+    }
+  }
+
+  if (!isFinderPattern(counts)) return undefined;
+  const total = counts.reduce((sum, run) => sum + run, 0);
+  return { center: first + counts[0] + counts[1] + counts[2] / 2, total };
+}
+
+function addFinder(finders: Finder[], candidate: Finder): void {
+  const existing = finders.find(finder =>
+    Math.abs(finder.x - candidate.x) <= finder.moduleSize * 1.5 &&
+    Math.abs(finder.y - candidate.y) <= finder.moduleSize * 1.5 &&
+    Math.abs(finder.moduleSize - candidate.moduleSize) <= Math.max(1, finder.moduleSize * 0.5)
+  );
+  if (!existing) {
+    finders.push(candidate);
+    return;
+  }
+
+  const hits = existing.hits + 1;
+  existing.x = (existing.x * existing.hits + candidate.x) / hits;
+  existing.y = (existing.y * existing.hits + candidate.y) / hits;
+  existing.moduleSize = (existing.moduleSize * existing.hits + candidate.moduleSize) / hits;
+  existing.hits = hits;
+}
+
+/**
+ * Triples of finder patterns that can be the corners of one symbol, as
+ * [top-left, top-right, bottom-left], most plausible first
+ */
+function groupFinders(finders: Finder[]): Array<[Finder, Finder, Finder]> {
+  const groups: Array<{ corners: [Finder, Finder, Finder]; score: number }> = [];
+
+  for (let i = 0; i < finders.length; i++) {
+    for (let j = i + 1; j < finders.length; j++) {
+      for (let k = j + 1; k < finders.length; k++) {
+        const triple = [finders[i], finders[j], finders[k]];
+        const sizes = triple.map(finder => finder.moduleSize);
+        if (Math.max(...sizes) / Math.min(...sizes) > MAX_MODULE_RATIO) continue;
+
+        // The top-left pattern is opposite the longest side
+        const sides = [distance(triple[1], triple[2]), distance(triple[0], triple[2]), distance(triple[0], triple[1])];
+        const corner = sides.indexOf(Math.max(...sides));
+        const topLeft = triple[corner];
+        let [a, b] = triple.filter((_, index) => index !== corner);
+
+        const legA = distance(topLeft, a);
+        const legB = distance(topLeft, b);
+        const legRatio = Math.max(legA, legB) / Math.min(legA, legB);
+        if (legRatio > MAX_LEG_RATIO) continue;
+
+        // Right angle between the legs
+        const diagonal = sides[corner] / Math.hypot(legA, legB);
+        if (Math.abs(diagonal - 1) > 0.1) continue;
+
+        const moduleSize = (sizes[0] + sizes[1] + sizes[2]) / 3;
+        const span = (legA + legB) / 2 / moduleSize + 7;
+        if (span < 19 || span > 181) continue;
+
+        // Top-right follows top-left clockwise (image y points down)
+        const cross = (a.x - topLeft.x) * (b.y - topLeft.y) - (a.y - topLeft.y) * (b.x - topLeft.x);
+        if (cross < 0) [a, b] = [b, a];
+
+        groups.push({ corners: [topLeft, a, b], score: legRatio + Math.abs(diagonal - 1) });
+      }
+    }
+  }
+
+  return groups.sort((x, y) => x.score - y.score).map(group => group.corners);
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
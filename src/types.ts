@@ -1,11 +1,23 @@
 import { z } from 'zod';
+import { isValidCreditorReference, isValidIBAN } from './checksums.js';
+
+// One encoding segment, as returned by optimize_qr_content
+export const QRSegmentSchema = z.object({
+  mode: z.enum(['numeric', 'alphanumeric', 'byte', 'kanji']),
+  data: z.string().min(1),
+});
 
 // Base QR Code configuration
 export const QRConfigSchema = z.object({
   size: z.number().min(50).max(2000).default(300),
   margin: z.number().min(0).max(10).default(1),
   errorCorrectionLevel: z.enum(['L', 'M', 'Q', 'H']).default('M'),
-  format: z.enum(['png', 'svg', 'pdf', 'jpeg']).default('png'),
+  format: z.enum(['png', 'svg', 'pdf', 'jpeg', 'webp']).default('png'),
+  pageSize: z.enum(['fit', 'A4', 'A5', 'letter', 'legal']).optional(), // PDF only
+  quality: z.number().min(1).max(100).optional(), // JPEG/WebP only
+  chromaSubsampling: z.enum(['4:4:4', '4:2:0']).optional(), // JPEG only
+  saveToFile: z.boolean().optional(), // default: true
+  segments: z.array(QRSegmentSchema).optional(), // must spell out the content exactly
 });
 
 // Enhanced styling options
@@ -18,48 +30,336 @@ export const QRStyleSchema = z.object({
   dotStyle: z.enum(['square', 'round', 'diamond']).default('square'),
   gradientStart: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional(),
   gradientEnd: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional(),
+  gradientType: z.enum(['linear', 'radial']).optional(),
+  eyeFrameShape: z.enum(['square', 'rounded', 'circle', 'leaf']).optional(),
+  eyeBallShape: z.enum(['square', 'rounded', 'circle', 'leaf']).optional(),
+  eyeFrameColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional(),
+  eyeBallColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional(),
+  verifyScan: z.enum(['strict', 'report', 'off']).optional(), // default: report
   borderWidth: z.number().min(0).max(20).default(0),
   borderColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/).default('#000000'),
 });
 
 // Content type schemas
+const VCardPhoneSchema = z.object({
+  number: z.string().trim().min(1),
+  type: z.enum(['cell', 'work', 'home', 'fax', 'pager']).optional(),
+});
+
+const VCardEmailSchema = z.object({
+  address: z.string().email(),
+  type: z.enum(['work', 'home']).optional(),
+});
+
 export const VCardSchema = z.object({
   firstName: z.string(),
   lastName: z.string(),
+  middleName: z.string().optional(),
+  prefix: z.string().optional(), // e.g. Dr.
+  suffix: z.string().optional(), // e.g. Jr.
   organization: z.string().optional(),
+  department: z.string().optional(),
   title: z.string().optional(),
-  phone: z.string().optional(),
+  phone: z.string().optional(), // untyped, kept for single-number cards
+  phones: z.array(VCardPhoneSchema).optional(),
   email: z.string().email().optional(),
+  emails: z.array(VCardEmailSchema).optional(),
   website: z.string().url().optional(),
+  websites: z.array(z.string().url()).optional(),
+  social: z.array(z.object({
+    network: z.string().min(1), // e.g. linkedin, github, x
+    url: z.string().url(),
+  })).optional(),
+  photoUrl: z.string().url().optional(),
+  note: z.string().optional(),
+  birthday: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Birthday is YYYY-MM-DD').optional(),
   address: z.object({
+    type: z.enum(['work', 'home']).optional(),
     street: z.string().optional(),
     city: z.string().optional(),
     state: z.string().optional(),
     zip: z.string().optional(),
     country: z.string().optional(),
   }).optional(),
+  version: z.enum(['3.0', '4.0']).default('3.0'), // vCard only
+  cardFormat: z.enum(['vcard', 'mecard']).default('vcard'), // MECARD is shorter but holds fewer fields
 });
 
 export const WiFiSchema = z.object({
-  ssid: z.string(),
+  ssid: z.string().min(1, 'SSID cannot be empty'),
+  ssidIsHex: z.boolean().default(false), // SSID given as hex octets, for names that are not UTF-8
   password: z.string().optional(),
-  security: z.enum(['WEP', 'WPA', 'WPA2', 'WPA3', 'nopass']).default('WPA2'),
+  security: z.enum(['WEP', 'WPA', 'WPA2', 'WPA3', 'WPA2-EAP', 'WPA3-EAP', 'nopass']).default('WPA2'),
   hidden: z.boolean().default(false),
+  // 802.1X (enterprise) networks only
+  eapMethod: z.enum(['PEAP', 'TTLS', 'TLS', 'PWD', 'SIM', 'AKA', 'AKA_PRIME']).optional(),
+  phase2: z.enum(['MSCHAPV2', 'MSCHAP', 'GTC', 'PAP']).optional(),
+  identity: z.string().optional(),
+  anonymousIdentity: z.string().optional(),
+  // WPA3 transition disable bitmap (R:): 1 WPA3-Personal, 2 SAE-PK, 4 WPA3-Enterprise, 8 Enhanced Open
+  transitionDisable: z.number().int().min(1).max(255).optional(),
+  publicKey: z.string().optional(), // SAE-PK public key (K:), base64 DER
+}).refine(wifi => !wifi.ssidIsHex || /^([0-9a-fA-F]{2})+$/.test(wifi.ssid), {
+  message: 'Hex SSID must be an even number of hex digits',
+  path: ['ssidIsHex'],
+}).refine(wifi => wifi.security.endsWith('-EAP') ||
+  [wifi.eapMethod, wifi.phase2, wifi.identity, wifi.anonymousIdentity].every(value => value === undefined), {
+  message: 'EAP method, phase 2, identity and anonymous identity need WPA2-EAP or WPA3-EAP security',
+  path: ['security'],
+}).refine(wifi => !wifi.security.endsWith('-EAP') || Boolean(wifi.eapMethod), {
+  message: 'Enterprise networks need an EAP method',
+  path: ['eapMethod'],
+}).refine(wifi => !wifi.publicKey || wifi.security === 'WPA3', {
+  message: 'An SAE-PK public key needs WPA3 security',
+  path: ['publicKey'],
+});
+
+const EventAttendeeSchema = z.object({
+  email: z.string().email(),
+  name: z.string().optional(),
 });
 
 export const EventSchema = z.object({
   title: z.string(),
   description: z.string().optional(),
   location: z.string().optional(),
-  startDate: z.string(), // ISO date string
-  endDate: z.string().optional(), // ISO date string
+  // ISO dates; times without an offset are local to `timeZone`, or floating
+  // (the scanner's own time zone) when there is none
+  startDate: z.string(),
+  endDate: z.string().optional(),
   allDay: z.boolean().default(false),
+  timeZone: z.string().refine(zone => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: zone });
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'Unknown IANA time zone').optional(),
+  uid: z.string().optional(), // generated when missing
+  url: z.string().url().optional(),
+  organizer: EventAttendeeSchema.optional(),
+  attendees: z.array(EventAttendeeSchema.extend({
+    role: z.enum(['required', 'optional', 'chair']).default('required'),
+    rsvp: z.boolean().default(false),
+  })).optional(),
+  recurrence: z.object({
+    frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']),
+    interval: z.number().int().min(1).optional(),
+    count: z.number().int().min(1).optional(),
+    until: z.string().optional(), // ISO date or date-time, inclusive
+    byDay: z.array(z.string().regex(/^[+-]?\d{0,2}(MO|TU|WE|TH|FR|SA|SU)$/, 'Days look like MO, TU or, monthly, 1MO or -1FR')).optional(),
+    byMonthDay: z.array(z.number().int().min(-31).max(31).refine(day => day !== 0)).optional(),
+  }).refine(rule => !(rule.count && rule.until), {
+    message: 'Use either count or until, not both',
+  }).optional(),
+  alarms: z.array(z.object({
+    minutesBefore: z.number().int().min(0),
+    description: z.string().optional(), // defaults to the event title
+  })).optional(),
+});
+
+// EPC069-12 SEPA credit transfer ("GiroCode"); IBAN, BIC and reference are
+// normalised to upper case without spaces
+const compactCode = z.string().transform(value => value.replace(/\s+/g, '').toUpperCase());
+
+export const EPCPaymentSchema = z.object({
+  version: z.enum(['001', '002']).default('002'), // 001 requires the BIC
+  identification: z.enum(['SCT', 'INST']).default('SCT'), // INST: instant credit transfer
+  bic: compactCode.refine(bic => /^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(bic), 'BIC must be 8 or 11 characters').optional(),
+  name: z.string().trim().min(1).max(70), // beneficiary
+  iban: compactCode.refine(isValidIBAN, 'IBAN check digits do not match'),
+  amount: z.number().min(0.01).max(999999999.99)
+    .refine(amount => Math.abs(amount * 100 - Math.round(amount * 100)) < 1e-6, 'Amount has more than two decimals')
+    .optional(), // EUR
+  purpose: z.string().regex(/^[A-Z0-9]{4}$/, 'Purpose is a four-character ISO 20022 code').optional(),
+  reference: compactCode.refine(isValidCreditorReference, 'Reference is not a valid ISO 11649 creditor reference').optional(),
+  remittanceText: z.string().max(140).optional(), // unstructured, instead of reference
+  information: z.string().max(70).optional(), // beneficiary to originator information
+}).refine(payment => !(payment.reference && payment.remittanceText), {
+  message: 'Provide either reference or remittanceText, not both',
+}).refine(payment => payment.version !== '001' || Boolean(payment.bic), {
+  message: 'Version 001 requires the BIC',
+});
+
+// EMVCo merchant-presented QR (PIX, PromptPay, PayNow, ...). Lengths are
+// those of the EMV QRCPS specification.
+const EMVSubTagSchema = z.string().regex(/^\d{2}$/);
+
+export const EMVMerchantAccountSchema = z.object({
+  tag: z.number().int().min(2).max(51), // 02-25 card networks, 26-51 templates
+  value: z.string().min(1).max(99).optional(), // primitive tags 02-25
+  globallyUniqueIdentifier: z.string().min(1).max(32).optional(), // template sub-tag 00
+  fields: z.record(EMVSubTagSchema, z.string().min(1).max(99)).optional(), // template sub-tags 01-99
+}).refine(account => (account.tag < 26 ? Boolean(account.value) : Boolean(account.globallyUniqueIdentifier)), {
+  message: 'Tags 02-25 take a value, tags 26-51 a globallyUniqueIdentifier and fields',
+});
+
+export const EMVMerchantSchema = z.object({
+  pointOfInitiation: z.enum(['static', 'dynamic']).optional(), // dynamic: one payment only
+  merchantAccounts: z.array(EMVMerchantAccountSchema).min(1),
+  merchantCategoryCode: z.string().regex(/^\d{4}$/).default('0000'), // ISO 18245
+  currency: z.string().regex(/^(\d{3}|[A-Za-z]{3})$/), // ISO 4217 numeric or alphabetic code
+  amount: z.number().positive().optional(), // payer enters it when absent
+  tip: z.object({
+    type: z.enum(['prompt', 'fixed', 'percentage']),
+    value: z.number().positive().optional(), // fixed amount or percentage
+  }).refine(tip => tip.type === 'prompt' || tip.value !== undefined, {
+    message: 'Fixed and percentage tips need a value',
+  }).optional(),
+  countryCode: z.string().regex(/^[A-Za-z]{2}$/).transform(code => code.toUpperCase()), // ISO 3166-1 alpha-2
+  merchantName: z.string().min(1).max(25),
+  merchantCity: z.string().min(1).max(15),
+  postalCode: z.string().min(1).max(10).optional(),
+  additionalData: z.object({
+    billNumber: z.string().max(25).optional(),
+    mobileNumber: z.string().max(25).optional(),
+    storeLabel: z.string().max(25).optional(),
+    loyaltyNumber: z.string().max(25).optional(),
+    referenceLabel: z.string().max(25).optional(), // e.g. the PIX transaction id
+    customerLabel: z.string().max(25).optional(),
+    terminalLabel: z.string().max(25).optional(),
+    purpose: z.string().max(25).optional(),
+    consumerDataRequest: z.string().regex(/^[AME]{1,3}$/).optional(), // address, mobile, e-mail
+  }).optional(),
+  alternateLanguage: z.object({
+    languagePreference: z.string().regex(/^[a-z]{2}$/), // ISO 639-1
+    merchantName: z.string().min(1).max(25),
+    merchantCity: z.string().max(15).optional(),
+  }).optional(),
+});
+
+// Cryptocurrency payment URIs; address checksums are verified when the URI
+// is built
+export const BitcoinPaymentSchema = z.object({
+  scheme: z.literal('bitcoin'), // BIP 21
+  address: z.string().trim().min(1),
+  amount: z.number().positive().max(21000000).optional(), // BTC
+  label: z.string().optional(), // recipient name
+  message: z.string().optional(),
+  lightning: z.string().trim().min(1).optional(), // BOLT 11 invoice, for wallets that pay over Lightning
+});
+
+export const EthereumPaymentSchema = z.object({
+  scheme: z.literal('ethereum'), // EIP-681
+  address: z.string().trim().min(1), // recipient
+  chainId: z.number().int().positive().optional(), // 1 for mainnet
+  value: z.string().regex(/^\d+$/, 'Value is an integer amount of wei').optional(),
+  token: z.object({
+    contract: z.string().trim().min(1), // ERC-20 token contract
+    amount: z.string().regex(/^\d+$/, 'Token amount is an integer in the token\'s smallest unit'),
+  }).optional(),
+  gasLimit: z.string().regex(/^\d+$/).optional(),
+}).refine(payment => !(payment.value && payment.token), {
+  message: 'Use value for an ether transfer or token for a token transfer, not both',
+});
+
+export const CryptoPaymentSchema = z.union([BitcoinPaymentSchema, EthereumPaymentSchema]);
+
+// Messaging and location payloads. Country codes are calling codes, e.g. 49
+const countryCode = z.string().regex(/^\+?[1-9]\d{0,2}$/, 'Country calling code must be 1 to 3 digits').transform(code => code.replace(/^\+/, ''));
+
+export const SMSSchema = z.object({
+  number: z.string().min(1),
+  countryCode: countryCode.optional(), // normalise a national number to E.164
+  message: z.string().optional(),
+  format: z.enum(['smsto', 'sms']).default('smsto'), // SMSTO:number:body, or an RFC 5724 sms: URI
+});
+
+export const EmailSchema = z.object({
+  to: z.array(z.string().email()).min(1),
+  cc: z.array(z.string().email()).optional(),
+  bcc: z.array(z.string().email()).optional(),
+  subject: z.string().optional(),
+  body: z.string().optional(),
+  format: z.enum(['mailto', 'matmsg']).default('mailto'), // RFC 6068 mailto: URI, or MATMSG for one recipient
+}).refine(email => email.format === 'mailto' || (email.to.length === 1 && !email.cc?.length && !email.bcc?.length), {
+  message: 'MATMSG holds a single recipient and no cc or bcc',
+  path: ['format'],
+});
+
+export const PhoneSchema = z.object({
+  number: z.string().min(1),
+  countryCode: countryCode.optional(), // needed when the number has no + prefix
+  extension: z.string().regex(/^\d+$/, 'Extension must be digits').optional(),
+});
+
+export const GeoSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  altitude: z.number().optional(), // metres
+  uncertainty: z.number().min(0).optional(), // metres
+  query: z.string().optional(), // search term, opened instead of the point
+  label: z.string().optional(), // pin name, written as q=lat,lng(label)
+}).refine(geo => !(geo.query && geo.label), {
+  message: 'Use either query or label, not both',
+  path: ['label'],
+});
+
+export const MapLinkSchema = z.object({
+  provider: z.enum(['google', 'apple', 'osm']).default('google'),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  query: z.string().optional(), // place or address to search; with coordinates, the pin label
+  zoom: z.number().int().min(1).max(20).optional(),
+  directions: z.enum(['driving', 'walking', 'transit', 'bicycling']).optional(), // route to the place
+}).refine(link => (link.latitude === undefined) === (link.longitude === undefined), {
+  message: 'Give both latitude and longitude',
+  path: ['longitude'],
+}).refine(link => link.latitude !== undefined || Boolean(link.query), {
+  message: 'A map link needs coordinates or a query',
+  path: ['query'],
+});
+
+// GS1 Digital Link: product identifiers as a web URI. Values are checked
+// against their AI format and check digit when the link is built.
+export const GS1DigitalLinkSchema = z.object({
+  domain: z.string().url().default('https://id.gs1.org'), // resolver, may include a path prefix
+  gtin: z.string().regex(/^(\d{8}|\d{12,14})$/, 'GTIN must be 8, 12, 13 or 14 digits').optional(), // AI 01
+  batch: z.string().optional(), // AI 10
+  serial: z.string().optional(), // AI 21
+  expiry: z.string().regex(/^(\d{4}-\d{2}-\d{2}|\d{6})$/, 'Expiry must be YYYY-MM-DD or YYMMDD').optional(), // AI 17
+  ais: z.record(z.string().regex(/^\d{2,4}$/, 'AIs are 2 to 4 digits'), z.string()).optional(), // any other AI
+  compressed: z.boolean().optional(), // all AIs in one binary path segment (GS1 Digital Link compression)
 });
 
 // Analysis schemas
+const ImageSourceSchema = z.union([z.string(), z.array(z.string()).min(1)]);
+
 export const QRAnalysisSchema = z.object({
-  imagePath: z.string(),
+  imagePath: ImageSourceSchema.optional(),
+  imageData: ImageSourceSchema.optional(), // base64 or data: URL
   outputFormat: z.enum(['json', 'text']).default('json'),
+  mode: z.enum(['single', 'all']).default('single'),
+}).refine(analysis => Boolean(analysis.imagePath) !== Boolean(analysis.imageData), {
+  message: 'Provide either imagePath or imageData',
+});
+
+// Animated transfer: data fountain-coded over the frames of a GIF/APNG
+export const AnimatedTransferSchema = z.object({
+  data: z.string().optional(), // text, sent as UTF-8
+  dataBase64: z.string().optional(),
+  filePath: z.string().optional(), // file on the server
+  format: z.enum(['gif', 'apng']).default('gif'),
+  version: z.number().int().min(1).max(40).default(10),
+  errorCorrectionLevel: z.enum(['L', 'M', 'Q', 'H']).default('M'),
+  redundancy: z.number().min(0).max(10).default(0.5), // extra frames as a share of the blocks
+  frameDelay: z.number().int().min(20).max(10000).default(250), // milliseconds
+  size: z.number().min(100).max(2000).default(400),
+  margin: z.number().min(0).max(10).default(1),
+  foregroundColor: QRStyleSchema.shape.foregroundColor,
+  backgroundColor: QRStyleSchema.shape.backgroundColor,
+  saveToFile: z.boolean().optional(),
+}).refine(transfer => [transfer.data, transfer.dataBase64, transfer.filePath].filter(Boolean).length === 1, {
+  message: 'Provide exactly one of data, dataBase64 or filePath',
+});
+
+export const AnimatedTransferDecodeSchema = z.object({
+  imagePath: ImageSourceSchema.optional(),
+  imageData: ImageSourceSchema.optional(),
+  outputPath: z.string().optional(), // write the rebuilt data here
+}).refine(analysis => Boolean(analysis.imagePath) !== Boolean(analysis.imageData), {
+  message: 'Provide either imagePath or imageData',
 });
 
 // Batch generation schema
@@ -68,10 +368,34 @@ export const BatchQRSchema = z.object({
     content: z.string(),
     filename: z.string().optional(),
     style: QRStyleSchema.optional(),
-  })),
+  })).default([]),
+  // A serialised run of GS1 Digital Links, one code per serial number
+  gs1Serials: z.object({
+    link: GS1DigitalLinkSchema,
+    start: z.number().int().min(0).default(1),
+    count: z.number().int().min(1).max(1000),
+    width: z.number().int().min(1).max(20).optional(), // zero-pad serial numbers to this many digits
+    prefix: z.string().default(''),
+  }).refine(run => run.link.serial === undefined && run.link.ais?.['21'] === undefined, {
+    message: 'The run numbers the serials itself; leave link.serial and AI 21 unset',
+    path: ['link', 'serial'],
+  }).optional(),
   outputDir: z.string().default('./qr-codes'),
-  format: z.enum(['png', 'svg', 'pdf']).default('png'),
+  format: z.enum(['png', 'svg', 'pdf', 'jpeg', 'webp']).default('png'),
   baseConfig: QRConfigSchema.optional(),
+}).refine(batch => batch.items.length > 0 || Boolean(batch.gs1Serials), {
+  message: 'Give items, gs1Serials or both',
+  path: ['items'],
+});
+
+// Structured Append set: content split over up to 16 linked symbols
+export const StructuredAppendSchema = QRConfigSchema.omit({ segments: true }).extend({
+  content: z.string().min(1),
+  symbols: z.number().int().min(1).max(16).optional(), // default: as few as fit maxVersion
+  maxVersion: z.number().int().min(1).max(40).default(40),
+  foregroundColor: QRStyleSchema.shape.foregroundColor,
+  backgroundColor: QRStyleSchema.shape.backgroundColor,
+  dotStyle: QRStyleSchema.shape.dotStyle,
 });
 
 // Template schema
@@ -83,19 +407,35 @@ export const QRTemplateSchema = z.object({
   category: z.enum(['business', 'personal', 'event', 'marketing', 'social']),
 });
 
+export type QRSegment = z.infer<typeof QRSegmentSchema>;
 export type QRConfig = z.infer<typeof QRConfigSchema>;
+export type ErrorCorrectionLevel = z.infer<typeof QRConfigSchema.shape.errorCorrectionLevel>;
 export type QRStyle = z.infer<typeof QRStyleSchema>;
 export type VCard = z.infer<typeof VCardSchema>;
 export type WiFi = z.infer<typeof WiFiSchema>;
 export type Event = z.infer<typeof EventSchema>;
+export type EPCPayment = z.infer<typeof EPCPaymentSchema>;
+export type EMVMerchant = z.infer<typeof EMVMerchantSchema>;
+export type BitcoinPayment = z.infer<typeof BitcoinPaymentSchema>;
+export type EthereumPayment = z.infer<typeof EthereumPaymentSchema>;
+export type CryptoPayment = z.infer<typeof CryptoPaymentSchema>;
+export type SMSPayload = z.infer<typeof SMSSchema>;
+export type EmailPayload = z.infer<typeof EmailSchema>;
+export type PhonePayload = z.infer<typeof PhoneSchema>;
+export type GeoPayload = z.infer<typeof GeoSchema>;
+export type MapLink = z.infer<typeof MapLinkSchema>;
+export type GS1DigitalLink = z.infer<typeof GS1DigitalLinkSchema>;
 export type QRAnalysis = z.infer<typeof QRAnalysisSchema>;
 export type BatchQR = z.infer<typeof BatchQRSchema>;
+export type StructuredAppend = z.infer<typeof StructuredAppendSchema>;
+export type AnimatedTransfer = z.infer<typeof AnimatedTransferSchema>;
 export type QRTemplate = z.infer<typeof QRTemplateSchema>;
 
 // Result types
 export interface QRGenerationResult {
   success: boolean;
-  filePath?: string;
+  id?: string;
+  filePath?: string; // absent when saveToFile is false
   data?: Buffer | string;
   format: string;
   size: number;
@@ -105,24 +445,196 @@ export interface QRGenerationResult {
     originalContent: string;
     estimatedSize: number;
   };
+  logo?: {
+    requestedSize: number;
+    appliedSize: number;
+    coveredModules: number;
+    budgetModules: number;
+    errorCorrectionLevel: string;
+    escalated: boolean;
+    shrunk: boolean;
+  };
+  verification?: {
+    passed: boolean;
+    decodedContent?: string;
+    error?: string;
+  };
+  droppedFields?: string[]; // optional fields left out so the content fits
+  error?: string;
+}
+
+export interface StructuredAppendResult {
+  success: boolean;
+  version: number; // shared by every symbol of the set
+  errorCorrectionLevel: string;
+  parity: number;
+  symbols: Array<QRGenerationResult & { position: number; content: string }>;
+  sheet: QRGenerationResult; // every symbol on one page, in reading order
+}
+
+export interface AnimatedTransferResult extends QRGenerationResult {
+  transfer: {
+    id: number; // CRC-32 of the data
+    bytes: number;
+    blocks: number;
+    blockSize: number; // data bytes per frame
+    frames: number;
+    version: number;
+    errorCorrectionLevel: string;
+  };
+}
+
+export interface FountainTransfer {
+  id: number; // CRC-32 of the data, which tells transfers apart
+  length: number;
+  blockSize: number;
+  blocks: number;
+  framesReceived: number; // distinct frames read
+  recovered: number; // blocks the frames read so far determine
+  complete: boolean;
+  data?: Uint8Array; // once every block is recovered and the CRC matches
+  error?: string;
+}
+
+export interface AnimatedTransferDecodeResult {
+  success: boolean;
+  framesScanned: number; // frames and images looked at
+  transfers: FountainTransfer[];
+  data?: Buffer; // the first complete transfer
+  filePath?: string;
   error?: string;
 }
 
+export interface QRPoint {
+  x: number;
+  y: number;
+}
+
+export interface QRLocation {
+  topLeftCorner: QRPoint;
+  topRightCorner: QRPoint;
+  bottomRightCorner: QRPoint;
+  bottomLeftCorner: QRPoint;
+}
+
+// Decoded payloads, classified by content type. Fields mirror the input
+// schemas of the matching generator tools so they can be edited and fed back.
+export interface EMVDataObject {
+  tag: string;
+  name: string;
+  value: string; // raw value; for templates the nested objects, still encoded
+  meaning?: string; // decoded value, e.g. the currency or payment scheme
+  children?: EMVDataObject[];
+}
+
+export interface GS1Element {
+  ai: string;
+  title: string; // GS1 data title, e.g. BATCH/LOT
+  value: string;
+  meaning?: string; // dates as YYYY-MM-DD, measures with their decimals
+}
+
+export interface URLPayload {
+  url: string;
+  scheme: string;
+  host: string;
+  path: string;
+  query: Record<string, string>;
+}
+
+export type ParsedPayload =
+  | { type: 'url'; fields: URLPayload }
+  | { type: 'wifi'; fields: WiFi }
+  | { type: 'vcard'; fields: VCard }
+  | { type: 'mecard'; fields: VCard }
+  | { type: 'event'; fields: Event }
+  | { type: 'email'; fields: EmailPayload }
+  | { type: 'phone'; fields: PhonePayload }
+  | { type: 'sms'; fields: SMSPayload }
+  | { type: 'geo'; fields: GeoPayload }
+  | { type: 'epc'; fields: EPCPayment }
+  | {
+    type: 'emv';
+    fields: EMVMerchant;
+    dataObjects: EMVDataObject[]; // every field as read, with its name
+    crcValid: boolean;
+    errors: string[]; // structural problems, e.g. missing mandatory fields
+  }
+  | { type: 'crypto'; fields: CryptoPayment; addressValid: boolean } // false on checksum mismatch
+  | {
+    type: 'gs1';
+    fields: GS1DigitalLink;
+    elements: GS1Element[]; // every AI, with its title
+    errors: string[]; // unknown AIs, bad formats and check digits, path order
+  }
+  | { type: 'text'; fields: { text: string } };
+
+export type PayloadType = ParsedPayload['type'];
+
+export interface DecodedQRCode {
+  content: string;
+  payload?: ParsedPayload;
+  version: number;
+  errorCorrectionLevel?: string; // absent when the format information is unreadable
+  maskPattern?: number;
+  modules: number;
+  location: QRLocation;
+  frame?: number; // zero-based frame or page, for animated and multi-page images
+  image?: number; // zero-based input image, when several are given
+  structuredAppend?: {
+    position: number; // zero-based position in the set
+    total: number;
+    parity: number; // parity of the whole set, from the symbol header
+    dataParity: number; // XOR of this symbol's data bytes
+  };
+}
+
+export interface StructuredAppendSet {
+  total: number;
+  parity: number;
+  found: number[]; // zero-based positions read
+  missing: number[];
+  parityValid: boolean;
+  complete: boolean;
+  content?: string; // joined content, once every position is read
+}
+
+export type QualityRating = 'excellent' | 'good' | 'fair' | 'poor';
+
+export interface QualityMeasurement {
+  name: 'moduleSize' | 'quietZone' | 'contrast' | 'moduleErrors' | 'finderDistortion';
+  value: number;
+  unit: string;
+  target: string; // what the measurement should reach
+  rating: QualityRating;
+  recommendation: string;
+}
+
+export interface QRQualityReport {
+  score: number;
+  readability: QualityRating;
+  recommendations: string[];
+  measurements?: QualityMeasurement[];
+}
+
 export interface QRAnalysisResult {
   success: boolean;
   content?: string;
-  format?: string;
-  quality?: {
-    score: number;
-    readability: 'excellent' | 'good' | 'fair' | 'poor';
-    recommendations: string[];
-  };
+  format?: string; // payload type, see ParsedPayload
+  payload?: ParsedPayload;
+  codes?: DecodedQRCode[]; // every symbol found, in mode 'all'
+  structuredAppend?: StructuredAppendSet[]; // Structured Append sets among the symbols
+  pass?: string; // preprocessing pass that produced the decode, e.g. 'original' or 'normalized'
+  timedOut?: boolean; // the time budget ran out before every pass and frame was scanned
+  quality?: QRQualityReport;
   metadata?: {
     version: number;
-    errorCorrectionLevel: string;
-    maskPattern: number;
+    errorCorrectionLevel?: string;
+    maskPattern?: number;
     modules: number;
   };
+  location?: QRLocation;
+  frame?: number;
   error?: string;
 }
 
@@ -0,0 +1,164 @@
+import {
+  EmailPayload,
+  GeoPayload,
+  MapLink,
+  PhonePayload,
+  QRValidationError,
+  SMSPayload,
+} from './types.js';
+
+// Visual separators people type into phone numbers
+const PHONE_SEPARATORS = /[\s().\-\/]/g;
+
+/**
+ * `SMSTO:number:message`, or `sms:number?body=...` (RFC 5724)
+ */
+export function buildSMSPayload(sms: SMSPayload): string {
+  const number = smsNumber(sms.number, sms.countryCode);
+  if (sms.format === 'sms') {
+    return `sms:${number}${sms.message ? `?body=${encodeURIComponent(crlf(sms.message))}` : ''}`;
+  }
+  return `SMSTO:${number}:${sms.message || ''}`;
+}
+
+/**
+ * `mailto:` URI (RFC 6068) with percent-encoded addresses and header
+ * fields, or `MATMSG:` for a single recipient
+ */
+export function buildEmailPayload(email: EmailPayload): string {
+  if (email.format === 'matmsg') {
+    const fields = [`TO:${escapeMATMSG(email.to[0])}`];
+    if (email.subject) fields.push(`SUB:${escapeMATMSG(email.subject)}`);
+    if (email.body) fields.push(`BODY:${escapeMATMSG(email.body)}`);
+    return `MATMSG:${fields.join(';')};;`;
+  }
+
+  const headers: string[] = [];
+  if (email.cc?.length) headers.push(`cc=${encodeAddresses(email.cc)}`);
+  if (email.bcc?.length) headers.push(`bcc=${encodeAddresses(email.bcc)}`);
+  if (email.subject) headers.push(`subject=${encodeURIComponent(email.subject)}`);
+  // Line breaks in the body are CRLF, as %0D%0A
+  if (email.body) headers.push(`body=${encodeURIComponent(crlf(email.body))}`);
+  return `mailto:${encodeAddresses(email.to)}${headers.length > 0 ? `?${headers.join('&')}` : ''}`;
+}
+
+/**
+ * `tel:` URI with the number in E.164 form
+ */
+export function buildPhonePayload(phone: PhonePayload): string {
+  return `tel:${normalizeE164(phone.number, phone.countryCode)}${phone.extension ? `;ext=${phone.extension}` : ''}`;
+}
+
+/**
+ * `geo:lat,lng[,alt][;u=uncertainty][?q=...]` (RFC 5870)
+ */
+export function buildGeoPayload(geo: GeoPayload): string {
+  const coordinates = [geo.latitude, geo.longitude, geo.altitude]
+    .filter(value => value !== undefined)
+    .map(value => formatNumber(value!))
+    .join(',');
+  const uncertainty = geo.uncertainty !== undefined ? `;u=${formatNumber(geo.uncertainty)}` : '';
+  const query = geo.label !== undefined
+    ? `${formatNumber(geo.latitude)},${formatNumber(geo.longitude)}(${geo.label})`
+    : geo.query;
+  return `geo:${coordinates}${uncertainty}${query ? `?q=${encodeURIComponent(query)}` : ''}`;
+}
+
+/**
+ * Web link that map apps open directly: a pin, a search or a route
+ */
+export function buildMapLink(link: MapLink): string {
+  const point = link.latitude !== undefined ? `${formatNumber(link.latitude)},${formatNumber(link.longitude!)}` : undefined;
+  const params = new URLSearchParams();
+
+  switch (link.provider) {
+    case 'google':
+      params.set('api', '1');
+      if (link.directions) {
+        params.set('destination', point || link.query!);
+        params.set('travelmode', link.directions);
+        return `https://www.google.com/maps/dir/?${params}`;
+      }
+      params.set('query', point || link.query!);
+      if (link.zoom) params.set('zoom', String(link.zoom));
+      return `https://www.google.com/maps/search/?${params}`;
+
+    case 'apple':
+      if (link.directions) {
+        if (link.directions === 'bicycling') {
+          throw new QRValidationError('Apple Maps links support driving, walking and transit directions');
+        }
+        params.set('daddr', point || link.query!);
+        params.set('dirflg', { driving: 'd', walking: 'w', transit: 'r' }[link.directions]);
+      } else {
+        if (point) params.set('ll', point);
+        if (link.query) params.set('q', link.query);
+        if (link.zoom) params.set('z', String(link.zoom));
+      }
+      return `https://maps.apple.com/?${params}`;
+
+    case 'osm':
+      if (link.directions) {
+        throw new QRValidationError('OpenStreetMap links do not support directions');
+      }
+      if (!point) {
+        params.set('query', link.query!);
+        return `https://www.openstreetmap.org/search?${params}`;
+      }
+      params.set('mlat', formatNumber(link.latitude!));
+      params.set('mlon', formatNumber(link.longitude!));
+      return `https://www.openstreetmap.org/?${params}#map=${link.zoom || 15}/${point.replace(',', '/')}`;
+  }
+}
+
+/**
+ * `+` followed by the country calling code and subscriber number, at most
+ * 15 digits. A leading `00` counts as `+`; national numbers need the
+ * country code and lose their trunk prefix `0`.
+ */
+export function normalizeE164(number: string, countryCode?: string): string {
+  // `+44 (0)20 ...` writes the trunk prefix that international dialling drops
+  let normalized = number.trim().replace(/\(0\)/g, '').replace(PHONE_SEPARATORS, '');
+  if (normalized.startsWith('00')) normalized = `+${normalized.slice(2)}`;
+  if (!normalized.startsWith('+')) {
+    if (!countryCode) {
+      throw new QRValidationError(`Phone number ${number} has no country code; start it with + or pass countryCode`);
+    }
+    normalized = `+${countryCode}${normalized.replace(/^0/, '')}`;
+  }
+  if (!/^\+[1-9]\d{1,14}$/.test(normalized)) {
+    throw new QRValidationError(`${number} is not a valid E.164 phone number (+ and at most 15 digits)`);
+  }
+  return normalized;
+}
+
+// Short codes such as 12345 are valid SMS recipients, so only numbers in
+// international form are normalised
+function smsNumber(number: string, countryCode: string | undefined): string {
+  const compact = number.trim().replace(PHONE_SEPARATORS, '');
+  if (countryCode || /^(\+|00)/.test(compact)) return normalizeE164(number, countryCode);
+  if (!/^\d{3,15}$/.test(compact)) {
+    throw new QRValidationError(`${number} is not a valid SMS recipient`);
+  }
+  return compact;
+}
+
+// `@` may stay literal in the address part; `,` separates addresses
+function encodeAddresses(addresses: string[]): string {
+  return addresses.map(address => encodeURIComponent(address).replace(/%40/g, '@')).join(',');
+}
+
+function escapeMATMSG(value: string): string {
+  return value.replace(/([\\;,:])/g, '\\$1');
+}
+
+function crlf(value: string): string {
+  return value.replace(/\r?\n/g, '\r\n');
+}
+
+// Plain decimal notation; `String` would give 1e-7 for tiny values, and
+// values that round to zero drop their sign
+function formatNumber(value: number): string {
+  const rounded = Number(value.toFixed(7)) || 0;
+  return Number.isInteger(rounded) ? String(rounded) : rounded.toFixed(7).replace(/\.?0+$/, '');
+}
@@ -0,0 +1,29 @@
+import { WiFi } from './types.js';
+
+/**
+ * `WIFI:` payload in the ZXing / WPA3 field order. Values escape
+ * `\ ; , : "`; text that reads as hex is quoted so phones don't take it
+ * as hex octets.
+ */
+export function buildWiFiPayload(wifi: WiFi): string {
+  const fields = [`T:${wifi.security}`];
+  if (wifi.transitionDisable !== undefined) fields.push(`R:${wifi.transitionDisable.toString(16).toUpperCase()}`);
+  fields.push(`S:${wifi.ssidIsHex ? wifi.ssid : quoteHex(wifi.ssid)}`);
+  if (wifi.hidden) fields.push('H:true');
+  if (wifi.eapMethod) fields.push(`E:${wifi.eapMethod}`);
+  if (wifi.phase2) fields.push(`PH2:${wifi.phase2}`);
+  if (wifi.anonymousIdentity) fields.push(`A:${escapeWiFi(wifi.anonymousIdentity)}`);
+  if (wifi.identity) fields.push(`I:${escapeWiFi(wifi.identity)}`);
+  if (wifi.password && wifi.security !== 'nopass') fields.push(`P:${quoteHex(wifi.password)}`);
+  if (wifi.publicKey) fields.push(`K:${wifi.publicKey}`);
+
+  return `WIFI:${fields.join(';')};;`;
+}
+
+function escapeWiFi(value: string): string {
+  return value.replace(/([\\;,:"])/g, '\\$1');
+}
+
+function quoteHex(value: string): string {
+  return /^[0-9a-fA-F]+$/.test(value) ? `"${escapeWiFi(value)}"` : escapeWiFi(value);
+}
@@ -0,0 +1,114 @@
+import { buildCalendarEvent } from '../src/calendar-event.js';
+import { parsePayload } from '../src/payload-parser.js';
+import { EventSchema, QRValidationError } from '../src/types.js';
+
+const now = new Date('2026-01-02T03:04:05Z');
+
+function lines(fields: object): string[] {
+  return buildCalendarEvent(EventSchema.parse({ uid: 'e1@example.com', ...fields }), now).split('\r\n');
+}
+
+describe('buildCalendarEvent', () => {
+  it('wraps the event in a calendar with a fixed stamp and uid', () => {
+    expect(lines({ title: 'Launch', startDate: '2026-03-10T09:30:00Z' })).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//mcp-server-qrcode-enhanced//QR Event//EN',
+      'CALSCALE:GREGORIAN',
+      'BEGIN:VEVENT',
+      'UID:e1@example.com',
+      'DTSTAMP:20260102T030405Z',
+      'DTSTART:20260310T093000Z',
+      'SUMMARY:Launch',
+      'END:VEVENT',
+      'END:VCALENDAR',
+      '',
+    ]);
+  });
+
+  // RFC 5545 section 3.6.1: DTEND of an all-day event is exclusive
+  it('writes the day after an inclusive all-day end date', () => {
+    const event = lines({ title: 'Holiday', startDate: '2026-05-01', endDate: '2026-05-03', allDay: true });
+    expect(event).toContain('DTSTART;VALUE=DATE:20260501');
+    expect(event).toContain('DTEND;VALUE=DATE:20260504');
+  });
+
+  it('reads an all-day end date back as written', () => {
+    const content = buildCalendarEvent(
+      EventSchema.parse({ title: 'Holiday', startDate: '2026-05-01', endDate: '2026-05-03', allDay: true }),
+      now
+    );
+    expect(parsePayload(content).fields).toMatchObject({ startDate: '2026-05-01', endDate: '2026-05-03', allDay: true });
+  });
+
+  it.each([
+    { startDate: '2026-05-03', endDate: '2026-05-01', allDay: true },
+    { startDate: '2026-05-03T10:00', endDate: '2026-05-03T09:00', timeZone: 'Europe/Berlin' },
+    { startDate: '2026-05-03T10:00:00+02:00', endDate: '2026-05-03T07:30:00Z' },
+  ])('rejects an end before the start: $endDate', dates => {
+    expect(() => lines({ title: 'Backwards', ...dates })).toThrow(QRValidationError);
+  });
+
+  it('compares instants rather than wall times', () => {
+    expect(() => lines({ title: 'Call', startDate: '2026-05-03T10:00:00+02:00', endDate: '2026-05-03T09:00:00Z' })).not.toThrow();
+  });
+
+  it('describes the time zone with observances that start before the event', () => {
+    const event = lines({ title: 'Meeting', startDate: '2026-03-10T09:30', endDate: '2026-03-10T10:30', timeZone: 'Europe/Berlin' });
+    const timeZone = event.slice(event.indexOf('BEGIN:VTIMEZONE'), event.indexOf('END:VTIMEZONE') + 1);
+
+    expect(timeZone).toEqual([
+      'BEGIN:VTIMEZONE',
+      'TZID:Europe/Berlin',
+      'BEGIN:DAYLIGHT',
+      'DTSTART:20250330T020000',
+      'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+      'TZOFFSETFROM:+0100',
+      'TZOFFSETTO:+0200',
+      'END:DAYLIGHT',
+      'BEGIN:STANDARD',
+      'DTSTART:20251026T030000',
+      'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+      'TZOFFSETFROM:+0200',
+      'TZOFFSETTO:+0100',
+      'END:STANDARD',
+      'END:VTIMEZONE',
+    ]);
+    expect(event).toContain('DTSTART;TZID=Europe/Berlin:20260310T093000');
+    expect(event).toContain('DTEND;TZID=Europe/Berlin:20260310T103000');
+  });
+
+  it('gives a zone without transitions a single observance from 1970', () => {
+    const event = lines({ title: 'Tokyo', startDate: '2026-03-10T09:30', timeZone: 'Asia/Tokyo' });
+    expect(event).toContain('DTSTART:19700101T000000');
+    expect(event).toContain('TZOFFSETTO:+0900');
+    expect(event).not.toContain('BEGIN:DAYLIGHT');
+  });
+
+  it('writes recurrence rules, alarms and escaped text', () => {
+    const event = lines({
+      title: 'Standup; daily, sync',
+      description: 'Line one\nline two',
+      startDate: '2026-03-10T09:30:00Z',
+      recurrence: { frequency: 'WEEKLY', byDay: ['MO', 'WE'], until: '2026-06-30' },
+      alarms: [{ minutesBefore: 15 }],
+    });
+
+    expect(event).toContain('SUMMARY:Standup\\; daily\\, sync');
+    expect(event).toContain('DESCRIPTION:Line one\\nline two');
+    expect(event).toContain('RRULE:FREQ=WEEKLY;UNTIL=20260630T235959Z;BYDAY=MO,WE');
+    expect(event.slice(event.indexOf('BEGIN:VALARM'), event.indexOf('END:VALARM') + 1)).toEqual([
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'DESCRIPTION:Standup\\; daily\\, sync',
+      'TRIGGER:-PT15M',
+      'END:VALARM',
+    ]);
+  });
+
+  it('folds lines longer than 75 octets', () => {
+    const event = lines({ title: 'x'.repeat(90), startDate: '2026-03-10T09:30' });
+    expect(event).toContain(`SUMMARY:${'x'.repeat(67)}`);
+    expect(event).toContain(` ${'x'.repeat(23)}`);
+  });
+});
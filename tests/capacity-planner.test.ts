@@ -0,0 +1,80 @@
+import { dataCapacityBits, measureLevel, physicalSize, planCapacity } from '../src/capacity-planner.js';
+
+describe('measureLevel', () => {
+  // Version 1 and 40 capacities from ISO/IEC 18004 table 7
+  it.each([
+    ['numeric', '1'.repeat(41), 'L', 1],
+    ['numeric', '1'.repeat(42), 'L', 2],
+    ['alphanumeric', 'A'.repeat(10), 'H', 1],
+    ['alphanumeric', 'A'.repeat(11), 'H', 2],
+    ['byte', 'a'.repeat(17), 'L', 1],
+    ['byte', 'a'.repeat(18), 'L', 2],
+    ['byte', 'a'.repeat(2953), 'L', 40],
+    ['numeric', '7'.repeat(7089), 'L', 40],
+  ] as const)('fits %s content of length %#', (_, content, level, version) => {
+    expect(measureLevel(content, level)).toMatchObject({ fits: true, version, modules: 17 + version * 4 });
+  });
+
+  it('reports how much space is left in the symbol', () => {
+    // 4 + 8 + 16 * 8 bits of 19 codewords
+    expect(measureLevel('a'.repeat(16), 'L')).toMatchObject({ usedBits: 140, capacityBits: 152, remainingBytes: 1 });
+  });
+
+  it('reports how far content is over version 40', () => {
+    // 4 + 16 + 2954 * 8 bits against 2956 codewords
+    expect(measureLevel('a'.repeat(2954), 'L')).toEqual({
+      errorCorrectionLevel: 'L',
+      fits: false,
+      capacityBits: 2956 * 8,
+      overflowBits: 4,
+    });
+  });
+
+  it('measures explicit segments', () => {
+    const digits = measureLevel([{ mode: 'numeric', data: '12345678' }], 'M');
+    const bytes = measureLevel([{ mode: 'byte', data: '12345678' }], 'M');
+    expect(digits.usedBits).toBe(4 + 10 + 27);
+    expect(bytes.usedBits).toBe(4 + 8 + 64);
+  });
+});
+
+describe('dataCapacityBits', () => {
+  it('reads the data codewords table', () => {
+    expect(dataCapacityBits(1, 'M')).toBe(16 * 8);
+    expect(dataCapacityBits(40, 'H')).toBe(1276 * 8);
+  });
+});
+
+describe('physicalSize', () => {
+  it('scales modules with the scan distance', () => {
+    expect(physicalSize(25, 30)).toEqual({ scanDistanceCm: 30, moduleSizeMm: 1.2, symbolSizeMm: 30, totalSizeMm: 39.6 });
+  });
+
+  it('never goes below a printable module size', () => {
+    expect(physicalSize(21, 2).moduleSizeMm).toBe(0.25);
+  });
+});
+
+describe('planCapacity', () => {
+  it('measures every level and describes the segments at the requested one', () => {
+    const plan = planCapacity('HELLO WORLD 0123456789012345', 'Q');
+
+    expect(plan.levels.map(level => level.errorCorrectionLevel)).toEqual(['L', 'M', 'Q', 'H']);
+    expect(plan.selected).toBe(plan.levels[2]);
+    expect(plan.bytes).toBe(28);
+    expect(plan.segments.map(segment => segment.mode)).toEqual(['alphanumeric', 'numeric']);
+    expect(plan.segments.reduce((bits, segment) => bits + segment.bits, 0)).toBe(plan.selected.usedBits);
+    expect(plan.physicalSize).toBeDefined();
+  });
+
+  it('counts UTF-8 bytes', () => {
+    expect(planCapacity('Grüße').bytes).toBe(7);
+  });
+
+  it('has no printable size for content that does not fit', () => {
+    const plan = planCapacity('a'.repeat(2000), 'H');
+    expect(plan.selected.fits).toBe(false);
+    expect(plan.physicalSize).toBeUndefined();
+    expect(plan.levels[0].fits).toBe(true);
+  });
+});
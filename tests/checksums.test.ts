@@ -0,0 +1,48 @@
+import { crc16ccitt, isValidCreditorReference, isValidIBAN, mod97Valid } from '../src/checksums.js';
+
+describe('crc16ccitt', () => {
+  // CRC-16/CCITT-FALSE check value: polynomial 0x1021, initial value 0xFFFF
+  it('matches the catalogue check value', () => {
+    expect(crc16ccitt(new TextEncoder().encode('123456789'))).toBe(0x29b1);
+  });
+
+  it('starts from 0xFFFF', () => {
+    expect(crc16ccitt(new Uint8Array(0))).toBe(0xffff);
+  });
+});
+
+describe('mod97Valid', () => {
+  it('needs a two-letter prefix and two check digits', () => {
+    expect(mod97Valid('GB82WEST12345698765432')).toBe(true);
+    expect(mod97Valid('82GBWEST12345698765432')).toBe(false);
+    expect(mod97Valid('gb82west12345698765432')).toBe(false);
+  });
+});
+
+describe('isValidIBAN', () => {
+  // Examples from the ISO 13616 registry
+  it.each(['GB82WEST12345698765432', 'DE89370400440532013000', 'GB82 WEST 1234 5698 7654 32', 'de89370400440532013000'])(
+    'accepts %s',
+    iban => {
+      expect(isValidIBAN(iban)).toBe(true);
+    },
+  );
+
+  it.each(['DE88370400440532013000', 'GB82WEST12345698765433', 'DE8937040044', 'DE89-3704-0044-0532-0130-00'])('rejects %s', iban => {
+    expect(isValidIBAN(iban)).toBe(false);
+  });
+});
+
+describe('isValidCreditorReference', () => {
+  // Example from ISO 11649 annex
+  it('accepts a reference with valid check digits', () => {
+    expect(isValidCreditorReference('RF18539007547034')).toBe(true);
+    expect(isValidCreditorReference('RF18 5390 0754 7034')).toBe(true);
+  });
+
+  it('rejects wrong check digits, other prefixes and long references', () => {
+    expect(isValidCreditorReference('RF19539007547034')).toBe(false);
+    expect(isValidCreditorReference('GB82WEST12345698765432')).toBe(false);
+    expect(isValidCreditorReference('RF18' + '0'.repeat(22))).toBe(false);
+  });
+});
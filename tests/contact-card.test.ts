@@ -0,0 +1,83 @@
+import { buildContactCard, fitContactCard } from '../src/contact-card.js';
+import { QRValidationError, VCardSchema } from '../src/types.js';
+
+const card = VCardSchema.parse({
+  firstName: 'Ada',
+  lastName: 'Lovelace',
+  organization: 'Analytical; Engines',
+  department: 'R&D, Math',
+  title: 'Countess',
+  phones: [{ number: '+44 20 7946 0000', type: 'work' }],
+  email: 'ada@example.com',
+  emails: [{ address: 'ada@home.example', type: 'home' }],
+  websites: ['https://example.com'],
+  social: [{ network: 'github', url: 'https://github.com/ada' }],
+  note: 'Line one\nline two, with comma',
+  birthday: '1815-12-10',
+});
+
+describe('buildContactCard', () => {
+  it('writes an escaped vCard 3.0 with CRLF line endings', () => {
+    expect(buildContactCard(card).split('\r\n')).toEqual([
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'FN:Ada Lovelace',
+      'N:Lovelace;Ada;;;',
+      'ORG:Analytical\\; Engines;R&D\\, Math',
+      'TITLE:Countess',
+      'TEL;TYPE=WORK:+44 20 7946 0000',
+      'EMAIL:ada@example.com',
+      'EMAIL;TYPE=HOME:ada@home.example',
+      'URL:https://example.com',
+      'X-SOCIALPROFILE;TYPE=github:https://github.com/ada',
+      'BDAY:1815-12-10',
+      'NOTE:Line one\\nline two\\, with comma',
+      'END:VCARD',
+      '',
+    ]);
+  });
+
+  it('writes vCard 4.0 forms of telephone, type, social and birthday values', () => {
+    const lines = buildContactCard({ ...card, version: '4.0' }).split('\r\n');
+    expect(lines).toContain('VERSION:4.0');
+    expect(lines).toContain('TEL;VALUE=uri;TYPE=work:tel:+44-20-7946-0000');
+    expect(lines).toContain('EMAIL;TYPE=home:ada@home.example');
+    expect(lines).toContain('SOCIALPROFILE;SERVICE-TYPE=github:https://github.com/ada');
+    expect(lines).toContain('BDAY:18151210');
+  });
+
+  it('folds lines longer than 75 octets', () => {
+    const content = buildContactCard(VCardSchema.parse({ firstName: 'A', lastName: 'B', note: 'y'.repeat(100) }));
+    expect(content).toContain(`NOTE:${'y'.repeat(70)}\r\n ${'y'.repeat(30)}\r\n`);
+  });
+
+  it('writes a MECARD without the fields it has no place for', () => {
+    expect(buildContactCard({ ...card, cardFormat: 'mecard' })).toBe(
+      'MECARD:N:Lovelace,Ada;ORG:Analytical\\; Engines;TITLE:Countess;TEL:+44 20 7946 0000;' +
+      'EMAIL:ada@example.com;EMAIL:ada@home.example;URL:https\\://example.com;BDAY:18151210;' +
+      'NOTE:Line one line two\\, with comma;;'
+    );
+  });
+});
+
+describe('fitContactCard', () => {
+  it('keeps every field of a card that fits', () => {
+    expect(fitContactCard(card, 'M')).toEqual({ content: buildContactCard(card), droppedFields: [] });
+  });
+
+  it('reports the fields a MECARD cannot hold', () => {
+    expect(fitContactCard({ ...card, cardFormat: 'mecard' }, 'M').droppedFields).toEqual(['social', 'department']);
+  });
+
+  it('drops the most expendable fields until the card fits', () => {
+    const { content, droppedFields } = fitContactCard({ ...card, note: 'x'.repeat(2500) }, 'H');
+    expect(droppedFields).toEqual(['note']);
+    expect(content).not.toContain('NOTE:');
+    expect(content).toContain('TITLE:Countess');
+  });
+
+  it('rejects a card too large even without optional fields', () => {
+    const huge = VCardSchema.parse({ firstName: 'x'.repeat(3000), lastName: 'B' });
+    expect(() => fitContactCard(huge, 'L')).toThrow(QRValidationError);
+  });
+});
@@ -0,0 +1,56 @@
+import { optimizeContent, planSegments } from '../src/content-optimizer.js';
+import { segmentBits, splitSegments } from '../src/qr-segments.js';
+
+describe('planSegments', () => {
+  it('splits for the first version band when the content fits it', () => {
+    const { segments, bits } = planSegments('ABC12345678901234567', 'M');
+    expect(segments).toEqual(splitSegments('ABC12345678901234567', 1));
+    expect(bits).toBe(segments.reduce((total, segment) => total + segmentBits(segment, 1), 0));
+  });
+
+  it('counts with wider fields for content beyond version 9', () => {
+    // 1000 digits need version 10 or later at level M
+    const { bits } = planSegments('1'.repeat(1000), 'M');
+    expect(bits).toBe(4 + 12 + 333 * 10 + 4);
+  });
+});
+
+describe('optimizeContent', () => {
+  it('upgrades to HTTPS and uppercases the scheme and host', () => {
+    const result = optimizeContent('  http://example.com/ABC/DEF ');
+
+    expect(result.optimized).toBe('HTTPS://EXAMPLE.COM/ABC/DEF');
+    expect(result.changes).toEqual([
+      'Removed leading/trailing whitespace',
+      'Upgraded HTTP to HTTPS',
+      'Uppercased URL scheme and host to fit alphanumeric mode',
+    ]);
+    expect(result.segments).toEqual([{ mode: 'alphanumeric', data: 'HTTPS://EXAMPLE.COM/ABC/DEF' }]);
+    expect(result.after.usedBits!).toBeLessThan(result.before.usedBits!);
+  });
+
+  it('keeps user info as written', () => {
+    expect(optimizeContent('https://user:PW@example.com/ABC').optimized).toBe('HTTPS://user:PW@EXAMPLE.COM/ABC');
+  });
+
+  it('removes tracking parameters only on request', () => {
+    const url = 'https://example.com/p?utm_source=x&id=1&fbclid=abc#top';
+
+    expect(optimizeContent(url).suggestions).toContain('The URL carries tracking parameters; set stripTracking to remove them');
+    const stripped = optimizeContent(url, { stripTracking: true });
+    expect(stripped.optimized).toBe('HTTPS://EXAMPLE.COM/p?id=1#top');
+    expect(stripped.changes).toContain('Removed tracking parameters: utm_source, fbclid');
+  });
+
+  it('leaves content that does not gain anything alone', () => {
+    const result = optimizeContent('plain text, nothing to do');
+    expect(result.optimized).toBe('plain text, nothing to do');
+    expect(result.changes).toEqual([]);
+  });
+
+  it('measures both versions at the requested level', () => {
+    const result = optimizeContent('https://example.com', { errorCorrectionLevel: 'H' });
+    expect(result.before.errorCorrectionLevel).toBe('H');
+    expect(result.after.errorCorrectionLevel).toBe('H');
+  });
+});
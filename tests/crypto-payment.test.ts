@@ -0,0 +1,147 @@
+import { buildCryptoPaymentURI, parseCryptoPaymentURI } from '../src/crypto-payment.js';
+import { QRValidationError } from '../src/types.js';
+
+// EIP-55 test vectors
+const CHECKSUMMED_ADDRESSES = [
+  '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+  '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359',
+  '0xdbF03B407c01E7cD3CBea99509d93f8DDDC8C6FB',
+  '0xD1220A0cf47c7B9Be7A2E6BA89F429762e7b9aDb',
+];
+
+// Valid addresses from BIP 173 (bech32, witness version 0) and BIP 350
+// (bech32m, versions 1 and up)
+const VALID_SEGWIT_ADDRESSES = [
+  'BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4',
+  'tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7',
+  'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0',
+  'BC1SW50QGDZ25J',
+  'bc1zw508d6qejxtdg4y5r3zarvaryvaxxpcs',
+  'tb1pqqqqp399et2xygdj5xreqhjjvcmzhxw4aywxecjdzew6hylgvsesf3hn0c',
+];
+
+// Invalid addresses from BIP 350: the wrong checksum variant for the
+// witness version, mixed case, and a program of the wrong length
+const INVALID_SEGWIT_ADDRESSES = [
+  'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kemeawh',
+  'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqh2y7hd',
+  'BC1S0XLXVLHEMJA6C4DQV22UAPCTQUPFHLXM9H8Z3K2E72Q4K9HCZ7VQ54WELL',
+  'tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sL5k7',
+  'bc1zw508d6qejxtdg4y5r3zarvaryvqyzf3du',
+];
+
+// First invoice of the BOLT 11 examples
+const INVOICE =
+  'lnbc1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdpl2pkx2ctnv5sxxmmwwd5kgetjypeh2ursdae8g6twvus8' +
+  'g6rfwvs8qun0dfjkxaq8rkx3yf5tcsyz3d73gafnh3cax9rn449d9p5uxz9ezhhypd0elx87sjle52x86fux2ypatgddc6k63n7erqz25le42c4u4ecky' +
+  '03ylcqca784w';
+
+describe('buildCryptoPaymentURI', () => {
+  describe('bitcoin', () => {
+    it.each(VALID_SEGWIT_ADDRESSES)('accepts %s', address => {
+      expect(buildCryptoPaymentURI({ scheme: 'bitcoin', address })).toBe(`bitcoin:${address}`);
+    });
+
+    it.each(INVALID_SEGWIT_ADDRESSES)('rejects %s', address => {
+      expect(() => buildCryptoPaymentURI({ scheme: 'bitcoin', address })).toThrow(QRValidationError);
+    });
+
+    it('checks Base58Check addresses', () => {
+      expect(buildCryptoPaymentURI({ scheme: 'bitcoin', address: '1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2' }))
+        .toBe('bitcoin:1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2');
+      expect(buildCryptoPaymentURI({ scheme: 'bitcoin', address: '3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy' }))
+        .toBe('bitcoin:3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy');
+      expect(() => buildCryptoPaymentURI({ scheme: 'bitcoin', address: '1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN3' }))
+        .toThrow(/checksum mismatch/);
+    });
+
+    it('writes the amount in BTC without trailing zeros and escapes text', () => {
+      expect(buildCryptoPaymentURI({
+        scheme: 'bitcoin',
+        address: '1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2',
+        amount: 0.0012,
+        label: 'Luke Jr',
+        message: 'Donation & thanks',
+      })).toBe('bitcoin:1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2?amount=0.0012&label=Luke%20Jr&message=Donation%20%26%20thanks');
+    });
+
+    it('rejects amounts finer than one satoshi', () => {
+      expect(() => buildCryptoPaymentURI({
+        scheme: 'bitcoin',
+        address: '1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2',
+        amount: 0.000000001,
+      })).toThrow(/finer than one satoshi/);
+    });
+
+    it('adds a lightning invoice for the same network', () => {
+      const address = 'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0';
+      expect(buildCryptoPaymentURI({ scheme: 'bitcoin', address, lightning: INVOICE }))
+        .toBe(`bitcoin:${address}?lightning=${INVOICE}`);
+      expect(() => buildCryptoPaymentURI({
+        scheme: 'bitcoin',
+        address: 'tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7',
+        lightning: INVOICE,
+      })).toThrow(/invoice is for mainnet but the address is for testnet/);
+    });
+  });
+
+  describe('ethereum', () => {
+    it.each(CHECKSUMMED_ADDRESSES)('writes %s in its EIP-55 form', address => {
+      expect(buildCryptoPaymentURI({ scheme: 'ethereum', address: address.toLowerCase() })).toBe(`ethereum:${address}`);
+      expect(buildCryptoPaymentURI({ scheme: 'ethereum', address: address.toUpperCase().replace('0X', '0x') }))
+        .toBe(`ethereum:${address}`);
+    });
+
+    it('rejects mixed-case addresses that fail the checksum', () => {
+      const address = CHECKSUMMED_ADDRESSES[0].replace('aA', 'Aa');
+      expect(() => buildCryptoPaymentURI({ scheme: 'ethereum', address })).toThrow(/fails its EIP-55 checksum/);
+    });
+
+    it('builds ether and token transfers', () => {
+      const [recipient, contract] = CHECKSUMMED_ADDRESSES;
+      expect(buildCryptoPaymentURI({ scheme: 'ethereum', address: recipient, chainId: 1, value: '1000', gasLimit: '21000' }))
+        .toBe(`ethereum:${recipient}@1?value=1000&gasLimit=21000`);
+      expect(buildCryptoPaymentURI({ scheme: 'ethereum', address: recipient, token: { contract, amount: '5' } }))
+        .toBe(`ethereum:${contract}/transfer?address=${recipient}&uint256=5`);
+    });
+  });
+});
+
+describe('parseCryptoPaymentURI', () => {
+  it('reads BIP 21 fields', () => {
+    expect(parseCryptoPaymentURI('bitcoin:1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2?amount=20.3&label=Luke-Jr&req-x=1'))
+      .toEqual({
+        type: 'crypto',
+        fields: { scheme: 'bitcoin', address: '1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2', amount: 20.3, label: 'Luke-Jr' },
+        addressValid: true,
+      });
+  });
+
+  it('flags addresses that fail their checksum', () => {
+    expect(parseCryptoPaymentURI(`bitcoin:${INVALID_SEGWIT_ADDRESSES[0]}`)!.addressValid).toBe(false);
+    expect(parseCryptoPaymentURI(`ethereum:${CHECKSUMMED_ADDRESSES[0].replace('aA', 'Aa')}`)!.addressValid).toBe(false);
+  });
+
+  it('expands EIP-681 numbers with exponents', () => {
+    expect(parseCryptoPaymentURI(`ethereum:pay-${CHECKSUMMED_ADDRESSES[1]}@1?value=2.014e18`)!.fields).toEqual({
+      scheme: 'ethereum',
+      address: CHECKSUMMED_ADDRESSES[1],
+      chainId: 1,
+      value: '2014000000000000000',
+    });
+  });
+
+  it('reads token transfers and skips other contract calls', () => {
+    const [recipient, contract] = CHECKSUMMED_ADDRESSES;
+    expect(parseCryptoPaymentURI(`ethereum:${contract}/transfer?address=${recipient}&uint256=1e18`)!.fields).toEqual({
+      scheme: 'ethereum',
+      address: recipient,
+      token: { contract, amount: '1000000000000000000' },
+    });
+    expect(parseCryptoPaymentURI(`ethereum:${contract}/approve?address=${recipient}`)).toBeUndefined();
+  });
+
+  it('leaves other content alone', () => {
+    expect(parseCryptoPaymentURI('litecoin:LZ1')).toBeUndefined();
+  });
+});
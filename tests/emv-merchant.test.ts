@@ -0,0 +1,108 @@
+import { buildEMVMerchantPayload, parseEMVMerchant } from '../src/emv-merchant.js';
+import { EMVMerchant, EMVMerchantSchema, QRValidationError } from '../src/types.js';
+
+// Static PIX code from the Banco Central do Brasil initiation manual
+const PIX_PAYLOAD =
+  '00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-426655440000' +
+  '5204000053039865802BR5913Fulano de Tal6008BRASILIA62070503***63041D3D';
+
+const PIX_MERCHANT = {
+  merchantAccounts: [{
+    tag: 26,
+    globallyUniqueIdentifier: 'br.gov.bcb.pix',
+    fields: { '01': '123e4567-e12b-12d1-a456-426655440000' },
+  }],
+  currency: '986',
+  countryCode: 'BR',
+  merchantName: 'Fulano de Tal',
+  merchantCity: 'BRASILIA',
+  additionalData: { referenceLabel: '***' },
+};
+
+function merchant(overrides: Partial<EMVMerchant> = {}): EMVMerchant {
+  return EMVMerchantSchema.parse({ ...PIX_MERCHANT, ...overrides });
+}
+
+describe('buildEMVMerchantPayload', () => {
+  it('reproduces the reference PIX payload and its CRC', () => {
+    expect(buildEMVMerchantPayload(merchant())).toBe(PIX_PAYLOAD);
+  });
+
+  it('writes fields in tag order with amounts in the currency minor units', () => {
+    const payload = buildEMVMerchantPayload(merchant({
+      pointOfInitiation: 'dynamic',
+      merchantAccounts: [
+        { tag: 29, globallyUniqueIdentifier: 'A000000677010111', fields: { '01': '0066812345678' } },
+        { tag: 4, value: '5412345678901234' },
+      ],
+      currency: 'THB',
+      countryCode: 'TH',
+      amount: 12.5,
+      tip: { type: 'percentage', value: 10 },
+      additionalData: undefined,
+    }));
+
+    expect(payload.slice(0, -4)).toBe(
+      '000201' + '010212' +
+      '04165412345678901234' +
+      '29370016A00000067701011101130066812345678' +
+      '52040000' + '5303764' + '540512.50' + '550203' + '570510.00' + '5802TH' +
+      '5913Fulano de Tal' + '6008BRASILIA' + '6304'
+    );
+  });
+
+  it('rejects amounts finer than the currency allows', () => {
+    expect(() => buildEMVMerchantPayload(merchant({ currency: 'JPY', amount: 10.5 }))).toThrow(/more than 0 decimals/);
+  });
+
+  it('rejects unknown currencies, repeated account tags and long fields', () => {
+    expect(() => buildEMVMerchantPayload(merchant({ currency: 'XYZ' }))).toThrow(QRValidationError);
+    expect(() => buildEMVMerchantPayload(merchant({
+      merchantAccounts: [{ tag: 2, value: '4111' }, { tag: 2, value: '4222' }],
+    }))).toThrow(/used twice/);
+    expect(() => buildEMVMerchantPayload(merchant({
+      merchantAccounts: [{ tag: 2, value: '4'.repeat(100) }],
+    }))).toThrow(/at most 99/);
+  });
+});
+
+describe('parseEMVMerchant', () => {
+  it('names every field of the reference PIX payload', () => {
+    const parsed = parseEMVMerchant(PIX_PAYLOAD)!;
+
+    expect(parsed.crcValid).toBe(true);
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.fields).toEqual({ ...PIX_MERCHANT, currency: 'BRL', merchantCategoryCode: '0000' });
+    expect(parsed.dataObjects.find(object => object.tag === '26')).toMatchObject({
+      name: 'Merchant account template',
+      meaning: 'PIX',
+    });
+  });
+
+  it('reads back what the builder wrote', () => {
+    const built = merchant({
+      pointOfInitiation: 'static',
+      currency: 'SGD',
+      amount: 3.2,
+      tip: { type: 'fixed', value: 0.5 },
+      postalCode: '018956',
+      alternateLanguage: { languagePreference: 'zh', merchantName: '测试商店' },
+    });
+    const parsed = parseEMVMerchant(buildEMVMerchantPayload(built))!;
+
+    expect(parsed.crcValid).toBe(true);
+    expect(parsed.fields).toEqual({ ...built, currency: 'SGD' });
+  });
+
+  it('flags a wrong CRC and missing fields', () => {
+    const parsed = parseEMVMerchant(PIX_PAYLOAD.replace('BRASILIA', 'SAO PAUL').replace(/5802BR/, ''))!;
+
+    expect(parsed.crcValid).toBe(false);
+    expect(parsed.errors).toEqual(['Country code (tag 58) is missing']);
+  });
+
+  it('leaves content that is not TLV fields alone', () => {
+    expect(parseEMVMerchant('000201 hello')).toBeUndefined();
+    expect(parseEMVMerchant('https://example.com')).toBeUndefined();
+  });
+});
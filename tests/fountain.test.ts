@@ -0,0 +1,106 @@
+import {
+  assembleFountain,
+  encodeFountain,
+  fountainBlockSize,
+  isFountainFrame,
+  FRAME_PREFIX,
+  MAX_FRAMES,
+} from '../src/fountain.js';
+import { dataCapacityBits } from '../src/capacity-planner.js';
+import { ALPHANUMERIC_CHARSET, segmentBits } from '../src/qr-segments.js';
+import { QRValidationError } from '../src/types.js';
+
+function sample(length: number): Uint8Array {
+  return Uint8Array.from({ length }, (_, i) => (i * 131 + 7) & 0xff);
+}
+
+describe('encodeFountain', () => {
+  it('adds redundant frames after one frame per block', () => {
+    expect(encodeFountain(sample(1000), { blockSize: 100 })).toHaveLength(15);
+    expect(encodeFountain(sample(1000), { blockSize: 100, redundancy: 1 })).toHaveLength(20);
+    expect(encodeFountain(sample(1000), { blockSize: 100, frames: 12 })).toHaveLength(12);
+  });
+
+  it('writes frames as one alphanumeric segment', () => {
+    const frames = encodeFountain(sample(300), { blockSize: 64 });
+    for (const frame of frames) {
+      expect(frame.startsWith(FRAME_PREFIX)).toBe(true);
+      expect([...frame].every(char => ALPHANUMERIC_CHARSET.includes(char))).toBe(true);
+    }
+  });
+
+  it('rejects empty data, too few frames and too many frames', () => {
+    expect(() => encodeFountain(new Uint8Array(0), { blockSize: 10 })).toThrow(QRValidationError);
+    expect(() => encodeFountain(sample(100), { blockSize: 10, frames: 9 })).toThrow(/at least 10 frames/);
+    expect(() => encodeFountain(sample(MAX_FRAMES), { blockSize: 1 })).toThrow(/more than 2000/);
+  });
+});
+
+describe('assembleFountain', () => {
+  it('rebuilds the data from every frame', () => {
+    const data = sample(1000);
+    const [transfer] = assembleFountain(encodeFountain(data, { blockSize: 100 }));
+
+    expect(transfer).toMatchObject({ length: 1000, blockSize: 100, blocks: 10, recovered: 10, complete: true });
+    expect(transfer.data).toEqual(data);
+  });
+
+  it('rebuilds the data from shuffled frames with some missing and some repeated', () => {
+    const data = sample(777);
+    const frames = encodeFountain(data, { blockSize: 50, redundancy: 1 });
+    // Lose every fourth frame, then receive the rest backwards, twice
+    const received = frames.filter((_, index) => index % 4 !== 0).reverse();
+    const [transfer] = assembleFountain([...received, ...received]);
+
+    expect(transfer.framesReceived).toBe(received.length);
+    expect(transfer.complete).toBe(true);
+    expect(transfer.data).toEqual(data);
+  });
+
+  it('reports progress while blocks are missing', () => {
+    const frames = encodeFountain(sample(1000), { blockSize: 100 });
+    const [transfer] = assembleFountain(frames.slice(0, 6));
+
+    expect(transfer).toMatchObject({ blocks: 10, framesReceived: 6, recovered: 6, complete: false });
+    expect(transfer.data).toBeUndefined();
+  });
+
+  it('keeps transfers apart and ignores other contents', () => {
+    const first = sample(200);
+    const second = sample(300).reverse();
+    const contents = [
+      'https://example.com',
+      ...encodeFountain(first, { blockSize: 40 }),
+      `${FRAME_PREFIX}not base45`,
+      ...encodeFountain(second, { blockSize: 40 }),
+    ];
+    const transfers = assembleFountain(contents);
+
+    expect(transfers.map(transfer => transfer.data)).toEqual([first, second]);
+  });
+});
+
+describe('fountainBlockSize', () => {
+  it.each([
+    [5, 'L'],
+    [10, 'M'],
+    [25, 'H'],
+  ] as const)('fills a version %i-%s symbol without overflowing it', (version, level) => {
+    const blockSize = fountainBlockSize(version, level);
+    const capacity = dataCapacityBits(version, level);
+    const [frame] = encodeFountain(sample(blockSize), { blockSize });
+    const [larger] = encodeFountain(sample(blockSize + 1), { blockSize: blockSize + 1 });
+
+    expect(segmentBits({ mode: 'alphanumeric', data: frame }, version)).toBeLessThanOrEqual(capacity);
+    expect(segmentBits({ mode: 'alphanumeric', data: larger }, version)).toBeGreaterThan(capacity);
+  });
+});
+
+describe('isFountainFrame', () => {
+  it('accepts frames and nothing else', () => {
+    const [frame] = encodeFountain(sample(10), { blockSize: 10 });
+    expect(isFountainFrame(frame)).toBe(true);
+    expect(isFountainFrame('QRF:')).toBe(false);
+    expect(isFountainFrame('hello')).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+import { gs1CheckDigit, gs1CheckDigitValid } from '../src/checksums.js';
+import { buildGS1DigitalLink, parseGS1DigitalLink } from '../src/gs1-digital-link.js';
+import { GS1DigitalLinkSchema, QRValidationError } from '../src/types.js';
+
+const product = {
+  gtin: '09520123456788',
+  batch: 'A&B/1',
+  serial: '12345',
+  expiry: '2027-12-31',
+  ais: { '3103': '000189' },
+};
+
+function build(fields: object): string {
+  return buildGS1DigitalLink(GS1DigitalLinkSchema.parse(fields));
+}
+
+describe('gs1CheckDigit', () => {
+  // GTIN-14, GTIN-13, GTIN-8 and SSCC without their check digit
+  it.each([
+    ['0952012345678', 8],
+    ['400638133393', 1],
+    ['9638507', 4],
+    ['10614141234567890', 8],
+  ])('computes the check digit of %s', (digits, expected) => {
+    expect(gs1CheckDigit(digits)).toBe(expected);
+  });
+
+  it('validates a key with its check digit', () => {
+    expect(gs1CheckDigitValid('09520123456788')).toBe(true);
+    expect(gs1CheckDigitValid('96385074')).toBe(true);
+    expect(gs1CheckDigitValid('4006381333932')).toBe(false);
+  });
+});
+
+describe('buildGS1DigitalLink', () => {
+  it('puts the key and qualifiers in the path and other AIs in the query', () => {
+    expect(build(product)).toBe('https://id.gs1.org/01/09520123456788/10/A%26B%2F1/21/12345?17=271231&3103=000189');
+  });
+
+  it('keeps a path prefix on the domain', () => {
+    expect(build({ domain: 'https://example.com/products/', gtin: '4006381333931' })).toBe(
+      'https://example.com/products/01/04006381333931'
+    );
+  });
+
+  it('packs every element into one path segment when compressed', () => {
+    const link = build({ ...product, compressed: true });
+    expect(link).toMatch(/^https:\/\/id\.gs1\.org\/[A-Za-z0-9_-]+$/);
+    expect(link.length).toBeLessThan(build(product).length);
+  });
+
+  it('rejects a wrong check digit or format', () => {
+    expect(() => build({ gtin: '09520123456789' })).toThrow('check digit is wrong; expected 8');
+    expect(() => build({ gtin: '09520123456788', batch: 'has space' })).toThrow(QRValidationError);
+  });
+
+  it('needs exactly one primary key', () => {
+    expect(() => build({ batch: 'X' })).toThrow(QRValidationError);
+    expect(() => build({ gtin: '09520123456788', ais: { '00': '106141412345678908' } })).toThrow('one primary key');
+  });
+});
+
+describe('parseGS1DigitalLink', () => {
+  it.each([false, true])('reads back a link built with compressed %s', compressed => {
+    expect(parseGS1DigitalLink(build({ ...product, compressed }))).toMatchObject({
+      type: 'gs1',
+      fields: {
+        domain: 'https://id.gs1.org',
+        ...(compressed ? { compressed: true } : {}),
+        ...product,
+        expiry: '271231',
+      },
+      elements: expect.arrayContaining([
+        { ai: '17', title: 'USE BY OR EXPIRY', value: '271231', meaning: '2027-12-31' },
+        { ai: '3103', title: 'NET WEIGHT (kg)', value: '000189', meaning: '0.189 kg' },
+      ]),
+      errors: [],
+    });
+  });
+
+  it('reports check digit and date problems instead of rejecting the link', () => {
+    expect(parseGS1DigitalLink('https://example.com/01/09520123456789?17=270231&linkType=gs1:pip')).toMatchObject({
+      fields: { domain: 'https://example.com', gtin: '09520123456789', expiry: '270231' },
+      errors: [
+        'AI 01 (GTIN) check digit is wrong; expected 8',
+        'AI 17 (USE BY OR EXPIRY) 270231 is not a valid YYMMDD date',
+      ],
+    });
+  });
+
+  it('reads other primary keys with their qualifiers', () => {
+    expect(parseGS1DigitalLink('https://id.gs1.org/414/9520123456788/254/A1')?.fields).toEqual({
+      domain: 'https://id.gs1.org',
+      ais: { '414': '9520123456788', '254': 'A1' },
+    });
+  });
+
+  it('ignores URLs that are not Digital Links', () => {
+    expect(parseGS1DigitalLink('https://example.com/about/us')).toBeUndefined();
+    expect(parseGS1DigitalLink('not a url')).toBeUndefined();
+  });
+});
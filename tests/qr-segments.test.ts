@@ -0,0 +1,68 @@
+import { findInvalidSegment, joinSegments, segmentBits, splitSegments } from '../src/qr-segments.js';
+import type { QRSegment } from '../src/types.js';
+
+function totalBits(segments: QRSegment[], version: number): number {
+  return segments.reduce((bits, segment) => bits + segmentBits(segment, version), 0);
+}
+
+describe('segmentBits', () => {
+  // Worked examples of ISO/IEC 18004 section 7.4
+  it('counts header and data bits', () => {
+    expect(segmentBits({ mode: 'numeric', data: '01234567' }, 1)).toBe(41);
+    expect(segmentBits({ mode: 'alphanumeric', data: 'AC-42' }, 1)).toBe(41);
+    expect(segmentBits({ mode: 'byte', data: 'ü' }, 1)).toBe(4 + 8 + 16);
+    expect(segmentBits({ mode: 'kanji', data: '点茗' }, 1)).toBe(4 + 8 + 26);
+  });
+
+  it('widens the count field at versions 10 and 27', () => {
+    const segment: QRSegment = { mode: 'numeric', data: '123' };
+    expect([9, 10, 26, 27].map(version => segmentBits(segment, version))).toEqual([24, 26, 26, 28]);
+  });
+});
+
+describe('splitSegments', () => {
+  it('keeps single-mode content in one segment', () => {
+    expect(splitSegments('0123456789', 1)).toEqual([{ mode: 'numeric', data: '0123456789' }]);
+    expect(splitSegments('HELLO WORLD', 1)).toEqual([{ mode: 'alphanumeric', data: 'HELLO WORLD' }]);
+    expect(splitSegments('hello', 1)).toEqual([{ mode: 'byte', data: 'hello' }]);
+    expect(splitSegments('漢字テスト', 1)).toEqual([{ mode: 'kanji', data: '漢字テスト' }]);
+    expect(splitSegments('', 1)).toEqual([]);
+  });
+
+  it('switches modes where that saves bits', () => {
+    expect(splitSegments('ABC12345678901234567', 1)).toEqual([
+      { mode: 'alphanumeric', data: 'ABC' },
+      { mode: 'numeric', data: '12345678901234567' },
+    ]);
+    expect(splitSegments('Grüße 2024 ABC', 1)).toEqual([
+      { mode: 'byte', data: 'Grüße' },
+      { mode: 'alphanumeric', data: ' 2024 ABC' },
+    ]);
+  });
+
+  it('weighs switches against the count field size of the version band', () => {
+    expect(splitSegments('a1234567b', 1)).toHaveLength(3);
+    expect(splitSegments('a1234567b', 10)).toEqual([{ mode: 'byte', data: 'a1234567b' }]);
+  });
+
+  it.each([
+    'https://example.com/ABC/123456789',
+    'Order 000123 / SKU ABC-99 / qty 12',
+    'MIXED case 12 and 3456789 and €',
+  ])('spells out %s in no more bits than any single mode', content => {
+    for (const version of [1, 10, 27]) {
+      const segments = splitSegments(content, version);
+      expect(joinSegments(segments)).toBe(content);
+      expect(totalBits(segments, version)).toBeLessThanOrEqual(segmentBits({ mode: 'byte', data: content }, version));
+    }
+  });
+});
+
+describe('findInvalidSegment', () => {
+  it('finds data the mode cannot hold', () => {
+    const invalid = { mode: 'alphanumeric', data: 'abc' } as const;
+    expect(findInvalidSegment([{ mode: 'numeric', data: '12' }, invalid])).toBe(invalid);
+    expect(findInvalidSegment([{ mode: 'numeric', data: '' }])).toBeDefined();
+    expect(findInvalidSegment([{ mode: 'byte', data: 'anything €' }])).toBeUndefined();
+  });
+});
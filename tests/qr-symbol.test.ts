@@ -0,0 +1,93 @@
+import QRCode from 'qrcode';
+import type { BitMatrix } from 'qrcode';
+import { encodeSymbol, parseSymbolData, readSymbolData } from '../src/qr-symbol.js';
+import { appendBits, splitSegments, writeSegment } from '../src/qr-segments.js';
+import type { ErrorCorrectionLevel } from '../src/types.js';
+
+function stream(content: string, version: number, header?: { position: number; total: number; parity: number }): number[] {
+  const bits: number[] = [];
+  if (header) {
+    appendBits(bits, 3, 4);
+    appendBits(bits, header.position, 4);
+    appendBits(bits, header.total - 1, 4);
+    appendBits(bits, header.parity, 8);
+  }
+  for (const segment of splitSegments(content, version)) writeSegment(bits, segment, version);
+  return bits;
+}
+
+function toBytes(bits: number[]): Uint8Array {
+  const bytes = new Uint8Array(Math.ceil(bits.length / 8));
+  bits.forEach((bit, i) => {
+    bytes[i >> 3] |= bit << (7 - (i & 7));
+  });
+  return bytes;
+}
+
+// The mask is not known up front, so read with each until one parses
+function read(modules: BitMatrix, version: number, level: ErrorCorrectionLevel): string | undefined {
+  for (let mask = 0; mask < 8; mask++) {
+    const data = readSymbolData((row, col) => Boolean(modules.get(row, col)), version, level, mask);
+    if (!data) continue;
+    try {
+      return parseSymbolData(data, version).text;
+    } catch {
+      // wrong mask
+    }
+  }
+  return undefined;
+}
+
+describe('encodeSymbol', () => {
+  it.each([
+    ['HELLO WORLD', 1, 'M'],
+    ['01234567', 1, 'M'],
+    ['hello world 123 ABC', 5, 'Q'],
+    ['https://example.com/a/long/path?with=query&and=more#fragment', 12, 'H'],
+  ] as const)('draws %s as version %i-%s the way the qrcode encoder does', (content, version, level) => {
+    const modules = encodeSymbol(stream(content, version), version, level);
+    const reference = QRCode.create(content, { version, errorCorrectionLevel: level }).modules;
+
+    expect(Buffer.from(modules.data)).toEqual(Buffer.from(reference.data));
+  });
+
+  it('rejects streams longer than the symbol holds', () => {
+    expect(() => encodeSymbol(stream('x'.repeat(200), 10), 10, 'H')).toThrow(/holds 976/);
+  });
+});
+
+describe('readSymbolData', () => {
+  it('reads back what encodeSymbol drew', () => {
+    const modules = encodeSymbol(stream('Reed-Solomon 0123456789', 7), 7, 'L');
+    expect(read(modules, 7, 'L')).toBe('Reed-Solomon 0123456789');
+  });
+
+  it('corrects damaged modules', () => {
+    const modules = encodeSymbol(stream('DAMAGED SYMBOL', 4), 4, 'H');
+    // The 4x4 modules in the bottom-right corner span two codewords
+    for (let row = 29; row < 33; row++) {
+      for (let col = 29; col < 33; col++) modules.set(row, col, modules.get(row, col) ? 0 : 1, false);
+    }
+    expect(read(modules, 4, 'H')).toBe('DAMAGED SYMBOL');
+  });
+});
+
+describe('parseSymbolData', () => {
+  it('reads the Structured Append header and every segment', () => {
+    const data = toBytes(stream('part 2 OF 3 0123', 3, { position: 1, total: 3, parity: 0x5a }));
+    const symbol = parseSymbolData(data, 3);
+
+    expect(symbol.structuredAppend).toEqual({ position: 1, total: 3, parity: 0x5a });
+    expect(symbol.text).toBe('part 2 OF 3 0123');
+    expect(Buffer.from(symbol.bytes).toString('latin1')).toBe('part 2 OF 3 0123');
+  });
+
+  it('decodes UTF-8 byte segments', () => {
+    expect(parseSymbolData(toBytes(stream('Grüße', 2)), 2).text).toBe('Grüße');
+  });
+
+  it('rejects data that ends inside a segment', () => {
+    const data = toBytes(stream('0123456789', 1)).subarray(0, 2);
+    expect(() => parseSymbolData(data, 1)).toThrow('Symbol data ends inside a segment');
+  });
+});
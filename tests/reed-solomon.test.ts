@@ -0,0 +1,52 @@
+import { rsDecode, rsEncode } from '../src/reed-solomon.js';
+
+// Version 1-M data codewords of "01234567" (ISO/IEC 18004 annex I) and of
+// "HELLO WORLD", with their error correction codewords
+const NUMERIC_DATA = '10200c566180ec11ec11ec11ec11ec11';
+const NUMERIC_EC = 'a524d4c1ed36c7872c55';
+const ALPHANUMERIC_DATA = '205b0b78d172dc4d4340ec11ec11ec11';
+const ALPHANUMERIC_EC = 'c4232777ebd7e7e25d17';
+
+function bytes(hex: string): Uint8Array {
+  return Uint8Array.from(Buffer.from(hex, 'hex'));
+}
+
+describe('rsEncode', () => {
+  it('matches the reference error correction codewords', () => {
+    expect(Buffer.from(rsEncode(bytes(NUMERIC_DATA), 10)).toString('hex')).toBe(NUMERIC_EC);
+    expect(Buffer.from(rsEncode(bytes(ALPHANUMERIC_DATA), 10)).toString('hex')).toBe(ALPHANUMERIC_EC);
+  });
+});
+
+describe('rsDecode', () => {
+  it('leaves a clean block alone', () => {
+    const block = bytes(NUMERIC_DATA + NUMERIC_EC);
+    expect(rsDecode(block, 10)).toBe(0);
+    expect(Buffer.from(block).toString('hex')).toBe(NUMERIC_DATA + NUMERIC_EC);
+  });
+
+  it('corrects up to half as many codewords as it has error correction codewords', () => {
+    const block = bytes(ALPHANUMERIC_DATA + ALPHANUMERIC_EC);
+    for (const position of [0, 3, 9, 17, 25]) block[position] ^= 0x5a;
+
+    expect(rsDecode(block, 10)).toBe(5);
+    expect(Buffer.from(block).toString('hex')).toBe(ALPHANUMERIC_DATA + ALPHANUMERIC_EC);
+  });
+
+  it('reports blocks with too many errors', () => {
+    const block = bytes(ALPHANUMERIC_DATA + ALPHANUMERIC_EC);
+    for (const position of [0, 2, 4, 6, 8, 10]) block[position] ^= 0xff;
+
+    expect(rsDecode(block, 10)).toBe(-1);
+  });
+
+  it('corrects random errors in long blocks', () => {
+    const data = Uint8Array.from({ length: 100 }, (_, i) => (i * 37 + 11) & 0xff);
+    const clean = new Uint8Array([...data, ...rsEncode(data, 30)]);
+    const block = clean.slice();
+    for (let i = 0; i < 15; i++) block[i * 8 + 3] ^= i + 1;
+
+    expect(rsDecode(block, 30)).toBe(15);
+    expect(block).toEqual(clean);
+  });
+});
@@ -0,0 +1,79 @@
+import type { BitMatrix } from 'qrcode';
+import { encodeSymbol } from '../src/qr-symbol.js';
+import { appendBits, splitSegments, writeSegment } from '../src/qr-segments.js';
+import { readSymbols } from '../src/symbol-reader.js';
+import type { RGBAImage } from '../src/decode-pipeline.js';
+
+const MODULE_PIXELS = 4;
+const QUIET_ZONE = 4;
+
+const PARTS = ['first PART 0001', 'second PART 0002', 'third PART 0003'];
+
+// Structured Append symbols of growing versions, which jsQR cannot read
+function structuredAppendSet(): BitMatrix[] {
+  return PARTS.map((content, position) => {
+    const version = 2 + position;
+    const bits: number[] = [];
+    appendBits(bits, 3, 4);
+    appendBits(bits, position, 4);
+    appendBits(bits, PARTS.length - 1, 4);
+    appendBits(bits, 0x42, 8);
+    for (const segment of splitSegments(content, version)) writeSegment(bits, segment, version);
+    return encodeSymbol(bits, version, 'M');
+  });
+}
+
+// Symbols side by side on a white image, each with its quiet zone
+function render(symbols: BitMatrix[]): RGBAImage {
+  const cell = Math.max(...symbols.map(symbol => symbol.size)) + QUIET_ZONE * 2;
+  const width = cell * symbols.length * MODULE_PIXELS;
+  const height = cell * MODULE_PIXELS;
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+
+  symbols.forEach((symbol, index) => {
+    for (let row = 0; row < symbol.size; row++) {
+      for (let col = 0; col < symbol.size; col++) {
+        if (!symbol.get(row, col)) continue;
+        for (let y = 0; y < MODULE_PIXELS; y++) {
+          for (let x = 0; x < MODULE_PIXELS; x++) {
+            const px = (index * cell + QUIET_ZONE + col) * MODULE_PIXELS + x;
+            const py = (QUIET_ZONE + row) * MODULE_PIXELS + y;
+            data.fill(0, (py * width + px) * 4, (py * width + px) * 4 + 3);
+          }
+        }
+      }
+    }
+  });
+  return { data, width, height };
+}
+
+describe('readSymbols', () => {
+  it('reads every symbol of a Structured Append set in one image', () => {
+    const found = readSymbols(render(structuredAppendSet()));
+    const byPosition = found.sort((a, b) => a.data.structuredAppend!.position - b.data.structuredAppend!.position);
+
+    expect(byPosition.map(symbol => symbol.data.text)).toEqual(PARTS);
+    expect(byPosition.map(symbol => symbol.version)).toEqual([2, 3, 4]);
+    for (const symbol of byPosition) {
+      expect(symbol.errorCorrectionLevel).toBe('M');
+      expect(symbol.data.structuredAppend).toMatchObject({ total: 3, parity: 0x42 });
+    }
+  });
+
+  it('reports where each symbol is', () => {
+    const [symbol] = readSymbols(render(structuredAppendSet().slice(0, 1)));
+    const edge = QUIET_ZONE * MODULE_PIXELS;
+
+    expect(symbol.location.topLeftCorner.x).toBeCloseTo(edge, -1);
+    expect(symbol.location.topLeftCorner.y).toBeCloseTo(edge, -1);
+  });
+
+  it('finds nothing in a blank image', () => {
+    const blank = { data: new Uint8ClampedArray(200 * 200 * 4).fill(255), width: 200, height: 200 };
+    expect(readSymbols(blank)).toEqual([]);
+  });
+
+  it('stops reading once the deadline has passed', () => {
+    expect(readSymbols(render(structuredAppendSet()), Date.now() - 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,113 @@
+import { EmailSchema, GeoSchema, MapLinkSchema, QRValidationError, SMSSchema } from '../src/types.js';
+import {
+  buildEmailPayload,
+  buildGeoPayload,
+  buildMapLink,
+  buildPhonePayload,
+  buildSMSPayload,
+  normalizeE164,
+} from '../src/uri-payloads.js';
+
+describe('normalizeE164', () => {
+  it.each([
+    ['+44 (0)20 7946 0000', undefined, '+442079460000'],
+    ['0044 20 7946-0000', undefined, '+442079460000'],
+    ['030 1234567', '49', '+49301234567'],
+    ['(555) 010.0199', '1', '+15550100199'],
+  ])('normalises %s', (number, countryCode, expected) => {
+    expect(normalizeE164(number, countryCode)).toBe(expected);
+  });
+
+  it('needs a country code for a national number', () => {
+    expect(() => normalizeE164('030 1234567')).toThrow(QRValidationError);
+  });
+
+  it('rejects more than 15 digits and a leading zero country code', () => {
+    expect(() => normalizeE164('+1234567890123456')).toThrow(QRValidationError);
+    expect(() => normalizeE164('+0301234567')).toThrow(QRValidationError);
+  });
+});
+
+describe('buildPhonePayload', () => {
+  it('writes a tel: URI with the extension', () => {
+    expect(buildPhonePayload({ number: '030 1234567', countryCode: '49', extension: '12' })).toBe('tel:+49301234567;ext=12');
+  });
+});
+
+describe('buildSMSPayload', () => {
+  it('writes SMSTO with the message as is', () => {
+    expect(buildSMSPayload(SMSSchema.parse({ number: '+44 7700 900123', message: 'Hi: there' }))).toBe('SMSTO:+447700900123:Hi: there');
+  });
+
+  it('writes an sms: URI with a percent-encoded CRLF body', () => {
+    const sms = SMSSchema.parse({ number: '0044 7700 900123', message: 'a&b\nc', format: 'sms' });
+    expect(buildSMSPayload(sms)).toBe('sms:+447700900123?body=a%26b%0D%0Ac');
+  });
+
+  it('keeps short codes', () => {
+    expect(buildSMSPayload(SMSSchema.parse({ number: '12345' }))).toBe('SMSTO:12345:');
+    expect(() => buildSMSPayload(SMSSchema.parse({ number: '12' }))).toThrow(QRValidationError);
+  });
+});
+
+describe('buildEmailPayload', () => {
+  it('writes a mailto: URI with encoded header fields', () => {
+    const email = EmailSchema.parse({
+      to: ['a@example.com', 'b+tag@example.com'],
+      cc: ['c@example.com'],
+      subject: 'Hello & welcome',
+      body: 'Line 1\nLine 2',
+    });
+    expect(buildEmailPayload(email)).toBe(
+      'mailto:a@example.com,b%2Btag@example.com?cc=c@example.com&subject=Hello%20%26%20welcome&body=Line%201%0D%0ALine%202'
+    );
+  });
+
+  it('writes MATMSG for a single recipient', () => {
+    const email = EmailSchema.parse({ to: ['a@example.com'], subject: 'Hi', body: 'Text', format: 'matmsg' });
+    expect(buildEmailPayload(email)).toBe('MATMSG:TO:a@example.com;SUB:Hi;BODY:Text;;');
+  });
+});
+
+describe('buildGeoPayload', () => {
+  // RFC 5870 section 6.2 examples
+  it('writes coordinates, altitude and uncertainty', () => {
+    expect(buildGeoPayload(GeoSchema.parse({ latitude: 48.2010, longitude: 16.3695, altitude: 183 }))).toBe('geo:48.201,16.3695,183');
+    expect(buildGeoPayload(GeoSchema.parse({ latitude: 48.198634, longitude: 16.371648, uncertainty: 40 }))).toBe(
+      'geo:48.198634,16.371648;u=40'
+    );
+  });
+
+  it('writes tiny values in decimal notation and drops the sign of zero', () => {
+    expect(buildGeoPayload(GeoSchema.parse({ latitude: 0.0000001, longitude: -0.00000001 }))).toBe('geo:0.0000001,0');
+    expect(buildGeoPayload(GeoSchema.parse({ latitude: -0, longitude: 5 }))).toBe('geo:0,5');
+  });
+
+  it('writes a label or a query', () => {
+    expect(buildGeoPayload(GeoSchema.parse({ latitude: 1.5, longitude: 2, label: 'Our office' }))).toBe(
+      'geo:1.5,2?q=1.5%2C2(Our%20office)'
+    );
+    expect(buildGeoPayload(GeoSchema.parse({ latitude: 0, longitude: 0, query: 'coffee' }))).toBe('geo:0,0?q=coffee');
+  });
+});
+
+describe('buildMapLink', () => {
+  const point = { latitude: 52.5163, longitude: 13.3777 };
+
+  it.each([
+    [{ ...point }, 'https://www.google.com/maps/search/?api=1&query=52.5163%2C13.3777'],
+    [{ query: 'Brandenburger Tor', zoom: 12 }, 'https://www.google.com/maps/search/?api=1&query=Brandenburger+Tor&zoom=12'],
+    [{ ...point, directions: 'walking' }, 'https://www.google.com/maps/dir/?api=1&destination=52.5163%2C13.3777&travelmode=walking'],
+    [{ provider: 'apple', ...point, query: 'Gate' }, 'https://maps.apple.com/?ll=52.5163%2C13.3777&q=Gate'],
+    [{ provider: 'apple', query: 'Gate', directions: 'transit' }, 'https://maps.apple.com/?daddr=Gate&dirflg=r'],
+    [{ provider: 'osm', ...point }, 'https://www.openstreetmap.org/?mlat=52.5163&mlon=13.3777#map=15/52.5163/13.3777'],
+    [{ provider: 'osm', query: 'Gate' }, 'https://www.openstreetmap.org/search?query=Gate'],
+  ])('builds %j', (fields, expected) => {
+    expect(buildMapLink(MapLinkSchema.parse(fields))).toBe(expected);
+  });
+
+  it('rejects directions a provider does not support', () => {
+    expect(() => buildMapLink(MapLinkSchema.parse({ provider: 'apple', ...point, directions: 'bicycling' }))).toThrow(QRValidationError);
+    expect(() => buildMapLink(MapLinkSchema.parse({ provider: 'osm', ...point, directions: 'driving' }))).toThrow(QRValidationError);
+  });
+});
@@ -0,0 +1,63 @@
+import { parsePayload } from '../src/payload-parser.js';
+import { WiFiSchema } from '../src/types.js';
+import { buildWiFiPayload } from '../src/wifi-payload.js';
+
+describe('buildWiFiPayload', () => {
+  it('escapes special characters in values', () => {
+    const wifi = WiFiSchema.parse({ ssid: 'Cafe;Guest', password: 'pa:ss,wo"rd\\' });
+    expect(buildWiFiPayload(wifi)).toBe('WIFI:T:WPA2;S:Cafe\\;Guest;P:pa\\:ss\\,wo\\"rd\\\\;;');
+  });
+
+  it('quotes text that reads as hex', () => {
+    const wifi = WiFiSchema.parse({ ssid: 'CAFE', password: '12345678', hidden: true });
+    expect(buildWiFiPayload(wifi)).toBe('WIFI:T:WPA2;S:"CAFE";H:true;P:"12345678";;');
+  });
+
+  it('writes a hex SSID as octets', () => {
+    const wifi = WiFiSchema.parse({ ssid: 'e4b8ade69687', ssidIsHex: true, password: 'x' });
+    expect(buildWiFiPayload(wifi)).toBe('WIFI:T:WPA2;S:e4b8ade69687;P:x;;');
+  });
+
+  it('leaves out the password of an open network', () => {
+    const wifi = WiFiSchema.parse({ ssid: 'Open', security: 'nopass', password: 'ignored' });
+    expect(buildWiFiPayload(wifi)).toBe('WIFI:T:nopass;S:Open;;');
+  });
+
+  it('writes 802.1X fields for enterprise networks', () => {
+    const wifi = WiFiSchema.parse({
+      ssid: 'Corp',
+      security: 'WPA2-EAP',
+      eapMethod: 'PEAP',
+      phase2: 'MSCHAPV2',
+      identity: 'dom\\user',
+      anonymousIdentity: 'anon',
+      password: 'pw',
+    });
+    expect(buildWiFiPayload(wifi)).toBe('WIFI:T:WPA2-EAP;S:Corp;E:PEAP;PH2:MSCHAPV2;A:anon;I:dom\\\\user;P:pw;;');
+  });
+
+  it('writes WPA3 transition disable and public key fields', () => {
+    const wifi = WiFiSchema.parse({ ssid: 'Home', security: 'WPA3', password: 'pw', transitionDisable: 1, publicKey: 'MDkw' });
+    expect(buildWiFiPayload(wifi)).toBe('WIFI:T:WPA3;R:1;S:Home;P:pw;K:MDkw;;');
+  });
+
+  it.each([
+    { ssid: 'Cafe;Guest', password: 'pa:ss,wo"rd\\' },
+    { ssid: 'CAFE', password: '12345678', hidden: true },
+    { ssid: 'e4b8ade69687', ssidIsHex: true, password: 'x' },
+    { ssid: 'Corp', security: 'WPA3-EAP', eapMethod: 'TTLS', phase2: 'PAP', identity: 'me', password: 'pw' },
+  ])('reads back $ssid', fields => {
+    const wifi = WiFiSchema.parse(fields);
+    expect(parsePayload(buildWiFiPayload(wifi))).toEqual({ type: 'wifi', fields: wifi });
+  });
+});
+
+describe('WiFiSchema', () => {
+  it('rejects an odd number of hex digits', () => {
+    expect(WiFiSchema.safeParse({ ssid: 'abc', ssidIsHex: true }).success).toBe(false);
+  });
+
+  it('rejects 802.1X fields on a personal network', () => {
+    expect(WiFiSchema.safeParse({ ssid: 'Home', eapMethod: 'PEAP' }).success).toBe(false);
+  });
+});